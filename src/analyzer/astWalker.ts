@@ -0,0 +1,55 @@
+/**
+ * Traversal of the ESTree nodes acorn produces
+ */
+
+import * as acorn from 'acorn';
+
+/**
+ * Keys of ESTree nodes that never hold child nodes
+ */
+const NON_CHILD_KEYS = new Set(['type', 'start', 'end', 'loc', 'range', 'raw', 'regex', 'bigint']);
+
+/**
+ * Get the child nodes of a node, in the order of its keys
+ * @param node An ESTree node
+ * @returns The nodes held by its properties and the elements of its array properties
+ */
+export function getChildNodes(node: acorn.Node): acorn.AnyNode[] {
+  const children: acorn.AnyNode[] = [];
+  for (const [key, value] of Object.entries(node)) {
+    if (NON_CHILD_KEYS.has(key)) {
+      continue;
+    }
+
+    if (Array.isArray(value)) {
+      children.push(...value.filter(isNode));
+    } else if (isNode(value)) {
+      children.push(value);
+    }
+  }
+  return children;
+}
+
+/**
+ * Call a callback for a node and all of its descendants, parents first
+ * @param node Root of the tree; null and undefined are ignored
+ * @param callback Function called with every node
+ */
+export function walk(node: acorn.Node | null | undefined, callback: (node: acorn.AnyNode) => void): void {
+  if (!isNode(node)) {
+    return;
+  }
+
+  callback(node);
+
+  for (const child of getChildNodes(node)) {
+    walk(child, callback);
+  }
+}
+
+/**
+ * Check whether a property value is an ESTree node
+ */
+function isNode(value: unknown): value is acorn.AnyNode {
+  return typeof value === 'object' && value !== null && typeof (value as acorn.AnyNode).type === 'string';
+}
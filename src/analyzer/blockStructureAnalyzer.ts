@@ -0,0 +1,323 @@
+/**
+ * Analysis of blocks and HTML elements spanning the tags of an EJS template
+ */
+
+import * as acorn from 'acorn';
+import { BlockStructureIssue, TemplateNode } from '../types';
+
+/**
+ * Closing brackets and the opening brackets they match; `${` opens a template literal substitution
+ */
+const MATCHING_BRACKETS: Record<string, string[]> = {
+  '}': ['{', '${'],
+  ')': ['('],
+  ']': ['[']
+};
+
+/**
+ * Opening brackets
+ */
+const OPENING_BRACKETS = new Set(Object.values(MATCHING_BRACKETS).flat());
+
+/**
+ * Elements without an end tag
+ */
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+
+/**
+ * Elements whose end tag may be left out, which are not followed across blocks
+ */
+const OPTIONAL_END_TAG_ELEMENTS = new Set([
+  'body', 'colgroup', 'dd', 'dt', 'head', 'html', 'li', 'optgroup', 'option', 'p', 'rp', 'rt', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr'
+]);
+
+/**
+ * Comments, raw text elements and tags of the HTML around the EJS tags
+ */
+const HTML_PATTERN = /<!--[\s\S]*?(?:-->|$)|<(script|style)\b(?:"[^"]*"|'[^']*'|[^'">])*>[\s\S]*?(?:<\/\1\s*>|$)|<(\/?)([a-zA-Z][\w:.-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/gi;
+
+/**
+ * A JavaScript token or HTML tag of the template, in document order
+ */
+interface StructureEvent {
+  type: 'token' | 'startTag' | 'endTag';
+  /** Token label such as `{` or `else`, or the lower-case tag name */
+  value: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * An open HTML element
+ */
+interface OpenElement {
+  name: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * An end tag closing an element, directly or by closing an ancestor
+ */
+interface ElementClosing {
+  element: OpenElement;
+  start: number;
+  end: number;
+}
+
+/**
+ * An `if` / `else` chain, or any other block; each branch starts from the same open elements
+ */
+interface BlockChain {
+  elements: OpenElement[];
+  branches: { open: StructureEvent; close: StructureEvent; elements: OpenElement[]; closings: ElementClosing[] }[];
+  hasFinalElse: boolean;
+}
+
+/**
+ * An open bracket
+ */
+interface OpenBracket {
+  token: StructureEvent;
+  chain: BlockChain | null;
+  /** Number of element closings before the bracket */
+  closingCount: number;
+}
+
+/**
+ * Follows the brackets of the scriptlets of a template together with the
+ * HTML elements between them
+ *
+ * Reports unmatched and mismatched brackets at both ends, and HTML elements
+ * crossing the boundary of a block: an element closed inside a block it was
+ * opened outside of, or opened inside a block and left open when it ends.
+ * The branches of an `if` / `else` chain may each open or close the same
+ * elements, as in `<% if (a) { %><b><% } else { %><i><% } %>`.
+ */
+export class BlockStructureAnalyzer {
+  private issues: BlockStructureIssue[] = [];
+  private brackets: OpenBracket[] = [];
+  private elements: OpenElement[] = [];
+  private closings: ElementClosing[] = [];
+  private pendingChain: BlockChain | null = null;
+
+  /**
+   * Analyze the structure of a template
+   * @param nodes Template AST in document order
+   * @returns Problems in the order they are found
+   */
+  analyze(nodes: TemplateNode[]): BlockStructureIssue[] {
+    this.issues = [];
+    this.brackets = [];
+    this.elements = [];
+    this.closings = [];
+    this.pendingChain = null;
+
+    const events = [...this.collectTokens(nodes), ...this.collectTags(nodes)].sort((a, b) => a.start - b.start);
+    events.forEach((event, index) => {
+      if (event.type === 'startTag') {
+        this.elements.push({ name: event.value, start: event.start, end: event.end });
+      } else if (event.type === 'endTag') {
+        this.closeElement(event);
+      } else if (event.value in MATCHING_BRACKETS) {
+        this.closeBracket(event, this.findNextToken(events, index));
+      } else if (OPENING_BRACKETS.has(event.value)) {
+        this.openBracket(event);
+      } else if (event.value === 'else' && this.pendingChain) {
+        this.pendingChain.hasFinalElse = this.findNextToken(events, index)?.value !== 'if';
+      }
+    });
+
+    for (const bracket of this.brackets) {
+      this.addIssue('bracket', `'${bracket.token.value}' is never closed.`, bracket.token);
+    }
+    return this.issues;
+  }
+
+  /**
+   * Open a bracket; a `{` starts a block, or the next branch of a pending `if` / `else` chain
+   */
+  private openBracket(token: StructureEvent): void {
+    let chain: BlockChain | null = null;
+    if (token.value === '{') {
+      chain = this.pendingChain ?? { elements: [...this.elements], branches: [], hasFinalElse: false };
+      this.elements = [...chain.elements];
+      this.pendingChain = null;
+    }
+    this.brackets.push({ token, chain, closingCount: this.closings.length });
+  }
+
+  /**
+   * Close the innermost bracket, checking the elements of the block it ends
+   */
+  private closeBracket(token: StructureEvent, next: StructureEvent | null): void {
+    const bracket = this.brackets.pop();
+    if (token.value === '}') {
+      this.pendingChain = null;
+    }
+
+    if (!bracket) {
+      this.addIssue('bracket', `Unmatched '${token.value}'.`, token);
+      return;
+    }
+    if (!MATCHING_BRACKETS[token.value].includes(bracket.token.value)) {
+      this.addIssue('bracket', `'${token.value}' does not match '${bracket.token.value}'.`, token, [
+        { message: `'${bracket.token.value}' opened here`, start: bracket.token.start, end: bracket.token.end }
+      ]);
+      this.addIssue('bracket', `'${bracket.token.value}' is closed by '${token.value}'.`, bracket.token, [
+        { message: `'${token.value}' closes it here`, start: token.start, end: token.end }
+      ]);
+      return;
+    }
+    if (!bracket.chain) {
+      return;
+    }
+
+    const chain = bracket.chain;
+    chain.branches.push({
+      open: bracket.token,
+      close: token,
+      elements: [...this.elements],
+      closings: this.closings.slice(bracket.closingCount)
+    });
+    if (next?.value === 'else') {
+      this.pendingChain = chain;
+    } else {
+      this.checkChain(chain);
+    }
+  }
+
+  /**
+   * Report the elements crossing the blocks of a chain, unless every branch
+   * leaves the same elements open and, without a final `else`, the same as before the chain
+   */
+  private checkChain(chain: BlockChain): void {
+    const names = (elements: OpenElement[]) => elements.map(element => element.name).join(' ');
+    const reference = names(chain.hasFinalElse ? chain.branches[0].elements : chain.elements);
+    if (chain.branches.every(branch => names(branch.elements) === reference)) {
+      return;
+    }
+
+    for (const branch of chain.branches) {
+      if (names(branch.elements) === names(chain.elements)) {
+        continue;
+      }
+
+      let common = 0;
+      while (common < chain.elements.length && chain.elements[common] === branch.elements[common]) {
+        common++;
+      }
+
+      for (const element of chain.elements.slice(common)) {
+        const closing = branch.closings.find(candidate => candidate.element === element);
+        if (closing) {
+          this.addIssue('element', `'</${element.name}>' closes an element opened outside this block.`, closing, [
+            { message: `'<${element.name}>' opened here`, start: element.start, end: element.end },
+            { message: 'Block opened here', start: branch.open.start, end: branch.open.end }
+          ]);
+        }
+      }
+      for (const element of branch.elements.slice(common)) {
+        this.addIssue('element', `'<${element.name}>' is not closed before the end of this block.`, element, [
+          { message: 'Block closed here', start: branch.close.start, end: branch.close.end }
+        ]);
+      }
+    }
+  }
+
+  /**
+   * Close the innermost open element of an end tag, and the elements left open inside it
+   */
+  private closeElement(tag: StructureEvent): void {
+    const index = this.elements.map(element => element.name).lastIndexOf(tag.value);
+    if (index === -1) {
+      return;
+    }
+
+    for (const element of this.elements.splice(index)) {
+      this.closings.push({ element, start: tag.start, end: tag.end });
+    }
+  }
+
+  /**
+   * Find the JavaScript token following an event
+   */
+  private findNextToken(events: StructureEvent[], index: number): StructureEvent | null {
+    return events.slice(index + 1).find(event => event.type === 'token') ?? null;
+  }
+
+  /**
+   * Record an issue, unless it was already found for a block nested in the current one
+   */
+  private addIssue(
+    kind: BlockStructureIssue['kind'],
+    message: string,
+    range: { start: number; end: number },
+    related: BlockStructureIssue['related'] = []
+  ): void {
+    if (this.issues.some(issue => issue.start === range.start && issue.message === message)) {
+      return;
+    }
+    this.issues.push({ kind, message, start: range.start, end: range.end, related });
+  }
+
+  /**
+   * Tokenize the scriptlets of a template, skipping the rest of a scriptlet the tokenizer cannot read
+   */
+  private collectTokens(nodes: TemplateNode[]): StructureEvent[] {
+    const tokens: StructureEvent[] = [];
+    for (const node of nodes) {
+      if (node.type !== 'scriptlet' || !node.closed) {
+        continue;
+      }
+
+      // The tokens before an error, such as the `(` before an unterminated string, are left out with it
+      const nodeTokens: StructureEvent[] = [];
+      try {
+        for (const token of acorn.tokenizer(node.content, { ecmaVersion: 'latest' })) {
+          nodeTokens.push({
+            type: 'token',
+            value: token.type.label,
+            start: node.contentStart + token.start,
+            end: node.contentStart + token.end
+          });
+        }
+      } catch {
+        // Syntax errors are reported elsewhere
+        continue;
+      }
+      tokens.push(...nodeTokens);
+    }
+    return tokens;
+  }
+
+  /**
+   * Find the start and end tags of the HTML around the EJS tags
+   */
+  private collectTags(nodes: TemplateNode[]): StructureEvent[] {
+    // EJS tags are blanked out so that offsets stay the same and tags written around them still match
+    let html = '';
+    for (const node of nodes) {
+      html += node.type === 'text' ? node.content : ' '.repeat(node.end - node.start);
+    }
+
+    const tags: StructureEvent[] = [];
+    for (const match of html.matchAll(HTML_PATTERN)) {
+      const [text, , slash, tagName, attributes] = match;
+      const name = tagName?.toLowerCase();
+      if (!name || VOID_ELEMENTS.has(name) || OPTIONAL_END_TAG_ELEMENTS.has(name) || (!slash && attributes.trimEnd().endsWith('/'))) {
+        continue;
+      }
+
+      tags.push({
+        type: slash ? 'endTag' : 'startTag',
+        value: name,
+        start: match.index!,
+        end: match.index! + text.length
+      });
+    }
+    return tags;
+  }
+}
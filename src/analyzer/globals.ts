@@ -0,0 +1,57 @@
+/**
+ * Names a template can use without declaring them, and names it cannot declare
+ */
+
+/**
+ * Parameters and variables of the function EJS compiles a template into
+ */
+export const EJS_RUNTIME_NAMES: ReadonlySet<string> = new Set([
+  'locals', 'escapeFn', 'include', 'rethrow',
+  '__output', '__append', '__line', '__lines', '__filename',
+  'arguments'
+]);
+
+/**
+ * Built-in globals of JavaScript and Node.js, where templates are rendered
+ */
+export const JAVASCRIPT_GLOBALS: ReadonlySet<string> = new Set([
+  'globalThis', 'undefined', 'NaN', 'Infinity',
+  'Object', 'Function', 'Array', 'Number', 'Boolean', 'String', 'Symbol', 'BigInt',
+  'Date', 'RegExp', 'Promise', 'Proxy', 'Reflect', 'JSON', 'Math', 'Intl',
+  'Map', 'Set', 'WeakMap', 'WeakSet', 'WeakRef', 'FinalizationRegistry',
+  'Error', 'AggregateError', 'EvalError', 'RangeError', 'ReferenceError', 'SyntaxError', 'TypeError', 'URIError',
+  'ArrayBuffer', 'SharedArrayBuffer', 'DataView', 'Atomics',
+  'Int8Array', 'Uint8Array', 'Uint8ClampedArray', 'Int16Array', 'Uint16Array',
+  'Int32Array', 'Uint32Array', 'Float32Array', 'Float64Array', 'BigInt64Array', 'BigUint64Array',
+  'parseInt', 'parseFloat', 'isNaN', 'isFinite', 'eval',
+  'encodeURI', 'encodeURIComponent', 'decodeURI', 'decodeURIComponent', 'escape', 'unescape',
+  'console', 'process', 'Buffer', 'URL', 'URLSearchParams', 'TextEncoder', 'TextDecoder',
+  'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'setImmediate', 'clearImmediate',
+  'queueMicrotask', 'structuredClone'
+]);
+
+/**
+ * Keywords, reserved words and literal names, which are never the name of a
+ * variable; `await` is reserved in the async function EJS may compile a template into
+ */
+export const JAVASCRIPT_KEYWORDS: ReadonlySet<string> = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default',
+  'delete', 'do', 'else', 'enum', 'export', 'extends', 'finally', 'for', 'function',
+  'if', 'import', 'in', 'instanceof', 'let', 'new', 'return', 'super',
+  'switch', 'this', 'throw', 'try', 'typeof', 'var', 'void', 'while',
+  'with', 'yield', 'await', 'true', 'false', 'null', 'undefined'
+]);
+
+/**
+ * Identifiers as JavaScript defines them, with Unicode letters
+ */
+const IDENTIFIER_PATTERN = /^[\p{ID_Start}$_][\p{ID_Continue}$\u200C\u200D]*$/u;
+
+/**
+ * Check whether a name can be declared as a variable
+ * @param name The name to check
+ * @returns True for identifiers that are not keywords or reserved words
+ */
+export function isVariableName(name: string): boolean {
+  return IDENTIFIER_PATTERN.test(name) && !JAVASCRIPT_KEYWORDS.has(name);
+}
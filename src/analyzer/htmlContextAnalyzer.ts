@@ -0,0 +1,246 @@
+/**
+ * Analysis of the HTML surrounding the output tags of an EJS template
+ */
+
+import { HtmlContext, HtmlContextKind, TemplateNode } from '../types';
+
+/**
+ * Attributes whose values are URLs
+ */
+const URL_ATTRIBUTES = new Set([
+  'action', 'background', 'cite', 'codebase', 'data', 'formaction', 'href',
+  'icon', 'longdesc', 'manifest', 'ping', 'poster', 'src', 'srcset', 'xlink:href'
+]);
+
+/**
+ * Elements whose content is raw text, ended only by their closing tag
+ */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+/**
+ * States of the HTML tokenizer, a simplified version of the one in the HTML standard
+ */
+type State =
+  | 'data'
+  | 'tagName'
+  | 'endTag'
+  | 'beforeAttributeName'
+  | 'attributeName'
+  | 'afterAttributeName'
+  | 'beforeAttributeValue'
+  | 'doubleQuotedValue'
+  | 'singleQuotedValue'
+  | 'unquotedValue'
+  | 'comment'
+  | 'rawText';
+
+/**
+ * Finds the HTML context every output tag of a template writes into
+ *
+ * The text of the template is run through a simplified HTML tokenizer. EJS
+ * tags are opaque to it: they neither open nor close HTML constructs, and
+ * output tags count as content of the attribute value they are in.
+ */
+export class HtmlContextAnalyzer {
+  private state: State = 'data';
+  private tagName = '';
+  private attributeName = '';
+  private valueLength = 0;
+  private rawTextElement = '';
+
+  /**
+   * Set the HTML context of the output and unescaped tags of a template
+   * @param nodes Template AST in document order
+   */
+  annotate(nodes: TemplateNode[]): void {
+    this.reset();
+
+    for (const node of nodes) {
+      if (node.type === 'text' || node.type === 'literal') {
+        this.consume(node.content);
+      } else if (node.type === 'output' || node.type === 'unescaped') {
+        node.htmlContext = this.getContext();
+        if (this.state === 'beforeAttributeValue') {
+          this.state = 'unquotedValue';
+        }
+        this.valueLength++;
+      }
+    }
+  }
+
+  /**
+   * Return the tokenizer to the start of a template
+   */
+  private reset(): void {
+    this.state = 'data';
+    this.tagName = '';
+    this.attributeName = '';
+    this.valueLength = 0;
+    this.rawTextElement = '';
+  }
+
+  /**
+   * Get the context of the current tokenizer state
+   */
+  private getContext(): HtmlContext {
+    switch (this.state) {
+      case 'rawText':
+        return { kind: this.rawTextElement === 'script' ? 'script' : 'style', quoted: false, atValueStart: false };
+      case 'beforeAttributeValue':
+      case 'unquotedValue':
+      case 'doubleQuotedValue':
+      case 'singleQuotedValue':
+        return {
+          kind: this.getAttributeKind(this.attributeName),
+          attribute: this.attributeName,
+          quoted: this.state === 'doubleQuotedValue' || this.state === 'singleQuotedValue',
+          atValueStart: this.state === 'beforeAttributeValue' || this.valueLength === 0
+        };
+      case 'tagName':
+      case 'beforeAttributeName':
+      case 'attributeName':
+      case 'afterAttributeName':
+        // Output between attributes writes attributes of its own
+        return { kind: 'attribute', quoted: false, atValueStart: false };
+      default:
+        return { kind: 'text', quoted: false, atValueStart: false };
+    }
+  }
+
+  /**
+   * Get the kind of context the value of an attribute is
+   */
+  private getAttributeKind(name: string): HtmlContextKind {
+    if (name.startsWith('on')) {
+      return 'script';
+    }
+    if (name === 'style') {
+      return 'style';
+    }
+    return URL_ATTRIBUTES.has(name) ? 'url' : 'attribute';
+  }
+
+  /**
+   * Run a piece of template text through the tokenizer
+   */
+  private consume(text: string): void {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      const isSpace = /\s/.test(char);
+
+      switch (this.state) {
+        case 'data':
+          if (char === '<') {
+            if (text.startsWith('<!--', i)) {
+              this.state = 'comment';
+              i += 3;
+            } else if (/[a-zA-Z]/.test(text[i + 1] ?? '')) {
+              this.state = 'tagName';
+              this.tagName = '';
+            } else if (text[i + 1] === '/' && /[a-zA-Z]/.test(text[i + 2] ?? '')) {
+              this.state = 'endTag';
+              i++;
+            }
+          }
+          break;
+        case 'tagName':
+          if (isSpace || char === '/') {
+            this.state = 'beforeAttributeName';
+          } else if (char === '>') {
+            this.closeStartTag();
+          } else {
+            this.tagName += char.toLowerCase();
+          }
+          break;
+        case 'endTag':
+          if (char === '>') {
+            this.state = 'data';
+          }
+          break;
+        case 'beforeAttributeName':
+        case 'afterAttributeName':
+          if (char === '>') {
+            this.closeStartTag();
+          } else if (char === '=' && this.state === 'afterAttributeName') {
+            this.startValue();
+          } else if (!isSpace && char !== '/') {
+            this.state = 'attributeName';
+            this.attributeName = char.toLowerCase();
+          }
+          break;
+        case 'attributeName':
+          if (char === '=') {
+            this.startValue();
+          } else if (char === '>') {
+            this.closeStartTag();
+          } else if (isSpace || char === '/') {
+            this.state = 'afterAttributeName';
+          } else {
+            this.attributeName += char.toLowerCase();
+          }
+          break;
+        case 'beforeAttributeValue':
+          if (char === '"') {
+            this.state = 'doubleQuotedValue';
+          } else if (char === '\'') {
+            this.state = 'singleQuotedValue';
+          } else if (char === '>') {
+            this.closeStartTag();
+          } else if (!isSpace) {
+            this.state = 'unquotedValue';
+            this.valueLength++;
+          }
+          break;
+        case 'doubleQuotedValue':
+        case 'singleQuotedValue':
+          if (char === (this.state === 'doubleQuotedValue' ? '"' : '\'')) {
+            this.state = 'beforeAttributeName';
+          } else {
+            this.valueLength++;
+          }
+          break;
+        case 'unquotedValue':
+          if (isSpace) {
+            this.state = 'beforeAttributeName';
+          } else if (char === '>') {
+            this.closeStartTag();
+          } else {
+            this.valueLength++;
+          }
+          break;
+        case 'comment':
+          if (text.startsWith('-->', i)) {
+            this.state = 'data';
+            i += 2;
+          }
+          break;
+        case 'rawText':
+          if (text.slice(i, i + this.rawTextElement.length + 2).toLowerCase() === `</${this.rawTextElement}`) {
+            this.state = 'endTag';
+            i += this.rawTextElement.length + 1;
+          }
+          break;
+      }
+    }
+  }
+
+  /**
+   * Enter the value of the current attribute
+   */
+  private startValue(): void {
+    this.state = 'beforeAttributeValue';
+    this.valueLength = 0;
+  }
+
+  /**
+   * Leave a start tag, entering the raw text of script and style elements
+   */
+  private closeStartTag(): void {
+    if (RAW_TEXT_ELEMENTS.has(this.tagName)) {
+      this.state = 'rawText';
+      this.rawTextElement = this.tagName;
+    } else {
+      this.state = 'data';
+    }
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Collection of include() calls from the JavaScript of an EJS template
+ */
+
+import * as acorn from 'acorn';
+import { IncludeCall, IncludeLocal, TextRange } from '../types';
+import { walk } from './astWalker';
+import { Binding } from './scopeBuilder';
+import { TemplateScript } from './templateScript';
+
+/**
+ * How many constants deep an include path is folded, guarding against cycles
+ */
+const MAX_FOLD_DEPTH = 16;
+
+/**
+ * Finds `include(path, locals)` calls and folds their paths into strings
+ */
+export class IncludeCollector {
+  /**
+   * @param script The script the program was parsed from
+   * @param resolve Finds the binding an identifier node refers to, or null for names not declared in the template
+   */
+  constructor(
+    private script: TemplateScript,
+    private resolve: (identifier: acorn.AnyNode) => Binding | null
+  ) {}
+
+  /**
+   * Collect the include calls of a program
+   * @param program The program AST of the template script
+   * @returns Include calls in source order
+   */
+  collect(program: acorn.Program): IncludeCall[] {
+    const includes: IncludeCall[] = [];
+    walk(program, node => {
+      const include = this.createIncludeCall(node);
+      if (include) {
+        includes.push(include);
+      }
+    });
+    return includes;
+  }
+
+  /**
+   * Create an include call for a call expression of the EJS `include` function
+   */
+  private createIncludeCall(node: acorn.AnyNode): IncludeCall | null {
+    if (node.type !== 'CallExpression' || node.callee.type !== 'Identifier' || node.callee.name !== 'include') {
+      return null;
+    }
+
+    // A template can declare its own `include`, which is not the EJS function
+    const [pathArgument, localsArgument] = node.arguments;
+    if (!pathArgument || this.resolve(node.callee)) {
+      return null;
+    }
+
+    const range = this.getPathRange(pathArgument);
+    const callRange = this.getRange(node.start, node.end);
+    if (!range || !callRange) {
+      return null;
+    }
+
+    return {
+      path: this.evaluate(pathArgument, 0),
+      expression: this.script.code.slice(pathArgument.start, pathArgument.end),
+      range,
+      callRange,
+      locals: this.getLocals(localsArgument),
+      dynamicLocals: localsArgument !== undefined && (
+        localsArgument.type !== 'ObjectExpression' ||
+        localsArgument.properties.some(property => property.type !== 'Property' || property.computed)
+      )
+    };
+  }
+
+  /**
+   * Get the template range of a path argument, without the quotes of a literal
+   */
+  private getPathRange(node: acorn.Expression | acorn.SpreadElement): TextRange | null {
+    const quoted = (node.type === 'Literal' && typeof node.value === 'string') || node.type === 'TemplateLiteral';
+    return this.getRange(quoted ? node.start + 1 : node.start, quoted ? node.end - 1 : node.end);
+  }
+
+  /**
+   * Get the properties of an object literal passed as include locals
+   */
+  private getLocals(node: acorn.Expression | acorn.SpreadElement | undefined): IncludeLocal[] {
+    if (!node || node.type !== 'ObjectExpression') {
+      return [];
+    }
+
+    const locals: IncludeLocal[] = [];
+    for (const property of node.properties) {
+      if (property.type !== 'Property' || property.computed) {
+        continue;
+      }
+
+      let name: string;
+      if (property.key.type === 'Identifier') {
+        name = property.key.name;
+      } else if (property.key.type === 'Literal') {
+        name = String(property.key.value);
+      } else {
+        continue;
+      }
+
+      const range = this.getRange(property.key.start, property.key.end);
+      if (range) {
+        locals.push({ name, value: this.script.code.slice(property.value.start, property.value.end), range });
+      }
+    }
+    return locals;
+  }
+
+  /**
+   * Map a range of the generated code to the template
+   */
+  private getRange(start: number, end: number): TextRange | null {
+    const startPosition = this.script.toTemplatePosition(start);
+    const endPosition = this.script.toTemplatePosition(end);
+    if (!startPosition || !endPosition) {
+      return null;
+    }
+
+    return {
+      startLine: startPosition.line,
+      startCharacter: startPosition.character,
+      endLine: endPosition.line,
+      endCharacter: endPosition.character
+    };
+  }
+
+  /**
+   * Fold an expression built from string literals, template literals, `+` and
+   * constants declared in the template into a string
+   * @returns The folded string, or null when the value is only known at runtime
+   */
+  private evaluate(node: acorn.AnyNode | undefined, depth: number): string | null {
+    if (!node || depth > MAX_FOLD_DEPTH) {
+      return null;
+    }
+
+    switch (node.type) {
+      case 'Literal':
+        return typeof node.value === 'string' || typeof node.value === 'number' ? String(node.value) : null;
+
+      case 'TemplateLiteral': {
+        let result = '';
+        for (let i = 0; i < node.quasis.length; i++) {
+          const cooked = node.quasis[i].value.cooked;
+          if (typeof cooked !== 'string') {
+            return null;
+          }
+          result += cooked;
+
+          if (i < node.expressions.length) {
+            const value = this.evaluate(node.expressions[i], depth + 1);
+            if (value === null) {
+              return null;
+            }
+            result += value;
+          }
+        }
+        return result;
+      }
+
+      case 'BinaryExpression': {
+        if (node.operator !== '+') {
+          return null;
+        }
+        const left = this.evaluate(node.left, depth + 1);
+        const right = left === null ? null : this.evaluate(node.right, depth + 1);
+        return left === null || right === null ? null : left + right;
+      }
+
+      case 'Identifier': {
+        // Only names that are never reassigned hold their initial value
+        const binding = this.resolve(node);
+        if (!binding || !binding.init || binding.references.some(reference => reference.access === 'write')) {
+          return null;
+        }
+        return this.evaluate(binding.init, depth + 1);
+      }
+
+      default:
+        return null;
+    }
+  }
+}
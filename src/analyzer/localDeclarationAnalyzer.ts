@@ -0,0 +1,143 @@
+/**
+ * Analysis of the JSDoc comments declaring the locals of an EJS template
+ */
+
+import { LocalDeclaration, TemplateNode } from '../types';
+
+/**
+ * Tags declaring locals: `@param` and `@property` one at a time, `@locals` with an object type
+ */
+const TAG_PATTERN = /@(param|property|locals)\b/g;
+
+/**
+ * The name after the type of a `@param` tag, optionally in brackets or prefixed
+ * with `locals.`, followed by its description
+ */
+const NAME_PATTERN = /^(\s*\[?\s*(?:locals\.)?)([A-Za-z_$][\w$]*)(?:\s*=[^\]\n]*)?\]?[ \t]*(?:-[ \t]*)?([^\n]*)/;
+
+/**
+ * A member of an object type, such as `title?: string`
+ */
+const MEMBER_PATTERN = /^(\s*)([A-Za-z_$][\w$]*)\??\s*:\s*([\s\S]*?)\s*$/;
+
+/**
+ * Brackets nesting inside a type
+ */
+const OPENING_BRACKETS = '{[(<';
+const CLOSING_BRACKETS = '}])>';
+
+/**
+ * Finds the locals a template declares in its `<%# %>` comments, in the
+ * JSDoc style of a function documenting its parameters:
+ *
+ * ```
+ * <%#
+ *   @param {import('../types').User} user The signed-in user
+ *   @param {string} [title] Page title
+ *   @locals {{ items: Item[], total: number }}
+ * %>
+ * ```
+ */
+export class LocalDeclarationAnalyzer {
+  /**
+   * Find the locals declared in the comments of a template
+   * @param nodes Template AST in document order
+   * @returns Declarations in document order
+   */
+  analyze(nodes: TemplateNode[]): LocalDeclaration[] {
+    const declarations: LocalDeclaration[] = [];
+
+    for (const node of nodes) {
+      if (node.type !== 'comment') {
+        continue;
+      }
+
+      const content = node.content;
+      for (const match of content.matchAll(TAG_PATTERN)) {
+        const typeStart = content.indexOf('{', match.index!);
+        if (typeStart === -1 || content.slice(match.index! + match[0].length, typeStart).trim() !== '') {
+          continue;
+        }
+        const typeEnd = this.findClosingBracket(content, typeStart);
+        if (typeEnd === -1) {
+          continue;
+        }
+
+        if (match[1] === 'locals') {
+          declarations.push(...this.readMembers(content, typeStart + 1, typeEnd, node.contentStart));
+          continue;
+        }
+
+        const name = NAME_PATTERN.exec(content.slice(typeEnd + 1));
+        if (!name || name[2] === 'locals') {
+          continue;
+        }
+        const start = node.contentStart + typeEnd + 1 + name[1].length;
+        declarations.push({
+          name: name[2],
+          type: content.slice(typeStart + 1, typeEnd).trim(),
+          description: name[3].trim(),
+          start,
+          end: start + name[2].length
+        });
+      }
+    }
+
+    return declarations;
+  }
+
+  /**
+   * Read the members of the object type of a `@locals` tag, such as `{ items: Item[], total: number }`
+   * @param content Content of the comment
+   * @param from Offset of the type within the comment
+   * @param to Offset just past the type
+   * @param offset Offset of the comment within the template
+   */
+  private readMembers(content: string, from: number, to: number, offset: number): LocalDeclaration[] {
+    const open = content.indexOf('{', from);
+    if (open === -1 || open >= to || content.slice(from, open).trim() !== '') {
+      return [];
+    }
+    const close = this.findClosingBracket(content, open);
+
+    const declarations: LocalDeclaration[] = [];
+    let memberStart = open + 1;
+    let depth = 0;
+    for (let index = open + 1; index <= close; index++) {
+      const char = content[index];
+      if (depth === 0 && (index === close || char === ',' || char === ';' || char === '\n')) {
+        const member = MEMBER_PATTERN.exec(content.slice(memberStart, index));
+        if (member) {
+          const start = offset + memberStart + member[1].length;
+          declarations.push({ name: member[2], type: member[3], description: '', start, end: start + member[2].length });
+        }
+        memberStart = index + 1;
+      } else if (OPENING_BRACKETS.includes(char)) {
+        depth++;
+      } else if (CLOSING_BRACKETS.includes(char) && !(char === '>' && content[index - 1] === '=')) {
+        depth--;
+      }
+    }
+    return declarations;
+  }
+
+  /**
+   * Find the bracket closing the bracket at an offset
+   * @returns Offset of the closing bracket, or -1 if it is never closed
+   */
+  private findClosingBracket(content: string, open: number): number {
+    let depth = 0;
+    for (let index = open; index < content.length; index++) {
+      const char = content[index];
+      if (OPENING_BRACKETS.includes(char)) {
+        depth++;
+      } else if (CLOSING_BRACKETS.includes(char) && !(char === '>' && content[index - 1] === '=')) {
+        depth--;
+        if (depth === 0) {
+          return index;
+        }
+      }
+    }
+    return -1;
+  }
+}
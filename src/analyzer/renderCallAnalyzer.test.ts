@@ -0,0 +1,57 @@
+/**
+ * Tests for the res.render() call analyzer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RenderCallAnalyzer } from './renderCallAnalyzer';
+
+describe('RenderCallAnalyzer', () => {
+  const analyzer = new RenderCallAnalyzer();
+
+  it('should find the view names and locals of render calls', () => {
+    const code = [
+      "router.get('/channels/:id/edit', (req, res) => {",
+      "  res.render('channels/form-modal', { editing: true, BASE_URL, 'page-title': title });",
+      '});'
+    ].join('\n');
+
+    const [call] = analyzer.findRenderCalls(code, '/project/routes/channels.js');
+
+    expect(call.view).toBe('channels/form-modal');
+    expect(call.range).toEqual({ startLine: 1, startCharacter: 14, endLine: 1, endCharacter: 33 });
+    expect(call.callRange).toEqual({ startLine: 1, startCharacter: 2, endLine: 1, endCharacter: 85 });
+    expect(call.locals).toEqual([
+      { name: 'editing', value: 'true', range: { startLine: 1, startCharacter: 38, endLine: 1, endCharacter: 45 } },
+      { name: 'BASE_URL', value: 'BASE_URL', range: { startLine: 1, startCharacter: 53, endLine: 1, endCharacter: 61 } },
+      { name: 'page-title', value: 'title', range: { startLine: 1, startCharacter: 63, endLine: 1, endCharacter: 75 } }
+    ]);
+    expect(call.localsText).toBe("{ editing: true, BASE_URL, 'page-title': title }");
+  });
+
+  it('should parse TypeScript controllers', () => {
+    const code = [
+      'export async function show(req: Request, res: Response): Promise<void> {',
+      '  const user = req.user as User;',
+      '  res.render(`users/show`, locals<UserLocals>(user));',
+      '}'
+    ].join('\n');
+
+    const calls = analyzer.findRenderCalls(code, '/project/src/users.controller.ts');
+
+    expect(calls.map(call => [call.view, call.localsText])).toEqual([['users/show', 'locals<UserLocals>(user)']]);
+    expect(calls[0].locals).toEqual([]);
+  });
+
+  it('should ignore calls without a literal view name and callbacks in place of locals', () => {
+    const code = [
+      'res.render(view, {});',
+      'ReactDOM.render(app, root);',
+      "app.render('emails/welcome', (error, html) => send(html));",
+      'render(`pages/${name}`);'
+    ].join('\n');
+
+    expect(analyzer.findRenderCalls(code, '/project/mail.js').map(call => [call.view, call.localsText])).toEqual([
+      ['emails/welcome', null]
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Analysis of the `res.render()` calls of JavaScript and TypeScript files
+ */
+
+import * as ts from 'typescript';
+import { IncludeLocal, RenderCall, TextRange } from '../types';
+
+/**
+ * Script kinds by file extension; other files are parsed as JavaScript
+ */
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  '.ts': ts.ScriptKind.TS,
+  '.mts': ts.ScriptKind.TS,
+  '.cts': ts.ScriptKind.TS,
+  '.tsx': ts.ScriptKind.TSX,
+  '.jsx': ts.ScriptKind.JSX
+};
+
+/**
+ * Finds the calls rendering EJS views in controllers and routes, such as
+ * `res.render('channels/form-modal', { editing, BASE_URL })`
+ *
+ * Any `.render()` method called with a string literal view name counts, which
+ * covers `res.render()` as well as `app.render()`.
+ */
+export class RenderCallAnalyzer {
+  /**
+   * Find the render calls of a source file
+   * @param code Content of the file
+   * @param fileName Name of the file, whose extension decides whether it is parsed as TypeScript
+   * @returns Render calls in document order
+   */
+  findRenderCalls(code: string, fileName: string): RenderCall[] {
+    // Most files render nothing; skip parsing them
+    if (!code.includes('render')) {
+      return [];
+    }
+
+    const extension = /\.[^./\\]+$/.exec(fileName)?.[0].toLowerCase() ?? '';
+    const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, SCRIPT_KINDS[extension] ?? ts.ScriptKind.JS);
+
+    const calls: RenderCall[] = [];
+    const visit = (node: ts.Node): void => {
+      if (ts.isCallExpression(node)) {
+        const call = this.readRenderCall(node, sourceFile);
+        if (call) {
+          calls.push(call);
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    return calls;
+  }
+
+  /**
+   * Read a call if it renders a view
+   */
+  private readRenderCall(node: ts.CallExpression, sourceFile: ts.SourceFile): RenderCall | null {
+    const [viewArgument, localsArgument] = node.arguments;
+    if (
+      !ts.isPropertyAccessExpression(node.expression) ||
+      node.expression.name.text !== 'render' ||
+      !viewArgument ||
+      !(ts.isStringLiteral(viewArgument) || ts.isNoSubstitutionTemplateLiteral(viewArgument))
+    ) {
+      return null;
+    }
+
+    // The second argument of `app.render(view, callback)` is not the locals
+    const passesLocals = localsArgument !== undefined && !ts.isFunctionLike(localsArgument);
+    return {
+      view: viewArgument.text,
+      range: this.getRange(sourceFile, viewArgument.getStart(sourceFile) + 1, viewArgument.getEnd() - 1),
+      callRange: this.getRange(sourceFile, node.getStart(sourceFile), node.getEnd()),
+      locals: passesLocals ? this.getLocals(localsArgument, sourceFile) : [],
+      localsText: passesLocals ? localsArgument.getText(sourceFile) : null
+    };
+  }
+
+  /**
+   * Get the properties of a locals object literal
+   */
+  private getLocals(node: ts.Expression, sourceFile: ts.SourceFile): IncludeLocal[] {
+    if (!ts.isObjectLiteralExpression(node)) {
+      return [];
+    }
+
+    const locals: IncludeLocal[] = [];
+    for (const property of node.properties) {
+      if (
+        !(ts.isPropertyAssignment(property) || ts.isShorthandPropertyAssignment(property)) ||
+        !(ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))
+      ) {
+        continue;
+      }
+
+      locals.push({
+        name: property.name.text,
+        value: ts.isPropertyAssignment(property) ? property.initializer.getText(sourceFile) : property.name.text,
+        range: this.getRange(sourceFile, property.name.getStart(sourceFile), property.name.getEnd())
+      });
+    }
+    return locals;
+  }
+
+  /**
+   * Convert offsets of the file to a range
+   */
+  private getRange(sourceFile: ts.SourceFile, start: number, end: number): TextRange {
+    const startPosition = sourceFile.getLineAndCharacterOfPosition(start);
+    const endPosition = sourceFile.getLineAndCharacterOfPosition(end);
+    return {
+      startLine: startPosition.line,
+      startCharacter: startPosition.character,
+      endLine: endPosition.line,
+      endCharacter: endPosition.character
+    };
+  }
+}
@@ -0,0 +1,526 @@
+/**
+ * Scope tree construction for the JavaScript of an EJS template
+ */
+
+import * as acorn from 'acorn';
+import { DeclarationType, ReferenceAccess, SymbolKind, SymbolScope } from '../types';
+import { getChildNodes } from './astWalker';
+
+/**
+ * A lexical scope of the template script
+ */
+export interface Scope {
+  kind: SymbolScope;
+  /** Offset in the generated code where the scope starts */
+  start: number;
+  /** Offset in the generated code where the scope ends */
+  end: number;
+  parent: Scope | null;
+  children: Scope[];
+  bindings: Map<string, Binding>;
+}
+
+/**
+ * A declared name and the scope it belongs to
+ */
+export interface Binding {
+  name: string;
+  kind: SymbolKind;
+  declarationType: DeclarationType;
+  scope: Scope;
+  /** Offset in the generated code of the declaring identifier */
+  start: number;
+  /** Offset in the generated code just past the declaring identifier */
+  end: number;
+  /** Source text of the initializer for simple declarations */
+  value?: string;
+  /** Initializer node for simple declarations */
+  init?: acorn.Expression;
+  /** False for let, const and class bindings, which cannot be used before their declaration */
+  hoisted: boolean;
+  /** Reads and writes of the binding, excluding its declaration */
+  references: Reference[];
+  /** True when declared by a shorthand property such as `const { name } = user` */
+  shorthand?: boolean;
+}
+
+/**
+ * A use of a name in an expression
+ */
+export interface Reference {
+  name: string;
+  /** Offset in the generated code of the identifier */
+  start: number;
+  /** Offset in the generated code just past the identifier */
+  end: number;
+  access: ReferenceAccess;
+  /** Scope the reference occurs in */
+  scope: Scope;
+  /** Binding the name resolves to, or null for names not declared in the template */
+  binding: Binding | null;
+  /** True when the identifier is also the key of a shorthand property such as `{ name }` */
+  shorthand?: boolean;
+}
+
+/**
+ * Name acorn-loose gives to identifiers it inserts while recovering from errors
+ */
+const DUMMY_NAME = '✖';
+
+/**
+ * Builds the scope tree of a program, modelling the template as the body of
+ * the single function EJS compiles it into
+ */
+export class ScopeBuilder {
+  private source = '';
+  private current!: Scope;
+  private bindings: Binding[] = [];
+  private references: Reference[] = [];
+
+  /**
+   * Build the scope tree for a parsed template script
+   * @param program The program AST
+   * @param source The generated source the AST was parsed from
+   * @returns The template's top-level scope, every binding and every reference in source order
+   */
+  build(program: acorn.Program, source: string): { root: Scope; bindings: Binding[]; references: Reference[] } {
+    this.source = source;
+    this.bindings = [];
+    this.references = [];
+
+    const root = this.createScope('global', program, null);
+    this.current = root;
+    this.visitAll(program.body);
+
+    // Resolve references once every declaration is known, so hoisted names are found
+    for (const reference of this.references) {
+      reference.binding = this.resolve(reference.scope, reference.name);
+      reference.binding?.references.push(reference);
+    }
+
+    this.bindings.sort((a, b) => a.start - b.start);
+    this.references.sort((a, b) => a.start - b.start);
+    for (const binding of this.bindings) {
+      binding.references.sort((a, b) => a.start - b.start);
+    }
+    return { root, bindings: this.bindings, references: this.references };
+  }
+
+  /**
+   * Visit a node and its children, opening scopes and recording declarations
+   */
+  private visit(node: acorn.AnyNode | null | undefined): void {
+    if (!node || typeof node.type !== 'string') {
+      return;
+    }
+
+    switch (node.type) {
+      case 'VariableDeclaration':
+        this.visitVariableDeclaration(node);
+        return;
+
+      case 'FunctionDeclaration':
+        if (node.id) {
+          this.declare(node.id, 'function', SymbolKind.Function, this.current, true);
+        }
+        this.visitFunction(node);
+        return;
+
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+        this.visitFunction(node);
+        return;
+
+      case 'ClassDeclaration':
+        if (node.id) {
+          this.declare(node.id, 'class', SymbolKind.Class, this.current, false);
+        }
+        this.visitClass(node);
+        return;
+
+      case 'ClassExpression':
+        this.withScope('block', node, () => {
+          if (node.id) {
+            this.declare(node.id, 'class', SymbolKind.Class, this.current, false);
+          }
+          this.visitClass(node);
+        });
+        return;
+
+      case 'BlockStatement':
+      case 'StaticBlock':
+        this.withScope('block', node, () => this.visitAll(node.body));
+        return;
+
+      case 'ForStatement':
+        // Loop heads get their own scope so `for (let i = 0; ...)` is local to the loop
+        this.withScope('block', node, () => this.visitChildren(node));
+        return;
+
+      case 'ForInStatement':
+      case 'ForOfStatement':
+        this.withScope('block', node, () => {
+          if (node.left.type === 'VariableDeclaration') {
+            this.visit(node.left);
+          } else {
+            this.visitAssignmentTarget(node.left);
+          }
+          this.visit(node.right);
+          this.visit(node.body);
+        });
+        return;
+
+      case 'AssignmentExpression':
+        this.visitAssignmentTarget(node.left);
+        this.visit(node.right);
+        return;
+
+      case 'UpdateExpression':
+        this.visitAssignmentTarget(node.argument);
+        return;
+
+      case 'SwitchStatement':
+        this.visit(node.discriminant);
+        this.withScope('block', node, () => this.visitAll(node.cases));
+        return;
+
+      case 'CatchClause':
+        this.withScope('block', node, () => {
+          if (node.param) {
+            this.declarePattern(node.param, 'catch', SymbolKind.Variable, this.current, true);
+          }
+          this.visit(node.body);
+        });
+        return;
+
+      case 'MemberExpression':
+        this.visit(node.object);
+        if (node.computed) {
+          this.visit(node.property);
+        }
+        return;
+
+      case 'Property':
+        if (node.shorthand && node.value.type === 'Identifier') {
+          this.addReference(node.value, 'read', true);
+          return;
+        }
+        if (node.computed) {
+          this.visit(node.key);
+        }
+        this.visit(node.value);
+        return;
+
+      case 'MethodDefinition':
+      case 'PropertyDefinition':
+        if (node.computed) {
+          this.visit(node.key);
+        }
+        this.visit(node.value);
+        return;
+
+      case 'LabeledStatement':
+        this.visit(node.body);
+        return;
+
+      case 'BreakStatement':
+      case 'ContinueStatement':
+      case 'MetaProperty':
+        return;
+
+      case 'Identifier':
+        this.addReference(node, 'read');
+        return;
+
+      default:
+        this.visitChildren(node);
+    }
+  }
+
+  /**
+   * Visit every node in a list
+   */
+  private visitAll(nodes: acorn.AnyNode[]): void {
+    for (const node of nodes) {
+      this.visit(node);
+    }
+  }
+
+  /**
+   * Visit every child node of a node
+   */
+  private visitChildren(node: acorn.AnyNode): void {
+    this.visitAll(getChildNodes(node));
+  }
+
+  /**
+   * Record the bindings of a var, let or const declaration and visit its initializers
+   */
+  private visitVariableDeclaration(node: acorn.VariableDeclaration): void {
+    const declarationType: DeclarationType = node.kind === 'const' ? 'const' : node.kind === 'var' ? 'var' : 'let';
+    const kind = declarationType === 'const' ? SymbolKind.Constant : SymbolKind.Variable;
+    // var is hoisted to the enclosing function; let and const stay in the block
+    const hoisted = declarationType === 'var';
+    const target = hoisted ? this.getFunctionScope() : this.current;
+
+    for (const declarator of node.declarations) {
+      if (declarator.id.type === 'Identifier') {
+        this.declare(declarator.id, declarationType, kind, target, hoisted, declarator.init);
+      } else {
+        this.declarePattern(declarator.id, 'destructured', kind, target, hoisted);
+      }
+      this.visit(declarator.init);
+    }
+  }
+
+  /**
+   * Open a function scope, declare its name and parameters and visit its body
+   */
+  private visitFunction(node: acorn.Function): void {
+    this.withScope('function', node, () => {
+      // A function expression's own name is only visible inside it
+      if (node.type === 'FunctionExpression' && node.id) {
+        this.declare(node.id, 'function', SymbolKind.Function, this.current, true);
+      }
+
+      for (const param of node.params) {
+        this.declarePattern(param, 'parameter', SymbolKind.Parameter, this.current, true);
+      }
+
+      // The body block shares the function scope
+      if (node.body.type === 'BlockStatement') {
+        this.visitAll(node.body.body);
+      } else {
+        this.visit(node.body);
+      }
+    });
+  }
+
+  /**
+   * Visit the heritage and members of a class
+   */
+  private visitClass(node: acorn.Class): void {
+    this.visit(node.superClass);
+    this.visitAll(node.body.body);
+  }
+
+  /**
+   * Visit the target of an assignment, recording the names it writes
+   */
+  private visitAssignmentTarget(target: acorn.Pattern | acorn.Expression | null, shorthand = false): void {
+    if (!target) {
+      return;
+    }
+
+    switch (target.type) {
+      case 'Identifier':
+        this.addReference(target, 'write', shorthand);
+        return;
+
+      case 'ObjectPattern':
+        for (const property of target.properties) {
+          if (property.type === 'RestElement') {
+            this.visitAssignmentTarget(property.argument);
+            continue;
+          }
+          if (property.computed) {
+            this.visit(property.key);
+          }
+          this.visitAssignmentTarget(property.value, property.shorthand);
+        }
+        return;
+
+      case 'ArrayPattern':
+        for (const element of target.elements) {
+          this.visitAssignmentTarget(element);
+        }
+        return;
+
+      case 'AssignmentPattern':
+        this.visitAssignmentTarget(target.left, shorthand);
+        this.visit(target.right);
+        return;
+
+      case 'RestElement':
+        this.visitAssignmentTarget(target.argument);
+        return;
+
+      default:
+        // Member expressions and invalid targets only read names
+        this.visit(target);
+    }
+  }
+
+  /**
+   * Declare every identifier bound by a pattern and visit its default values
+   */
+  private declarePattern(
+    pattern: acorn.Pattern | null,
+    declarationType: DeclarationType,
+    kind: SymbolKind,
+    target: Scope,
+    hoisted: boolean,
+    shorthand = false
+  ): void {
+    if (!pattern) {
+      return;
+    }
+
+    switch (pattern.type) {
+      case 'Identifier':
+        this.declare(pattern, declarationType, kind, target, hoisted, undefined, shorthand);
+        return;
+
+      case 'ObjectPattern':
+        for (const property of pattern.properties) {
+          if (property.type === 'RestElement') {
+            this.declarePattern(property.argument, declarationType, kind, target, hoisted);
+            continue;
+          }
+          if (property.computed) {
+            this.visit(property.key);
+          }
+          // For `{ a: b }` the binding is the value `b`, not the key `a`
+          this.declarePattern(property.value, declarationType, kind, target, hoisted, property.shorthand);
+        }
+        return;
+
+      case 'ArrayPattern':
+        for (const element of pattern.elements) {
+          this.declarePattern(element, declarationType, kind, target, hoisted);
+        }
+        return;
+
+      case 'AssignmentPattern':
+        this.declarePattern(pattern.left, declarationType, kind, target, hoisted, shorthand);
+        this.visit(pattern.right);
+        return;
+
+      case 'RestElement':
+        this.declarePattern(pattern.argument, declarationType, kind, target, hoisted);
+        return;
+    }
+  }
+
+  /**
+   * Add a binding for an identifier to a scope
+   */
+  private declare(
+    identifier: acorn.Identifier,
+    declarationType: DeclarationType,
+    kind: SymbolKind,
+    target: Scope,
+    hoisted: boolean,
+    init?: acorn.Expression | null,
+    shorthand = false
+  ): void {
+    const name: string = identifier.name;
+    if (!name || name === DUMMY_NAME || identifier.end <= identifier.start) {
+      return;
+    }
+
+    // Keep the first declaration of a name in a scope; a redeclaration writes to it
+    if (target.bindings.has(name)) {
+      this.references.push({
+        name,
+        start: identifier.start,
+        end: identifier.end,
+        access: 'write',
+        scope: target,
+        binding: null,
+        shorthand
+      });
+      return;
+    }
+
+    const binding: Binding = {
+      name,
+      kind,
+      declarationType,
+      scope: target,
+      start: identifier.start,
+      end: identifier.end,
+      value: init ? this.source.slice(init.start, init.end) : undefined,
+      init: init ?? undefined,
+      hoisted,
+      references: [],
+      shorthand
+    };
+    target.bindings.set(name, binding);
+    this.bindings.push(binding);
+  }
+
+  /**
+   * Record a use of an identifier in the current scope
+   */
+  private addReference(identifier: acorn.Identifier, access: ReferenceAccess, shorthand = false): void {
+    const name: string = identifier.name;
+    if (!name || name === DUMMY_NAME || identifier.end <= identifier.start) {
+      return;
+    }
+
+    this.references.push({
+      name,
+      start: identifier.start,
+      end: identifier.end,
+      access,
+      scope: this.current,
+      binding: null,
+      shorthand
+    });
+  }
+
+  /**
+   * Find the binding a name resolves to from a scope
+   */
+  private resolve(scope: Scope | null, name: string): Binding | null {
+    while (scope) {
+      const binding = scope.bindings.get(name);
+      if (binding) {
+        return binding;
+      }
+      scope = scope.parent;
+    }
+    return null;
+  }
+
+  /**
+   * Run a callback with a new scope as the current scope
+   */
+  private withScope(kind: SymbolScope, node: acorn.Node, callback: () => void): void {
+    const parent = this.current;
+    this.current = this.createScope(kind, node, parent);
+    try {
+      callback();
+    } finally {
+      this.current = parent;
+    }
+  }
+
+  /**
+   * Create a scope for a node and attach it to its parent
+   */
+  private createScope(kind: SymbolScope, node: acorn.Node, parent: Scope | null): Scope {
+    const scope: Scope = {
+      kind,
+      start: node.start,
+      end: node.end,
+      parent,
+      children: [],
+      bindings: new Map()
+    };
+    parent?.children.push(scope);
+    return scope;
+  }
+
+  /**
+   * Get the nearest enclosing function scope, or the template scope
+   */
+  private getFunctionScope(): Scope {
+    let scope = this.current;
+    while (scope.kind === 'block' && scope.parent) {
+      scope = scope.parent;
+    }
+    return scope;
+  }
+}
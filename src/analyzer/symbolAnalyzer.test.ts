@@ -3,6 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
+import * as vscode from 'vscode';
 import { SymbolAnalyzer } from './symbolAnalyzer';
 import { JavaScriptBlock, SymbolKind } from '../types';
 
@@ -62,9 +63,11 @@ describe('SymbolAnalyzer', () => {
 
       const symbols = analyzer.analyzeSymbols(blocks);
       
-      expect(symbols).toHaveLength(1); // Current implementation handles one per match
+      expect(symbols).toHaveLength(2);
       expect(symbols[0].name).toBe('a');
       expect(symbols[0].value).toBe('1');
+      expect(symbols[1].name).toBe('b');
+      expect(symbols[1].value).toBe('2');
     });
   });
 
@@ -125,6 +128,23 @@ describe('SymbolAnalyzer', () => {
       expect(symbols[0].kind).toBe(SymbolKind.Variable);
       expect(symbols[0].value).toBe('true');
     });
+
+    it('should treat a redeclared var as a write to its first declaration', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: 'var count = 1; var count = 2;',
+        startLine: 0,
+        endLine: 0,
+        startCharacter: 0,
+        endCharacter: 29,
+        tagType: 'scriptlet'
+      }];
+
+      const symbols = analyzer.analyzeSymbols(blocks);
+
+      expect(symbols).toHaveLength(1);
+      expect(symbols[0].value).toBe('1');
+      expect(analyzer.findDefinition('count', new vscode.Position(0, 20))).toBe(symbols[0]);
+    });
   });
 
   describe('function parameter recognition', () => {
@@ -140,11 +160,13 @@ describe('SymbolAnalyzer', () => {
 
       const symbols = analyzer.analyzeSymbols(blocks);
       
-      expect(symbols).toHaveLength(2);
-      expect(symbols[0].name).toBe('data');
-      expect(symbols[0].kind).toBe(SymbolKind.Parameter);
-      expect(symbols[1].name).toBe('options');
+      expect(symbols).toHaveLength(3);
+      expect(symbols[0].name).toBe('process');
+      expect(symbols[0].kind).toBe(SymbolKind.Function);
+      expect(symbols[1].name).toBe('data');
       expect(symbols[1].kind).toBe(SymbolKind.Parameter);
+      expect(symbols[2].name).toBe('options');
+      expect(symbols[2].kind).toBe(SymbolKind.Parameter);
     });
 
     it('should detect arrow function parameters with parentheses', () => {
@@ -195,9 +217,10 @@ describe('SymbolAnalyzer', () => {
 
       const symbols = analyzer.analyzeSymbols(blocks);
       
-      expect(symbols).toHaveLength(1);
-      expect(symbols[0].name).toBe('name');
-      expect(symbols[0].kind).toBe(SymbolKind.Parameter);
+      expect(symbols).toHaveLength(2);
+      expect(symbols[0].name).toBe('greet');
+      expect(symbols[1].name).toBe('name');
+      expect(symbols[1].kind).toBe(SymbolKind.Parameter);
     });
   });
 
@@ -269,11 +292,238 @@ describe('SymbolAnalyzer', () => {
 
       const symbols = analyzer.analyzeSymbols(blocks);
       
-      expect(symbols).toHaveLength(2);
-      expect(symbols[0].name).toBe('data');
-      expect(symbols[0].kind).toBe(SymbolKind.Parameter);
-      expect(symbols[1].name).toBe('meta');
+      expect(symbols).toHaveLength(3);
+      expect(symbols[1].name).toBe('data');
       expect(symbols[1].kind).toBe(SymbolKind.Parameter);
+      expect(symbols[2].name).toBe('meta');
+      expect(symbols[2].kind).toBe(SymbolKind.Parameter);
+    });
+  });
+
+  describe('parser-backed declarations', () => {
+    it('should detect declarations spanning multiple lines', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: 'const total =\n  price *\n  quantity;',
+        startLine: 2,
+        endLine: 4,
+        startCharacter: 2,
+        endCharacter: 11,
+        tagType: 'scriptlet'
+      }];
+
+      const symbols = analyzer.analyzeSymbols(blocks);
+
+      expect(symbols).toHaveLength(1);
+      expect(symbols[0]).toMatchObject({
+        name: 'total',
+        value: 'price *\n  quantity',
+        declarationType: 'const',
+        scope: 'global'
+      });
+      expect(symbols[0].location).toEqual({ line: 2, character: 8, length: 5 });
+    });
+
+    it('should detect declarations split across tags', () => {
+      const blocks: JavaScriptBlock[] = [
+        { content: 'users.forEach(function (user) {', startLine: 0, endLine: 0, startCharacter: 3, endCharacter: 34, tagType: 'scriptlet' },
+        { content: 'user.name', startLine: 1, endLine: 1, startCharacter: 8, endCharacter: 17, tagType: 'output' },
+        { content: '})', startLine: 2, endLine: 2, startCharacter: 3, endCharacter: 5, tagType: 'scriptlet' }
+      ];
+
+      const symbols = analyzer.analyzeSymbols(blocks);
+
+      expect(symbols).toHaveLength(1);
+      expect(symbols[0]).toMatchObject({ name: 'user', declarationType: 'parameter', scope: 'function' });
+      expect(symbols[0].location).toEqual({ line: 0, character: 27, length: 4 });
+    });
+
+    it('should scope for-of loop variables to the loop', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: 'for (const item of items) {',
+        startLine: 0,
+        endLine: 0,
+        startCharacter: 0,
+        endCharacter: 27,
+        tagType: 'scriptlet'
+      }, {
+        content: '}',
+        startLine: 2,
+        endLine: 2,
+        startCharacter: 0,
+        endCharacter: 1,
+        tagType: 'scriptlet'
+      }];
+
+      const symbols = analyzer.analyzeSymbols(blocks);
+
+      expect(symbols).toHaveLength(1);
+      expect(symbols[0]).toMatchObject({ name: 'item', kind: SymbolKind.Constant, declarationType: 'const', scope: 'block' });
+    });
+
+    it('should detect catch parameters', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: 'try { render(); } catch (err) { log(err); }',
+        startLine: 0,
+        endLine: 0,
+        startCharacter: 0,
+        endCharacter: 43,
+        tagType: 'scriptlet'
+      }];
+
+      const symbols = analyzer.analyzeSymbols(blocks);
+
+      expect(symbols).toHaveLength(1);
+      expect(symbols[0]).toMatchObject({ name: 'err', declarationType: 'catch', scope: 'block' });
+    });
+
+    it('should detect function and class declarations', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: 'function format(value) { return value; } class Card {}',
+        startLine: 0,
+        endLine: 0,
+        startCharacter: 0,
+        endCharacter: 54,
+        tagType: 'scriptlet'
+      }];
+
+      const symbols = analyzer.analyzeSymbols(blocks);
+
+      expect(symbols.map(s => [s.name, s.kind, s.declarationType])).toEqual([
+        ['format', SymbolKind.Function, 'function'],
+        ['value', SymbolKind.Parameter, 'parameter'],
+        ['Card', SymbolKind.Class, 'class']
+      ]);
+    });
+
+    it('should record the local name of renamed destructuring', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: 'const { a: b, c: { d: e = 1 } } = obj',
+        startLine: 0,
+        endLine: 0,
+        startCharacter: 0,
+        endCharacter: 37,
+        tagType: 'scriptlet'
+      }];
+
+      const symbols = analyzer.analyzeSymbols(blocks);
+
+      expect(symbols.map(s => s.name)).toEqual(['b', 'e']);
+      expect(symbols[0].location.character).toBe(11);
+      expect(symbols[0].declarationType).toBe('destructured');
+    });
+
+    it('should hoist var declarations to the template scope', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: 'if (show) { var shown = true; let local = 1; }',
+        startLine: 0,
+        endLine: 0,
+        startCharacter: 0,
+        endCharacter: 46,
+        tagType: 'scriptlet'
+      }];
+
+      const symbols = analyzer.analyzeSymbols(blocks);
+
+      expect(symbols.map(s => [s.name, s.scope])).toEqual([
+        ['shown', 'global'],
+        ['local', 'block']
+      ]);
+    });
+
+    it('should ignore identifiers in output tags that are not declarations', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: 'user.name;',
+        startLine: 0,
+        endLine: 0,
+        startCharacter: 3,
+        endCharacter: 13,
+        tagType: 'output'
+      }];
+
+      expect(analyzer.analyzeSymbols(blocks)).toHaveLength(0);
+    });
+
+    it('should recover declarations from code with syntax errors', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: 'const ready = true;\nif (ready {',
+        startLine: 0,
+        endLine: 1,
+        startCharacter: 2,
+        endCharacter: 11,
+        tagType: 'scriptlet'
+      }];
+
+      const symbols = analyzer.analyzeSymbols(blocks);
+
+      expect(symbols.map(s => s.name)).toContain('ready');
+    });
+  });
+
+  describe('references', () => {
+    it('should collect reads and writes across tags', () => {
+      const blocks: JavaScriptBlock[] = [
+        { content: 'let total = 0;', startLine: 0, endLine: 0, startCharacter: 2, endCharacter: 16, tagType: 'scriptlet' },
+        { content: 'items.forEach(item => { total += item.price; });', startLine: 1, endLine: 1, startCharacter: 2, endCharacter: 50, tagType: 'scriptlet' },
+        { content: 'total', startLine: 2, endLine: 2, startCharacter: 7, endCharacter: 12, tagType: 'output' },
+        { content: 'total++', startLine: 3, endLine: 3, startCharacter: 3, endCharacter: 10, tagType: 'scriptlet' }
+      ];
+
+      const [total] = analyzer.analyzeSymbols(blocks);
+
+      expect(total.references).toEqual([
+        { line: 0, character: 6, length: 5, access: 'write' },
+        { line: 1, character: 26, length: 5, access: 'write' },
+        { line: 2, character: 7, length: 5, access: 'read' },
+        { line: 3, character: 3, length: 5, access: 'write' }
+      ]);
+    });
+
+    it('should not count property names as references', () => {
+      const blocks: JavaScriptBlock[] = [
+        { content: 'const name = user.name;', startLine: 0, endLine: 0, startCharacter: 2, endCharacter: 25, tagType: 'scriptlet' },
+        { content: '{ name: name }.name', startLine: 1, endLine: 1, startCharacter: 4, endCharacter: 23, tagType: 'output' }
+      ];
+
+      const [name] = analyzer.analyzeSymbols(blocks);
+
+      expect(name.references.map(reference => [reference.line, reference.character])).toEqual([
+        [0, 8],
+        [1, 12]
+      ]);
+      expect(analyzer.findDefinition('name', { line: 0, character: 20 } as any)).toBeNull();
+    });
+
+    it('should record destructuring assignments as writes', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: 'let a, b; [a, b] = [b, a];',
+        startLine: 0,
+        endLine: 0,
+        startCharacter: 0,
+        endCharacter: 26,
+        tagType: 'scriptlet'
+      }];
+
+      const [a] = analyzer.analyzeSymbols(blocks);
+
+      expect(a.references.map(reference => reference.access)).toEqual(['write', 'write', 'read']);
+    });
+
+    it('should attach uses to the binding they resolve to', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: 'const x = 1; function f(x) { return x; } x;',
+        startLine: 0,
+        endLine: 0,
+        startCharacter: 0,
+        endCharacter: 43,
+        tagType: 'scriptlet'
+      }];
+
+      const symbols = analyzer.analyzeSymbols(blocks);
+      const outer = symbols.find(s => s.declarationType === 'const')!;
+      const param = symbols.find(s => s.declarationType === 'parameter')!;
+
+      expect(outer.references.map(reference => reference.character)).toEqual([6, 41]);
+      expect(param.references.map(reference => reference.character)).toEqual([24, 36]);
     });
   });
 
@@ -338,6 +588,278 @@ describe('SymbolAnalyzer', () => {
       expect(definition).not.toBeNull();
       expect(definition!.location.line).toBe(0); // First definition
     });
+
+    it('should resolve to the innermost declaration visible at the position', () => {
+      const blocks: JavaScriptBlock[] = [
+        { content: 'const item = featured;', startLine: 0, endLine: 0, startCharacter: 2, endCharacter: 24, tagType: 'scriptlet' },
+        { content: 'items.forEach((item) => {', startLine: 1, endLine: 1, startCharacter: 2, endCharacter: 27, tagType: 'scriptlet' },
+        { content: 'item.name', startLine: 2, endLine: 2, startCharacter: 7, endCharacter: 16, tagType: 'output' },
+        { content: '})', startLine: 3, endLine: 3, startCharacter: 2, endCharacter: 4, tagType: 'scriptlet' },
+        { content: 'item.title', startLine: 4, endLine: 4, startCharacter: 4, endCharacter: 14, tagType: 'output' }
+      ];
+
+      analyzer.analyzeSymbols(blocks);
+
+      const inner = analyzer.findDefinition('item', { line: 2, character: 7 } as any);
+      expect(inner!.location).toEqual({ line: 1, character: 17, length: 4 });
+      expect(inner!.kind).toBe(SymbolKind.Parameter);
+
+      const outer = analyzer.findDefinition('item', { line: 4, character: 4 } as any);
+      expect(outer!.location).toEqual({ line: 0, character: 8, length: 4 });
+    });
+
+    it('should resolve block-scoped declarations only inside their block', () => {
+      const blocks: JavaScriptBlock[] = [
+        { content: 'if (user) { let label = user.name;', startLine: 0, endLine: 0, startCharacter: 2, endCharacter: 36, tagType: 'scriptlet' },
+        { content: 'label', startLine: 1, endLine: 1, startCharacter: 6, endCharacter: 11, tagType: 'output' },
+        { content: '}', startLine: 2, endLine: 2, startCharacter: 2, endCharacter: 3, tagType: 'scriptlet' },
+        { content: 'label', startLine: 3, endLine: 3, startCharacter: 4, endCharacter: 9, tagType: 'output' }
+      ];
+
+      analyzer.analyzeSymbols(blocks);
+
+      expect(analyzer.findDefinition('label', { line: 1, character: 6 } as any)).not.toBeNull();
+      expect(analyzer.findDefinition('label', { line: 3, character: 4 } as any)).toBeNull();
+    });
+
+    it('should return null for let and const used before their declaration', () => {
+      const blocks: JavaScriptBlock[] = [
+        { content: 'total', startLine: 0, endLine: 0, startCharacter: 4, endCharacter: 9, tagType: 'output' },
+        { content: 'const total = 10; var count = 1;', startLine: 1, endLine: 1, startCharacter: 2, endCharacter: 34, tagType: 'scriptlet' },
+        { content: 'count', startLine: 2, endLine: 2, startCharacter: 4, endCharacter: 9, tagType: 'output' }
+      ];
+
+      analyzer.analyzeSymbols(blocks);
+
+      expect(analyzer.findDefinition('total', { line: 0, character: 4 } as any)).toBeNull();
+      expect(analyzer.findDefinition('count', { line: 2, character: 4 } as any)).not.toBeNull();
+      expect(analyzer.findDefinition('total', { line: 1, character: 8 } as any)!.name).toBe('total');
+    });
+
+    it('should resolve hoisted and closure uses before the declaration', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: 'function show() { return title; }\nformat(count);\nvar count = 1;\nconst title = "Home";\nfunction format(n) { return n; }',
+        startLine: 0,
+        endLine: 4,
+        startCharacter: 2,
+        endCharacter: 32,
+        tagType: 'scriptlet'
+      }];
+
+      analyzer.analyzeSymbols(blocks);
+
+      expect(analyzer.findDefinition('title', { line: 0, character: 27 } as any)!.location.line).toBe(3);
+      expect(analyzer.findDefinition('format', { line: 1, character: 0 } as any)!.location.line).toBe(4);
+      expect(analyzer.findDefinition('count', { line: 1, character: 7 } as any)!.location.line).toBe(2);
+    });
+
+    it('should reuse the analysis for the same blocks array', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: 'const a = 1',
+        startLine: 0,
+        endLine: 0,
+        startCharacter: 0,
+        endCharacter: 11,
+        tagType: 'scriptlet'
+      }];
+
+      const first = analyzer.analyzeSymbols(blocks);
+      expect(analyzer.analyzeSymbols(blocks)).toBe(first);
+      expect(analyzer.analyzeSymbols([...blocks])).not.toBe(first);
+    });
+  });
+
+  describe('findIncludes', () => {
+    it('should fold constant prefixes into include paths', () => {
+      const blocks: JavaScriptBlock[] = [
+        { content: " const _viewsPath = '../..'; ", startLine: 0, endLine: 0, startCharacter: 2, endCharacter: 31, tagType: 'scriptlet' },
+        { content: " include(`${_viewsPath}/components/input.ejs`, { label: 'Name', required: true }) ", startLine: 1, endLine: 1, startCharacter: 3, endCharacter: 85, tagType: 'unescaped' }
+      ];
+
+      const [include] = analyzer.findIncludes(blocks);
+
+      expect(include.path).toBe('../../components/input.ejs');
+      expect(include.expression).toBe('`${_viewsPath}/components/input.ejs`');
+      expect(include.locals).toEqual([
+        { name: 'label', value: "'Name'", range: { startLine: 1, startCharacter: 52, endLine: 1, endCharacter: 57 } },
+        { name: 'required', value: 'true', range: { startLine: 1, startCharacter: 67, endLine: 1, endCharacter: 75 } }
+      ]);
+      expect(include.range).toEqual({ startLine: 1, startCharacter: 13, endLine: 1, endCharacter: 47 });
+      expect(include.callRange).toEqual({ startLine: 1, startCharacter: 4, endLine: 1, endCharacter: 84 });
+    });
+
+    it('should leave paths depending on runtime values unresolved', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: "let dir = 'a'; dir = 'b'; include(dir + '/x'); include(partial + '.ejs'); include('plain')",
+        startLine: 0,
+        endLine: 0,
+        startCharacter: 0,
+        endCharacter: 89,
+        tagType: 'scriptlet'
+      }];
+
+      expect(analyzer.findIncludes(blocks).map(include => include.path)).toEqual([null, null, 'plain']);
+    });
+
+    it('should ignore functions named include declared in the template', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: "const include = name => name; include('header')",
+        startLine: 0,
+        endLine: 0,
+        startCharacter: 0,
+        endCharacter: 47,
+        tagType: 'scriptlet'
+      }];
+
+      expect(analyzer.findIncludes(blocks)).toEqual([]);
+    });
+
+    it('should mark locals whose keys are only known at render time', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: "include('a'); include('b', { title }); include('c', options); include('d', { ...options, title }); include('e', { [key]: 1 })",
+        startLine: 0,
+        endLine: 0,
+        startCharacter: 0,
+        endCharacter: 121,
+        tagType: 'scriptlet'
+      }];
+
+      expect(analyzer.findIncludes(blocks).map(include => include.dynamicLocals)).toEqual([false, false, true, true, true]);
+      expect(analyzer.findIncludes(blocks)[3].locals.map(local => local.name)).toEqual(['title']);
+    });
+  });
+
+  describe('findFreeVariables', () => {
+    it('should list names used without a declaration', () => {
+      const blocks: JavaScriptBlock[] = [
+        { content: " const id = 'field-' + name; ", startLine: 0, endLine: 0, startCharacter: 2, endCharacter: 31, tagType: 'scriptlet' },
+        { content: ' label ', startLine: 1, endLine: 1, startCharacter: 10, endCharacter: 17, tagType: 'output' },
+        { content: " if (required) { label += ' *'; } ", startLine: 2, endLine: 2, startCharacter: 2, endCharacter: 36, tagType: 'scriptlet' }
+      ];
+
+      const variables = analyzer.findFreeVariables(blocks);
+
+      expect(variables.map(variable => variable.name)).toEqual(['name', 'label', 'required']);
+      expect(variables[1].references).toEqual([
+        { line: 1, character: 11, length: 5, access: 'read' },
+        { line: 2, character: 19, length: 5, access: 'write' }
+      ]);
+    });
+
+    it('should leave out globals and names defined by EJS', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: "console.log(JSON.stringify(locals)); include('footer', { year: Math.max(year, 2020) })",
+        startLine: 0,
+        endLine: 0,
+        startCharacter: 0,
+        endCharacter: 86,
+        tagType: 'scriptlet'
+      }];
+
+      expect(analyzer.findFreeVariables(blocks).map(variable => variable.name)).toEqual(['year']);
+    });
+
+    it('should mark uses guarded by a typeof check', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: "typeof user !== 'undefined' && user.name; user.id",
+        startLine: 0,
+        endLine: 0,
+        startCharacter: 0,
+        endCharacter: 49,
+        tagType: 'scriptlet'
+      }];
+
+      const [user] = analyzer.findFreeVariables(blocks);
+
+      expect(user.references.map(reference => reference.guarded ?? false)).toEqual([true, true, false]);
+    });
+  });
+
+  describe('findUnusedDeclarations', () => {
+    it('should list variables without reads, with the statements removable along with them', () => {
+      const blocks: JavaScriptBlock[] = [{
+        content: 'const a = 1; let b = 2; b = 3; for (const c of list) {} const d = a;',
+        startLine: 0,
+        endLine: 0,
+        startCharacter: 3,
+        endCharacter: 72,
+        tagType: 'scriptlet'
+      }];
+
+      expect(analyzer.findUnusedDeclarations(blocks)).toEqual([
+        { name: 'b', range: { startLine: 0, startCharacter: 20, endLine: 0, endCharacter: 21 }, statementRange: null },
+        { name: 'c', range: { startLine: 0, startCharacter: 45, endLine: 0, endCharacter: 46 }, statementRange: null },
+        {
+          name: 'd',
+          range: { startLine: 0, startCharacter: 65, endLine: 0, endCharacter: 66 },
+          statementRange: { startLine: 0, startCharacter: 59, endLine: 0, endCharacter: 71 }
+        }
+      ]);
+    });
+  });
+
+  describe('findTaintFlows', () => {
+    const blocks: JavaScriptBlock[] = [
+      {
+        content: "const { name } = user; const label = 'Hi ' + name; const safe = encodeURIComponent(query.q); const id = query.id;",
+        startLine: 0,
+        endLine: 0,
+        startCharacter: 3,
+        endCharacter: 116,
+        tagType: 'scriptlet'
+      },
+      { content: 'label', startLine: 1, endLine: 1, startCharacter: 4, endCharacter: 9, tagType: 'unescaped' },
+      { content: 'safe', startLine: 2, endLine: 2, startCharacter: 4, endCharacter: 8, tagType: 'output' },
+      { content: "id > 3 ? 'many' : id", startLine: 3, endLine: 3, startCharacter: 4, endCharacter: 24, tagType: 'output' }
+    ];
+
+    it('should follow untrusted values through constants into output tags', () => {
+      const flows = analyzer.findTaintFlows(blocks, ['query', 'user.*'], ['encodeURIComponent']);
+
+      expect(flows).toHaveLength(2);
+      expect(flows[0].block).toBe(blocks[1]);
+      expect(flows[0].range).toEqual({ startLine: 1, startCharacter: 4, endLine: 1, endCharacter: 9 });
+      expect(flows[0].steps).toEqual([
+        { kind: 'source', name: 'user.name', range: { startLine: 0, startCharacter: 20, endLine: 0, endCharacter: 24 } },
+        { kind: 'assignment', name: 'name', range: { startLine: 0, startCharacter: 11, endLine: 0, endCharacter: 15 } },
+        { kind: 'assignment', name: 'label', range: { startLine: 0, startCharacter: 32, endLine: 0, endCharacter: 37 } }
+      ]);
+      expect(flows[1].block).toBe(blocks[3]);
+      expect(flows[1].steps.map(step => step.name)).toEqual(['query.id', 'id']);
+    });
+
+    it('should not taint a local matched only by its properties', () => {
+      expect(analyzer.findTaintFlows([{ content: 'user', startLine: 0, endLine: 0, startCharacter: 4, endCharacter: 8, tagType: 'unescaped' }], ['user.*'], [])).toEqual([]);
+    });
+  });
+
+  describe('findVisibleSymbols', () => {
+    const blocks: JavaScriptBlock[] = [{
+      content: 'const user = 1; users.forEach(function (user, index) { let row = user; }); const footer = 2; function format(v) {}',
+      startLine: 0,
+      endLine: 0,
+      startCharacter: 0,
+      endCharacter: 114,
+      tagType: 'scriptlet'
+    }];
+
+    it('should list the names declared before a position, innermost first', () => {
+      analyzer.analyzeSymbols(blocks);
+
+      // Inside the callback, after `let row = user;`
+      const symbols = analyzer.findVisibleSymbols({ line: 0, character: 71 } as any);
+
+      expect(symbols.map(symbol => symbol.name)).toEqual(['user', 'index', 'row', 'format']);
+      expect(symbols[0].kind).toBe(SymbolKind.Parameter);
+    });
+
+    it('should leave out names declared after a position, except hoisted functions', () => {
+      analyzer.analyzeSymbols(blocks);
+
+      const symbols = analyzer.findVisibleSymbols({ line: 0, character: 16 } as any);
+
+      expect(symbols.map(symbol => symbol.name)).toEqual(['user', 'format']);
+    });
   });
 
   describe('complex scenarios', () => {
@@ -3,331 +3,509 @@
  */
 
 import * as vscode from 'vscode';
+import * as acorn from 'acorn';
 import { ISymbolAnalyzer } from '../interfaces';
-import { JavaScriptBlock, SymbolInfo, SymbolKind, DeclarationType, SymbolScope, Location } from '../types';
+import { JavaScriptBlock, SymbolInfo, Location, ReferenceAccess, IncludeCall, FreeVariable, UnusedDeclaration, TaintFlow, TemplateSyntaxError } from '../types';
+import { TemplateScript } from './templateScript';
+import { Binding, Reference, Scope, ScopeBuilder } from './scopeBuilder';
+import { IncludeCollector } from './includeCollector';
+import { TypeofGuardCollector } from './typeofGuardCollector';
+import { UnusedDeclarationCollector } from './unusedDeclarationCollector';
+import { TaintTracker } from './taintTracker';
+import { EJS_RUNTIME_NAMES, JAVASCRIPT_GLOBALS, JAVASCRIPT_KEYWORDS } from './globals';
 
 /**
  * Analyzes JavaScript blocks to identify variable definitions and references
+ *
+ * The blocks are concatenated the way EJS compiles a template and parsed as
+ * a whole, so declarations spanning several tags or lines are understood.
  */
 export class SymbolAnalyzer implements ISymbolAnalyzer {
   private symbols: Map<string, SymbolInfo[]> = new Map();
+  private scopeBuilder = new ScopeBuilder();
+
+  // State of the last analysis, used to resolve names at a position
+  private analyzedBlocks: JavaScriptBlock[] | null = null;
+  private analyzedSymbols: SymbolInfo[] = [];
+  private script: TemplateScript | null = null;
+  private program: acorn.Program | null = null;
+  private syntaxError: SyntaxError | null = null;
+  private rootScope: Scope | null = null;
+  private includes: IncludeCall[] | null = null;
+  private freeVariables: FreeVariable[] | null = null;
+  private unusedDeclarations: UnusedDeclaration[] | null = null;
+  private bindings: Binding[] = [];
+  private symbolsByBinding: Map<Binding, SymbolInfo> = new Map();
+  private bindingsBySymbol: Map<SymbolInfo, Binding> = new Map();
+  /** Declarations and references of the last analysis, sorted by offset */
+  private occurrences: Reference[] = [];
 
   /**
    * Analyze JavaScript blocks to identify variable definitions and references
+   *
+   * Analyzing the same blocks array again returns the previous result, so
+   * providers can call this for every request on a cached parsed document.
    * @param jsBlocks Array of JavaScript blocks to analyze
    * @returns Array of symbol information found in the blocks
    */
   analyzeSymbols(jsBlocks: JavaScriptBlock[]): SymbolInfo[] {
+    if (jsBlocks === this.analyzedBlocks) {
+      return this.analyzedSymbols;
+    }
+
     this.symbols.clear();
+    this.symbolsByBinding.clear();
+    this.bindingsBySymbol.clear();
     const allSymbols: SymbolInfo[] = [];
 
-    for (const block of jsBlocks) {
-      const blockSymbols = this.analyzeBlock(block);
-      allSymbols.push(...blockSymbols);
+    const script = TemplateScript.fromBlocks(jsBlocks);
+    const { program, error } = script.parse();
+    const { root, bindings, references } = this.scopeBuilder.build(program, script.code);
+
+    for (const binding of bindings) {
+      const symbol = this.createSymbolInfo(binding, script);
+      if (!symbol) {
+        continue;
+      }
+
+      allSymbols.push(symbol);
+      this.symbolsByBinding.set(binding, symbol);
+      this.bindingsBySymbol.set(symbol, binding);
+
+      // Store symbols in the map for quick lookup
+      if (!this.symbols.has(symbol.name)) {
+        this.symbols.set(symbol.name, []);
+      }
+      this.symbols.get(symbol.name)!.push(symbol);
     }
 
+    this.analyzedBlocks = jsBlocks;
+    this.analyzedSymbols = allSymbols;
+    this.script = script;
+    this.program = program;
+    this.syntaxError = error;
+    this.rootScope = root;
+    this.includes = null;
+    this.freeVariables = null;
+    this.unusedDeclarations = null;
+    this.bindings = bindings;
+    this.occurrences = this.collectOccurrences(bindings, references);
+
     return allSymbols;
   }
 
   /**
    * Find the definition of a symbol at a specific position
+   *
+   * Resolves the identifier at the position to the innermost declaration
+   * visible there, following the scopes of the compiled template across tag
+   * boundaries. Property names, and `let`, `const` or `class` names used
+   * before their declaration has run (the temporal dead zone), resolve to nothing.
    * @param symbolName Name of the symbol to find
    * @param position Position where the symbol is referenced
    * @returns Symbol information if found, null otherwise
    */
   findDefinition(symbolName: string, position: vscode.Position): SymbolInfo | null {
-    const symbolList = this.symbols.get(symbolName);
-    if (!symbolList || symbolList.length === 0) {
+    if (!this.script || !this.rootScope || !this.symbols.has(symbolName)) {
       return null;
     }
 
-    // Return the first definition found (as per requirements)
-    return symbolList[0];
+    const offset = this.script.toGeneratedOffset(position);
+    if (offset === null) {
+      return this.findTemplateDefinition(symbolName, position);
+    }
+
+    const occurrence = this.findOccurrenceAt(offset);
+    if (!occurrence || occurrence.name !== symbolName || !occurrence.binding) {
+      return null;
+    }
+
+    const binding = occurrence.binding;
+    if (!binding.hoisted && occurrence.start < binding.start && !this.isInNestedFunction(occurrence.scope, binding.scope)) {
+      return null;
+    }
+
+    return this.symbolsByBinding.get(binding) ?? null;
   }
 
   /**
-   * Analyze a single JavaScript block for variable definitions
-   * @param block The JavaScript block to analyze
-   * @returns Array of symbols found in the block
+   * Find the symbols visible at a position, innermost scope first
+   *
+   * A name is visible once its declaration is complete; function
+   * declarations are visible throughout their scope. Inner declarations hide
+   * outer ones of the same name.
+   * @param position Position within a JavaScript block
+   * @returns Symbol information of the visible names, empty outside JavaScript blocks
    */
-  private analyzeBlock(block: JavaScriptBlock): SymbolInfo[] {
-    const symbols: SymbolInfo[] = [];
-    const lines = block.content.split('\n');
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const lineNumber = block.startLine + i;
-      
-      // Find variable declarations in this line
-      const lineSymbols = this.findVariableDeclarations(line, lineNumber, block.startCharacter);
-      symbols.push(...lineSymbols);
+  findVisibleSymbols(position: vscode.Position): SymbolInfo[] {
+    if (!this.script || !this.rootScope) {
+      return [];
     }
 
-    // Store symbols in the map for quick lookup
-    for (const symbol of symbols) {
-      if (!this.symbols.has(symbol.name)) {
-        this.symbols.set(symbol.name, []);
+    const offset = this.script.toGeneratedOffset(position);
+    if (offset === null) {
+      return [];
+    }
+
+    const visible = new Map<string, SymbolInfo>();
+    for (let scope: Scope | null = this.findScopeAt(this.rootScope, offset); scope; scope = scope.parent) {
+      for (const binding of scope.bindings.values()) {
+        const symbol = this.symbolsByBinding.get(binding);
+        const declared = binding.end < offset || (binding.declarationType === 'function' && binding.start > offset);
+        if (symbol && declared && !visible.has(binding.name)) {
+          visible.set(binding.name, symbol);
+        }
       }
-      this.symbols.get(symbol.name)!.push(symbol);
     }
 
-    return symbols;
+    return [...visible.values()];
   }
 
   /**
-   * Find variable declarations in a single line of code
-   * @param line The line of code to analyze
-   * @param lineNumber The line number in the document
-   * @param baseCharacter The base character offset for this line
-   * @returns Array of symbols found in the line
+   * Find the `include()` calls of a template
+   * @param jsBlocks Array of JavaScript blocks to analyze
+   * @returns Include calls in document order, with paths folded from constants where possible
    */
-  private findVariableDeclarations(line: string, lineNumber: number, baseCharacter: number): SymbolInfo[] {
-    const symbols: SymbolInfo[] = [];
-
-    // Pattern for const/let/var declarations
-    const declarationPatterns = [
-      {
-        // const/let/var with simple assignment: const name = value
-        regex: /\b(const|let|var)\s+([a-zA-Z_$][a-zA-Z0-9_$]*)\s*=\s*([^,;]+)/g,
-        type: 'simple' as const
-      },
-      {
-        // const/let/var without assignment: const name
-        regex: /\b(const|let|var)\s+([a-zA-Z_$][a-zA-Z0-9_$]*)\s*(?=[,;]|$)/g,
-        type: 'simple' as const
-      },
-      {
-        // Destructuring assignment: const {a, b} = obj or const [x, y] = arr
-        regex: /\b(const|let|var)\s*([{[])((?:[^{}[\]]+|[{[][^{}[\]]*[}\]])*)[}\]]\s*=\s*([^,;]+)/g,
-        type: 'destructuring' as const
-      }
-    ];
-
-    // Function parameter pattern: function name(param1, param2) or (param1, param2) =>
-    const functionParamPatterns = [
-      {
-        // Regular function: function name(params)
-        regex: /function\s+[a-zA-Z_$][a-zA-Z0-9_$]*\s*\(\s*([^)]*)\s*\)/g,
-        type: 'function' as const
-      },
-      {
-        // Arrow function: (params) => or param =>
-        regex: /(?:^|[^a-zA-Z0-9_$])\(\s*([^)]*)\s*\)\s*=>/g,
-        type: 'arrow' as const
-      },
-      {
-        // Single parameter arrow function: param =>
-        regex: /(?:^|[^a-zA-Z0-9_$])([a-zA-Z_$][a-zA-Z0-9_$]*)\s*=>/g,
-        type: 'single-arrow' as const
-      }
-    ];
-
-    // Process declaration patterns
-    for (const pattern of declarationPatterns) {
-      let match;
-      pattern.regex.lastIndex = 0;
-      
-      while ((match = pattern.regex.exec(line)) !== null) {
-        if (pattern.type === 'simple') {
-          const declarationType = match[1] as DeclarationType;
-          const variableName = match[2];
-          const value = match[3]?.trim();
-          const startChar = baseCharacter + match.index + match[0].indexOf(variableName);
-
-          symbols.push(this.createSymbolInfo(
-            variableName,
-            this.getSymbolKind(declarationType),
-            lineNumber,
-            startChar,
-            variableName.length,
-            value
-          ));
-        } else if (pattern.type === 'destructuring') {
-          const declarationType = match[1] as DeclarationType;
-          const destructureContent = match[3];
-          const destructuredVars = this.parseDestructuring(destructureContent);
-          
-          for (const varName of destructuredVars) {
-            const varIndex = destructureContent.indexOf(varName);
-            if (varIndex !== -1) {
-              const startChar = baseCharacter + match.index + match[0].indexOf(destructureContent) + varIndex;
-              
-              symbols.push(this.createSymbolInfo(
-                varName,
-                this.getSymbolKind(declarationType),
-                lineNumber,
-                startChar,
-                varName.length,
-                undefined,
-                'destructured'
-              ));
-            }
-          }
+  findIncludes(jsBlocks: JavaScriptBlock[]): IncludeCall[] {
+    this.analyzeSymbols(jsBlocks);
+
+    if (!this.includes && this.script && this.program) {
+      const collector = new IncludeCollector(this.script, identifier => this.findOccurrenceAt(identifier.start)?.binding ?? null);
+      this.includes = collector.collect(this.program);
+    }
+
+    return this.includes ?? [];
+  }
+
+  /**
+   * Find the names a template uses without declaring them
+   *
+   * These are the locals the template expects from `res.render()` or a
+   * parent's `include()`; JavaScript globals and the names EJS defines in the
+   * compiled template function are left out. Uses protected by a
+   * `typeof name !== 'undefined'` check are marked as guarded.
+   * @param jsBlocks Array of JavaScript blocks to analyze
+   * @returns Free variables in order of first use
+   */
+  findFreeVariables(jsBlocks: JavaScriptBlock[]): FreeVariable[] {
+    this.analyzeSymbols(jsBlocks);
+
+    if (!this.freeVariables && this.script) {
+      const guards = this.program ? new TypeofGuardCollector().collect(this.program) : [];
+      const variables = new Map<string, FreeVariable>();
+      for (const occurrence of this.occurrences) {
+        if (occurrence.binding || EJS_RUNTIME_NAMES.has(occurrence.name) || JAVASCRIPT_GLOBALS.has(occurrence.name)) {
+          continue;
+        }
+
+        // Names of the generated code, such as `__append`, are not in the template
+        const position = this.script.toTemplatePosition(occurrence.start);
+        if (!position || JAVASCRIPT_KEYWORDS.has(occurrence.name)) {
+          continue;
+        }
+
+        let variable = variables.get(occurrence.name);
+        if (!variable) {
+          variable = { name: occurrence.name, references: [] };
+          variables.set(occurrence.name, variable);
+        }
+        const reference = this.createReferenceLocation(
+          { ...position, length: occurrence.end - occurrence.start },
+          occurrence.access,
+          occurrence.shorthand
+        );
+        if (guards.some(guard => guard.name === occurrence.name && guard.start <= occurrence.start && occurrence.end <= guard.end)) {
+          reference.guarded = true;
         }
+        variable.references.push(reference);
       }
+      this.freeVariables = [...variables.values()];
     }
 
-    // Process function parameter patterns
-    for (const pattern of functionParamPatterns) {
-      let match;
-      pattern.regex.lastIndex = 0;
-      
-      while ((match = pattern.regex.exec(line)) !== null) {
-        let paramString = '';
-        
-        if (pattern.type === 'single-arrow') {
-          paramString = match[1];
-        } else {
-          paramString = match[1];
-        }
-        
-        if (paramString) {
-          const params = this.parseParameters(paramString);
-          
-          for (const param of params) {
-            const paramIndex = paramString.indexOf(param);
-            if (paramIndex !== -1) {
-              const startChar = baseCharacter + match.index + match[0].indexOf(paramString) + paramIndex;
-              
-              symbols.push(this.createSymbolInfo(
-                param,
-                SymbolKind.Parameter,
-                lineNumber,
-                startChar,
-                param.length,
-                undefined,
-                'parameter'
-              ));
-            }
-          }
+    return this.freeVariables ?? [];
+  }
+
+  /**
+   * Find the variables a template declares but never reads
+   * @param jsBlocks Array of JavaScript blocks to analyze
+   * @returns Unused variables in source order, with the statements removable along with them
+   */
+  findUnusedDeclarations(jsBlocks: JavaScriptBlock[]): UnusedDeclaration[] {
+    this.analyzeSymbols(jsBlocks);
+
+    if (!this.unusedDeclarations && this.script && this.program) {
+      this.unusedDeclarations = new UnusedDeclarationCollector(this.script).collect(this.program, this.bindings);
+    }
+
+    return this.unusedDeclarations ?? [];
+  }
+
+  /**
+   * Find the syntax error of the JavaScript of a template
+   *
+   * The blocks are compiled the way EJS compiles them, so braces opened in
+   * one tag and closed in another are checked together. Errors in code EJS
+   * generates around an output expression, and at the end of the template,
+   * are reported on the block before them.
+   * @param jsBlocks Array of JavaScript blocks to analyze
+   * @returns The first syntax error, or null if the template compiles
+   */
+  findSyntaxError(jsBlocks: JavaScriptBlock[]): TemplateSyntaxError | null {
+    this.analyzeSymbols(jsBlocks);
+
+    const error = this.syntaxError as (SyntaxError & { pos?: number; raisedAt?: number }) | null;
+    if (!error || !this.script || error.pos === undefined) {
+      return null;
+    }
+
+    // Acorn appends the line and column of the generated code to its messages
+    const message = error.message.replace(/ \(\d+:\d+\)$/, '');
+    const raisedAt = error.raisedAt ?? error.pos;
+    const start = this.script.toTemplatePosition(error.pos);
+    const end = this.script.toTemplatePosition(raisedAt);
+    if (start && end && this.script.getBlockAt(error.pos) === this.script.getBlockAt(raisedAt)) {
+      return {
+        message,
+        range: { startLine: start.line, startCharacter: start.character, endLine: end.line, endCharacter: end.character },
+        atEnd: false
+      };
+    }
+
+    const range = this.script.getBlockRangeBefore(error.pos);
+    if (!range) {
+      return null;
+    }
+    const atEnd = this.script.code.slice(error.pos).trim() === '';
+    return { message: atEnd ? 'Unexpected end of template.' : message, range, atEnd };
+  }
+
+  /**
+   * Find the output tags writing values derived from untrusted locals
+   *
+   * Values are followed from the sources through `const` declarations,
+   * including destructuring, until a barrier function such as a sanitizer.
+   * @param jsBlocks Array of JavaScript blocks to analyze
+   * @param sources Untrusted locals; `name` taints a local and its properties, `name.*` only its properties
+   * @param barriers Names of the functions whose result is trusted, such as `DOMPurify.sanitize`
+   * @returns Flows of untrusted values into output tags, in source order
+   */
+  findTaintFlows(jsBlocks: JavaScriptBlock[], sources: string[], barriers: string[]): TaintFlow[] {
+    this.analyzeSymbols(jsBlocks);
+
+    if (!this.script || !this.program || sources.length === 0) {
+      return [];
+    }
+
+    const tracker = new TaintTracker(
+      this.script,
+      identifier => this.findOccurrenceAt(identifier.start)?.binding ?? null,
+      sources,
+      new Set(barriers)
+    );
+    return tracker.track(this.program);
+  }
+
+  /**
+   * Check whether a symbol can be renamed without changing what any name refers to
+   * @param symbol Symbol from the last analysis
+   * @param newName The proposed name
+   * @returns True if no declaration or use of the new name would collide with the symbol
+   */
+  isNameAvailable(symbol: SymbolInfo, newName: string): boolean {
+    const binding = this.bindingsBySymbol.get(symbol);
+    if (!binding) {
+      return false;
+    }
+
+    // Another declaration of the name in the same scope
+    if (binding.scope.bindings.has(newName)) {
+      return false;
+    }
+
+    // A declaration of the name between a use and the symbol's scope would shadow the renamed symbol
+    for (const reference of binding.references) {
+      for (let scope: Scope | null = reference.scope; scope && scope !== binding.scope; scope = scope.parent) {
+        if (scope.bindings.has(newName)) {
+          return false;
         }
       }
     }
 
-    return symbols;
+    // Uses of the name inside the symbol's scope that resolve to an outer declaration,
+    // or to a template local, would resolve to the renamed symbol instead
+    return !this.occurrences.some(occurrence =>
+      occurrence.name === newName &&
+      this.isWithinScope(occurrence.scope, binding.scope) &&
+      !(occurrence.binding && this.isWithinScope(occurrence.binding.scope, binding.scope))
+    );
   }
 
   /**
-   * Parse destructuring assignment to extract variable names
-   * @param destructureContent The content inside {} or []
-   * @returns Array of variable names
+   * Find a template-level definition for a position outside every JavaScript block
+   * @param symbolName Name of the symbol to find
+   * @param position Position in the template text
+   * @returns Symbol information if found, null otherwise
    */
-  private parseDestructuring(destructureContent: string): string[] {
-    const variables: string[] = [];
-    
-    // Simple destructuring: {a, b, c} or [x, y, z]
-    const simplePattern = /([a-zA-Z_$][a-zA-Z0-9_$]*)/g;
-    let match;
-    
-    while ((match = simplePattern.exec(destructureContent)) !== null) {
-      const varName = match[1];
-      // Avoid duplicates and common keywords
-      if (!variables.includes(varName) && !this.isKeyword(varName)) {
-        variables.push(varName);
+  private findTemplateDefinition(symbolName: string, position: vscode.Position): SymbolInfo | null {
+    const binding = this.rootScope?.bindings.get(symbolName);
+    const symbol = binding ? this.symbolsByBinding.get(binding) : undefined;
+    if (!binding || !symbol) {
+      return null;
+    }
+
+    const { line, character } = symbol.definition;
+    const declaredBefore = line < position.line || (line === position.line && character <= position.character);
+    return binding.hoisted || declaredBefore ? symbol : null;
+  }
+
+  /**
+   * Find the innermost scope containing an offset
+   * @param scope The scope to search from
+   * @param offset Offset within the generated code
+   * @returns The innermost scope; an identifier being typed at the very end of a scope still belongs to it
+   */
+  private findScopeAt(scope: Scope, offset: number): Scope {
+    for (const child of scope.children) {
+      const atEnd = offset === child.end && /[\w$]/.test(this.script?.code[child.end - 1] ?? '');
+      if (child.start < offset && (offset < child.end || atEnd)) {
+        return this.findScopeAt(child, offset);
       }
     }
-    
-    return variables;
+    return scope;
   }
 
   /**
-   * Parse function parameters to extract parameter names
-   * @param paramString The parameter string from function declaration
-   * @returns Array of parameter names
+   * Find the declaration or reference whose identifier contains an offset
+   * @param offset Offset within the generated code
+   * @returns The occurrence, or null if no identifier is at the offset
    */
-  private parseParameters(paramString: string): string[] {
-    const params: string[] = [];
-    
-    // Split by comma and clean up each parameter
-    const paramParts = paramString.split(',');
-    
-    for (const part of paramParts) {
-      const cleaned = part.trim();
-      if (!cleaned) continue;
-      
-      // Handle destructured parameters: {a, b} or [x, y]
-      if (cleaned.startsWith('{') || cleaned.startsWith('[')) {
-        const destructured = this.parseDestructuring(cleaned);
-        params.push(...destructured);
+  private findOccurrenceAt(offset: number): Reference | null {
+    let low = 0;
+    let high = this.occurrences.length - 1;
+    let candidate: Reference | null = null;
+
+    // Find the last occurrence starting at or before the offset
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (this.occurrences[mid].start <= offset) {
+        candidate = this.occurrences[mid];
+        low = mid + 1;
       } else {
-        // Simple parameter: extract just the name (ignore default values)
-        const paramMatch = cleaned.match(/^([a-zA-Z_$][a-zA-Z0-9_$]*)/);
-        if (paramMatch) {
-          params.push(paramMatch[1]);
-        }
+        high = mid - 1;
+      }
+    }
+
+    return candidate && offset <= candidate.end ? candidate : null;
+  }
+
+  /**
+   * Check whether a scope lies in a function nested inside another scope.
+   * Code in a nested function may run after a later declaration, so only uses
+   * in the declaring function itself are in the temporal dead zone.
+   */
+  private isInNestedFunction(scope: Scope | null, declaringScope: Scope): boolean {
+    while (scope && scope !== declaringScope) {
+      if (scope.kind === 'function') {
+        return true;
+      }
+      scope = scope.parent;
+    }
+    return false;
+  }
+
+  /**
+   * Check whether a scope is, or is nested inside, another scope
+   */
+  private isWithinScope(scope: Scope | null, ancestor: Scope): boolean {
+    while (scope) {
+      if (scope === ancestor) {
+        return true;
       }
+      scope = scope.parent;
     }
-    
-    return params;
+    return false;
   }
 
   /**
-   * Create a SymbolInfo object
-   * @param name Variable name
-   * @param kind Symbol kind
-   * @param line Line number
-   * @param character Character position
-   * @param length Length of the symbol
-   * @param value Optional value
-   * @param declarationType Optional declaration type override
-   * @returns SymbolInfo object
+   * Combine declarations and references into one list sorted by offset
    */
-  private createSymbolInfo(
-    name: string,
-    kind: SymbolKind,
-    line: number,
-    character: number,
-    length: number,
-    value?: string,
-    declarationType?: DeclarationType
-  ): SymbolInfo {
+  private collectOccurrences(bindings: Binding[], references: Reference[]): Reference[] {
+    const declarations: Reference[] = bindings.map(binding => ({
+      name: binding.name,
+      start: binding.start,
+      end: binding.end,
+      access: 'write',
+      scope: binding.scope,
+      binding
+    }));
+
+    return [...declarations, ...references].sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Create a SymbolInfo object for a binding of the template script
+   * @param binding The binding found by the scope builder
+   * @param script The script the binding was found in
+   * @returns SymbolInfo object, or null if the binding does not map back to the template
+   */
+  private createSymbolInfo(binding: Binding, script: TemplateScript): SymbolInfo | null {
+    if (JAVASCRIPT_KEYWORDS.has(binding.name)) {
+      return null;
+    }
+
+    const position = script.toTemplatePosition(binding.start);
+    if (!position) {
+      return null;
+    }
+
     const location: Location = {
-      line,
-      character,
-      length
+      line: position.line,
+      character: position.character,
+      length: binding.end - binding.start
     };
 
+    // The declaration is the first reference, followed by every use in source order
+    const references: Location[] = [this.createReferenceLocation(location, 'write', binding.shorthand)];
+    for (const reference of binding.references) {
+      const referencePosition = script.toTemplatePosition(reference.start);
+      if (referencePosition) {
+        references.push(this.createReferenceLocation(
+          { ...referencePosition, length: reference.end - reference.start },
+          reference.access,
+          reference.shorthand
+        ));
+      }
+    }
+
     return {
-      name,
-      kind,
+      name: binding.name,
+      kind: binding.kind,
       location,
-      definition: location, // For now, definition is the same as location
-      references: [location], // Start with the definition as the first reference
-      value
+      definition: location,
+      references,
+      value: binding.value,
+      declarationType: binding.declarationType,
+      scope: binding.scope.kind
     };
   }
 
   /**
-   * Get symbol kind based on declaration type
-   * @param declarationType The declaration type
-   * @returns Corresponding symbol kind
+   * Create the location of a reference
+   * @param location Position and length of the identifier
+   * @param access Whether the reference reads or writes the symbol
+   * @param shorthand Whether the identifier is also a shorthand property key
+   * @returns Location of the reference
    */
-  private getSymbolKind(declarationType: string): SymbolKind {
-    switch (declarationType) {
-      case 'const':
-        return SymbolKind.Constant;
-      case 'let':
-      case 'var':
-        return SymbolKind.Variable;
-      default:
-        return SymbolKind.Variable;
+  private createReferenceLocation(location: Location, access: ReferenceAccess, shorthand?: boolean): Location {
+    const reference: Location = {
+      line: location.line,
+      character: location.character,
+      length: location.length,
+      access
+    };
+    if (shorthand) {
+      reference.shorthand = true;
     }
+    return reference;
   }
-
-  /**
-   * Check if a string is a JavaScript keyword
-   * @param word The word to check
-   * @returns True if it's a keyword
-   */
-  private isKeyword(word: string): boolean {
-    const keywords = [
-      'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default',
-      'delete', 'do', 'else', 'export', 'extends', 'finally', 'for', 'function',
-      'if', 'import', 'in', 'instanceof', 'let', 'new', 'return', 'super',
-      'switch', 'this', 'throw', 'try', 'typeof', 'var', 'void', 'while',
-      'with', 'yield', 'true', 'false', 'null', 'undefined'
-    ];
-    
-    return keywords.includes(word);
-  }
-}
\ No newline at end of file
+}
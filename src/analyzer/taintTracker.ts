@@ -0,0 +1,250 @@
+/**
+ * Tracking of untrusted template locals into output tags
+ */
+
+import * as acorn from 'acorn';
+import { TaintFlow, TaintStep, TextRange } from '../types';
+import { getChildNodes, walk } from './astWalker';
+import { Binding } from './scopeBuilder';
+import { TemplateScript } from './templateScript';
+
+/**
+ * Follows values derived from untrusted locals, such as `query` or `user.*`,
+ * through `const` declarations into the output tags of a template
+ */
+export class TaintTracker {
+  private tainted: Map<Binding, TaintStep[]> = new Map();
+
+  /**
+   * @param script The script the program was parsed from
+   * @param resolve Finds the binding an identifier node refers to, or null for names not declared in the template
+   * @param sources Untrusted locals; `name` taints a local and its properties, `name.*` only its properties
+   * @param barriers Functions whose result is safe, such as sanitizers and `encodeURIComponent`
+   */
+  constructor(
+    private script: TemplateScript,
+    private resolve: (identifier: acorn.AnyNode) => Binding | null,
+    private sources: string[],
+    private barriers: Set<string>
+  ) {}
+
+  /**
+   * Track the untrusted values of a program
+   * @param program The program AST of the template script
+   * @returns Untrusted values reaching an output tag, in source order
+   */
+  track(program: acorn.Program): TaintFlow[] {
+    this.tainted.clear();
+    const flows: TaintFlow[] = [];
+
+    // Declarations are visited in source order, so the constants a value is read from are tracked first
+    walk(program, node => {
+      if (node.type === 'VariableDeclaration' && node.kind === 'const') {
+        node.declarations.forEach(declarator => this.trackDeclarator(declarator));
+        return;
+      }
+
+      const flow = this.createFlow(node);
+      if (flow) {
+        flows.push(flow);
+      }
+    });
+
+    return flows;
+  }
+
+  /**
+   * Record the constants of a declarator initialized with an untrusted value
+   */
+  private trackDeclarator(declarator: acorn.VariableDeclarator): void {
+    if (!declarator.init) {
+      return;
+    }
+
+    const path = this.resolve(this.getRoot(declarator.init)) ? null : this.getPath(declarator.init);
+    this.trackPattern(declarator.id, declarator.init, this.taintOf(declarator.init), path);
+  }
+
+  /**
+   * Record the constants of a declaration pattern that receive an untrusted value
+   * @param pattern The pattern, or a part of it
+   * @param init The initializer of the declarator
+   * @param steps Steps leading to the value the pattern receives, or null if it is trusted
+   * @param path Dotted path of the local the pattern receives, so that `const { name } = user` reads `user.name`
+   */
+  private trackPattern(pattern: acorn.Pattern | null, init: acorn.Expression, steps: TaintStep[] | null, path: string | null): void {
+    switch (pattern?.type) {
+      case 'Identifier': {
+        const binding = this.resolve(pattern);
+        const range = this.getRange(pattern.start, pattern.end);
+        if (steps && binding && range) {
+          this.tainted.set(binding, [...steps, { kind: 'assignment', name: pattern.name, range }]);
+        }
+        break;
+      }
+      case 'ObjectPattern':
+        for (const property of pattern.properties) {
+          if (property.type === 'RestElement') {
+            this.trackPattern(property.argument, init, steps, null);
+            continue;
+          }
+          const propertyPath = path !== null && !property.computed && property.key.type === 'Identifier'
+            ? `${path}.${property.key.name}`
+            : null;
+          const propertySteps = steps ?? (propertyPath !== null && this.matchesSource(propertyPath)
+            ? this.createSourceStep(init, propertyPath)
+            : null);
+          this.trackPattern(property.value, init, propertySteps, propertyPath);
+        }
+        break;
+      case 'ArrayPattern':
+        pattern.elements.forEach(element => this.trackPattern(element, init, steps, null));
+        break;
+      case 'AssignmentPattern':
+        this.trackPattern(pattern.left, init, steps, path);
+        break;
+      case 'RestElement':
+        this.trackPattern(pattern.argument, init, steps, null);
+        break;
+    }
+  }
+
+  /**
+   * Create a flow for a generated `__append()` call outputting an untrusted value
+   */
+  private createFlow(node: acorn.AnyNode): TaintFlow | null {
+    if (!this.isGeneratedCall(node, '__append') || node.arguments.length !== 1) {
+      return null;
+    }
+
+    // Output tags wrap their expression in a generated `escapeFn()` call
+    let expression: acorn.Expression | acorn.SpreadElement = node.arguments[0];
+    if (this.isGeneratedCall(expression, 'escapeFn') && expression.arguments.length === 1) {
+      expression = expression.arguments[0];
+    }
+
+    const block = this.script.getBlockAt(expression.start);
+    const range = this.getRange(expression.start, expression.end);
+    const steps = this.taintOf(expression);
+    return block && range && steps ? { block, range, steps } : null;
+  }
+
+  /**
+   * Find the steps leading to an untrusted value an expression outputs
+   * @returns The steps from the source to the expression, or null if its value is trusted
+   */
+  private taintOf(node: acorn.AnyNode): TaintStep[] | null {
+    switch (node.type) {
+      case 'Identifier': {
+        const binding = this.resolve(node);
+        if (binding) {
+          return this.tainted.get(binding) ?? null;
+        }
+        return this.matchesSource(node.name) ? this.createSourceStep(node) : null;
+      }
+      case 'MemberExpression': {
+        const path = this.getPath(node);
+        if (path && !this.resolve(this.getRoot(node)) && this.matchesSource(path)) {
+          return this.createSourceStep(node);
+        }
+        // Properties of an untrusted value are untrusted
+        return this.taintOf(node.object);
+      }
+      case 'CallExpression': {
+        const callee = this.getPath(node.callee);
+        if (callee === 'include' || (callee !== null && this.barriers.has(callee))) {
+          return null;
+        }
+        break;
+      }
+      case 'BinaryExpression':
+        // Only concatenation carries the text of its operands, comparisons and arithmetic do not
+        return node.operator === '+' ? this.taintOf(node.left) ?? this.taintOf(node.right) : null;
+      case 'ConditionalExpression':
+        return this.taintOf(node.consequent) ?? this.taintOf(node.alternate);
+      case 'UnaryExpression':
+      case 'UpdateExpression':
+      case 'Literal':
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+      case 'ClassExpression':
+        return null;
+    }
+
+    // Anything else, such as a template literal or a method call, carries the text of its parts
+    for (const child of getChildNodes(node)) {
+      const steps = this.taintOf(child);
+      if (steps) {
+        return steps;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Create the first step of a flow, for an expression reading a source
+   */
+  private createSourceStep(node: acorn.Node, name: string = this.script.code.slice(node.start, node.end)): TaintStep[] | null {
+    const range = this.getRange(node.start, node.end);
+    return range ? [{ kind: 'source', name, range }] : null;
+  }
+
+  /**
+   * Check whether a dotted path reads an untrusted local
+   */
+  private matchesSource(path: string): boolean {
+    return this.sources.some(source => source.endsWith('.*')
+      ? path.startsWith(source.slice(0, -1))
+      : path === source || path.startsWith(`${source}.`)
+    );
+  }
+
+  /**
+   * Get the dotted path of an identifier or a non-computed member expression, such as `user.name`
+   */
+  private getPath(node: acorn.AnyNode): string | null {
+    if (node.type === 'Identifier') {
+      return node.name;
+    }
+    if (node.type === 'MemberExpression' && !node.computed && node.property.type === 'Identifier') {
+      const object = this.getPath(node.object);
+      return object !== null ? `${object}.${node.property.name}` : null;
+    }
+    return null;
+  }
+
+  /**
+   * Get the identifier a member expression chain starts from
+   */
+  private getRoot(node: acorn.AnyNode): acorn.AnyNode {
+    return node.type === 'MemberExpression' ? this.getRoot(node.object) : node;
+  }
+
+  /**
+   * Check whether a node is a call of an EJS function the compiled template generates
+   */
+  private isGeneratedCall(node: acorn.AnyNode, name: string): node is acorn.CallExpression {
+    return node.type === 'CallExpression' &&
+      node.callee.type === 'Identifier' &&
+      node.callee.name === name &&
+      !this.script.toTemplatePosition(node.callee.start);
+  }
+
+  /**
+   * Map a range of the generated code to the template
+   */
+  private getRange(start: number, end: number): TextRange | null {
+    const startPosition = this.script.toTemplatePosition(start);
+    const endPosition = this.script.toTemplatePosition(end);
+    if (!startPosition || !endPosition) {
+      return null;
+    }
+
+    return {
+      startLine: startPosition.line,
+      startCharacter: startPosition.character,
+      endLine: endPosition.line,
+      endCharacter: endPosition.character
+    };
+  }
+}
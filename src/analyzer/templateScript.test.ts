@@ -0,0 +1,107 @@
+/**
+ * Unit tests for TemplateScript
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TemplateScript } from './templateScript';
+import { JavaScriptBlock } from '../types';
+
+describe('TemplateScript', () => {
+  const blocks: JavaScriptBlock[] = [
+    { content: 'const title = "Home";', startLine: 0, endLine: 0, startCharacter: 2, endCharacter: 23, tagType: 'scriptlet' },
+    { content: 'title;', startLine: 1, endLine: 1, startCharacter: 7, endCharacter: 13, tagType: 'output' },
+    { content: 'html', startLine: 2, endLine: 2, startCharacter: 3, endCharacter: 7, tagType: 'unescaped' }
+  ];
+
+  describe('fromBlocks', () => {
+    it('should wrap blocks the way EJS compiles them', () => {
+      const script = TemplateScript.fromBlocks(blocks);
+
+      expect(script.code).toBe(
+        '; const title = "Home";\n' +
+        '; __append(escapeFn(title))\n' +
+        '; __append(html)\n'
+      );
+    });
+
+    it('should produce an empty script for no blocks', () => {
+      expect(TemplateScript.fromBlocks([]).code).toBe('');
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse valid code without an error', () => {
+      const { program, error } = TemplateScript.fromBlocks(blocks).parse();
+
+      expect(error).toBeNull();
+      expect(program.body.length).toBeGreaterThan(0);
+    });
+
+    it('should recover from syntax errors and report them', () => {
+      const script = TemplateScript.fromBlocks([
+        { content: 'if (ready {', startLine: 0, endLine: 0, startCharacter: 2, endCharacter: 13, tagType: 'scriptlet' }
+      ]);
+      const { program, error } = script.parse();
+
+      expect(error).toBeInstanceOf(SyntaxError);
+      expect(program.type).toBe('Program');
+    });
+
+    it('should accept top-level await and return', () => {
+      const script = TemplateScript.fromBlocks([
+        { content: 'const data = await load(); if (!data) return;', startLine: 0, endLine: 0, startCharacter: 2, endCharacter: 47, tagType: 'scriptlet' }
+      ]);
+
+      expect(script.parse().error).toBeNull();
+    });
+  });
+
+  describe('position mapping', () => {
+    it('should map generated offsets back to template positions', () => {
+      const script = TemplateScript.fromBlocks(blocks);
+
+      expect(script.toTemplatePosition(script.code.indexOf('title'))).toEqual({ line: 0, character: 8 });
+      expect(script.toTemplatePosition(script.code.indexOf('html'))).toEqual({ line: 2, character: 3 });
+    });
+
+    it('should return null for generated wrapper code', () => {
+      const script = TemplateScript.fromBlocks(blocks);
+
+      expect(script.toTemplatePosition(script.code.indexOf('__append'))).toBeNull();
+    });
+
+    it('should map positions on later lines of a block', () => {
+      const script = TemplateScript.fromBlocks([
+        { content: 'const a = 1;\n  const b = 2;', startLine: 4, endLine: 5, startCharacter: 6, endCharacter: 14, tagType: 'scriptlet' }
+      ]);
+      const offset = script.code.indexOf('b =');
+
+      expect(script.toTemplatePosition(offset)).toEqual({ line: 5, character: 8 });
+      expect(script.toGeneratedOffset({ line: 5, character: 8 })).toBe(offset);
+    });
+
+    it('should round-trip template positions inside blocks', () => {
+      const script = TemplateScript.fromBlocks(blocks);
+      const offset = script.toGeneratedOffset({ line: 1, character: 9 });
+
+      expect(offset).not.toBeNull();
+      expect(script.code.substring(offset!, offset! + 3)).toBe('tle');
+      expect(script.getBlockAt(offset!)).toBe(blocks[1]);
+    });
+
+    it('should return null for positions outside every block', () => {
+      const script = TemplateScript.fromBlocks(blocks);
+
+      expect(script.toGeneratedOffset({ line: 0, character: 0 })).toBeNull();
+      expect(script.toGeneratedOffset({ line: 9, character: 0 })).toBeNull();
+    });
+
+    it('should find the block before generated code', () => {
+      const script = TemplateScript.fromBlocks(blocks);
+
+      expect(script.getBlockRangeBefore(script.code.indexOf('))'))).toEqual({ startLine: 1, startCharacter: 7, endLine: 1, endCharacter: 12 });
+      expect(script.getBlockRangeBefore(script.code.length)).toEqual({ startLine: 2, startCharacter: 3, endLine: 2, endCharacter: 7 });
+      expect(script.getBlockRangeBefore(0)).toBeNull();
+    });
+  });
+});
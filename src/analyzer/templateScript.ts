@@ -0,0 +1,219 @@
+/**
+ * JavaScript source of an EJS template, assembled the way EJS compiles templates
+ */
+
+import * as acorn from 'acorn';
+import * as acornLoose from 'acorn-loose';
+import { JavaScriptBlock, TextRange } from '../types';
+
+/**
+ * Options shared by the strict and the error-tolerant parser. EJS compiles a
+ * template into the body of a sloppy-mode (optionally async) function.
+ */
+const PARSE_OPTIONS: acorn.Options = {
+  ecmaVersion: 'latest',
+  sourceType: 'script',
+  allowReturnOutsideFunction: true,
+  allowAwaitOutsideFunction: true
+};
+
+/**
+ * A range of the generated code copied verbatim from a JavaScript block
+ */
+interface ScriptSegment {
+  block: JavaScriptBlock;
+  /** Offset of the block content within the generated code */
+  generatedStart: number;
+  /** Number of characters of the block content copied into the generated code */
+  length: number;
+  /** Offsets within the block content at which each of its lines starts */
+  lineStarts: number[];
+}
+
+/**
+ * Concatenates the JavaScript blocks of a template into a single script and
+ * maps offsets in that script back to template positions
+ */
+export class TemplateScript {
+  /** The generated JavaScript source */
+  readonly code: string;
+
+  private constructor(code: string, private segments: ScriptSegment[]) {
+    this.code = code;
+  }
+
+  /**
+   * Build the script for a template from its JavaScript blocks
+   *
+   * Scriptlets are inlined as statements, output tags become `__append(escapeFn(expr))`
+   * and unescaped tags `__append(expr)`, each on its own line, mirroring EJS.
+   * @param blocks JavaScript blocks in document order
+   * @returns The generated script
+   */
+  static fromBlocks(blocks: JavaScriptBlock[]): TemplateScript {
+    const segments: ScriptSegment[] = [];
+    let code = '';
+
+    for (const block of blocks) {
+      const isOutput = block.tagType !== 'scriptlet';
+      // EJS strips a trailing semicolon from output expressions
+      const content = isOutput ? block.content.replace(/;(\s*)$/, '$1') : block.content;
+
+      if (block.tagType === 'output') {
+        code += '; __append(escapeFn(';
+      } else if (block.tagType === 'unescaped') {
+        code += '; __append(';
+      } else {
+        code += '; ';
+      }
+
+      segments.push({
+        block,
+        generatedStart: code.length,
+        length: content.length,
+        lineStarts: TemplateScript.getLineStarts(block.content)
+      });
+      code += content;
+
+      if (block.tagType === 'output') {
+        code += '))';
+      } else if (block.tagType === 'unescaped') {
+        code += ')';
+      }
+      code += '\n';
+    }
+
+    return new TemplateScript(code, segments);
+  }
+
+  /**
+   * Parse the script, recovering from syntax errors
+   * @returns The program AST and the syntax error of the strict parse, if any
+   */
+  parse(): { program: acorn.Program; error: SyntaxError | null } {
+    try {
+      return { program: acorn.parse(this.code, PARSE_OPTIONS), error: null };
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) {
+        throw error;
+      }
+      return { program: acornLoose.parse(this.code, PARSE_OPTIONS), error };
+    }
+  }
+
+  /**
+   * Map an offset of the generated code to a template position
+   * @param offset Offset within the generated code
+   * @returns Template position, or null for code that was generated rather than copied from a block
+   */
+  toTemplatePosition(offset: number): { line: number; character: number } | null {
+    const segment = this.findSegmentAt(offset);
+    if (!segment) {
+      return null;
+    }
+
+    return this.toBlockPosition(segment, offset - segment.generatedStart);
+  }
+
+  /**
+   * Map a template position to an offset of the generated code
+   * @param position Template position
+   * @returns Offset within the generated code, or null if the position is outside every block
+   */
+  toGeneratedOffset(position: { line: number; character: number }): number | null {
+    for (const segment of this.segments) {
+      const { block, lineStarts } = segment;
+      const lineIndex = position.line - block.startLine;
+      if (lineIndex < 0 || lineIndex >= lineStarts.length) {
+        continue;
+      }
+
+      const column = lineIndex === 0 ? position.character - block.startCharacter : position.character;
+      const lineEnd = lineIndex + 1 < lineStarts.length ? lineStarts[lineIndex + 1] - 1 : block.content.length;
+      const localOffset = lineStarts[lineIndex] + column;
+
+      if (column >= 0 && localOffset <= lineEnd && localOffset <= segment.length) {
+        return segment.generatedStart + localOffset;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the JavaScript block a generated offset was copied from
+   * @param offset Offset within the generated code
+   * @returns The block, or null for generated code
+   */
+  getBlockAt(offset: number): JavaScriptBlock | null {
+    return this.findSegmentAt(offset)?.block ?? null;
+  }
+
+  /**
+   * Get the template range of the last block copied before a generated offset
+   * @param offset Offset within the generated code
+   * @returns Range of the block content, or null if no block precedes the offset
+   */
+  getBlockRangeBefore(offset: number): TextRange | null {
+    const segment = [...this.segments].reverse().find(candidate => candidate.generatedStart <= offset);
+    if (!segment) {
+      return null;
+    }
+
+    const start = this.toBlockPosition(segment, 0);
+    const end = this.toBlockPosition(segment, segment.length);
+    return { startLine: start.line, startCharacter: start.character, endLine: end.line, endCharacter: end.character };
+  }
+
+  /**
+   * Find the segment containing a generated offset (inclusive of its end)
+   */
+  private findSegmentAt(offset: number): ScriptSegment | null {
+    let low = 0;
+    let high = this.segments.length - 1;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const segment = this.segments[mid];
+      if (offset < segment.generatedStart) {
+        high = mid - 1;
+      } else if (offset > segment.generatedStart + segment.length) {
+        low = mid + 1;
+      } else {
+        return segment;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Convert an offset within a block's content to a template position
+   */
+  private toBlockPosition(segment: ScriptSegment, localOffset: number): { line: number; character: number } {
+    const { block, lineStarts } = segment;
+    let lineIndex = 0;
+    while (lineIndex + 1 < lineStarts.length && lineStarts[lineIndex + 1] <= localOffset) {
+      lineIndex++;
+    }
+
+    const column = localOffset - lineStarts[lineIndex];
+    return {
+      line: block.startLine + lineIndex,
+      character: lineIndex === 0 ? block.startCharacter + column : column
+    };
+  }
+
+  /**
+   * Get the offsets at which each line of a string starts
+   */
+  private static getLineStarts(content: string): number[] {
+    const lineStarts = [0];
+    for (let i = 0; i < content.length; i++) {
+      if (content.charCodeAt(i) === 10) {
+        lineStarts.push(i + 1);
+      }
+    }
+    return lineStarts;
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Collection of `typeof name !== 'undefined'` guards from the JavaScript of an EJS template
+ */
+
+import * as acorn from 'acorn';
+import { walk } from './astWalker';
+
+/**
+ * Range of generated code in which a name is known to be defined
+ */
+export interface TypeofGuard {
+  name: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Finds the code a `typeof` check protects from names that may not be defined
+ *
+ * Templates test for optional locals with `typeof name !== 'undefined'`,
+ * which is safe even when the local was not passed. The guarded code is the
+ * right operand of `&&` and the consequent of a conditional or `if` whose
+ * test includes the check, or the right operand of `||` and the alternate
+ * for the negated check, `typeof name === 'undefined'`.
+ */
+export class TypeofGuardCollector {
+  /**
+   * Collect the typeof guards of a program
+   * @param program The program AST of the template script
+   * @returns Guarded ranges, including the operands of `typeof` themselves
+   */
+  collect(program: acorn.Program): TypeofGuard[] {
+    const guards: TypeofGuard[] = [];
+    const guard = (names: Set<string>, node: acorn.Node | null | undefined) => {
+      if (node) {
+        names.forEach(name => guards.push({ name, start: node.start, end: node.end }));
+      }
+    };
+
+    walk(program, node => {
+      switch (node.type) {
+        case 'UnaryExpression':
+          // `typeof name` never throws, even for undeclared names
+          if (node.operator === 'typeof' && node.argument.type === 'Identifier') {
+            guard(new Set([node.argument.name]), node.argument);
+          }
+          break;
+        case 'LogicalExpression':
+          guard(this.getCheckedNames(node.left, node.operator === '&&'), node.right);
+          break;
+        case 'ConditionalExpression':
+        case 'IfStatement':
+          guard(this.getCheckedNames(node.test, true), node.consequent);
+          guard(this.getCheckedNames(node.test, false), node.alternate);
+          break;
+      }
+    });
+
+    return guards;
+  }
+
+  /**
+   * Get the names a test checks the definition of
+   * @param test The test expression
+   * @param defined Whether to get the names defined when the test is true, or when it is false
+   */
+  private getCheckedNames(test: acorn.Expression, defined: boolean): Set<string> {
+    if (test.type === 'LogicalExpression' && test.operator === (defined ? '&&' : '||')) {
+      return new Set([...this.getCheckedNames(test.left, defined), ...this.getCheckedNames(test.right, defined)]);
+    }
+    if (test.type === 'UnaryExpression' && test.operator === '!') {
+      return this.getCheckedNames(test.argument, !defined);
+    }
+
+    const name = this.getTypeofComparison(test, defined ? ['!==', '!='] : ['===', '==']);
+    return new Set(name ? [name] : []);
+  }
+
+  /**
+   * Get the name compared to `'undefined'` with one of the given operators, in either operand order
+   */
+  private getTypeofComparison(node: acorn.Expression, operators: string[]): string | null {
+    if (node.type !== 'BinaryExpression' || !operators.includes(node.operator)) {
+      return null;
+    }
+
+    for (const [operand, other] of [[node.left, node.right], [node.right, node.left]]) {
+      if (
+        operand.type === 'UnaryExpression' && operand.operator === 'typeof' && operand.argument.type === 'Identifier' &&
+        other.type === 'Literal' && other.value === 'undefined'
+      ) {
+        return operand.argument.name;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Collection of template variables that are declared but never read
+ */
+
+import * as acorn from 'acorn';
+import { TextRange, UnusedDeclaration } from '../types';
+import { walk } from './astWalker';
+import { Binding } from './scopeBuilder';
+import { TemplateScript } from './templateScript';
+
+/**
+ * Declaration types of the variables checked for reads; parameters, functions
+ * and classes are left alone
+ */
+const VARIABLE_DECLARATION_TYPES = new Set(['const', 'let', 'var', 'destructured']);
+
+/**
+ * Finds the variables of a template nothing reads, and the statements that
+ * can be removed with them
+ */
+export class UnusedDeclarationCollector {
+  /**
+   * @param script The script the program was parsed from
+   */
+  constructor(private script: TemplateScript) {}
+
+  /**
+   * Collect the unused variables of a program
+   * @param program The program AST of the template script
+   * @param bindings Bindings the scope builder found in the program
+   * @returns Unused variables in source order
+   */
+  collect(program: acorn.Program, bindings: Binding[]): UnusedDeclaration[] {
+    const statements = this.collectSingleDeclarations(program);
+    const unused: UnusedDeclaration[] = [];
+
+    for (const binding of bindings) {
+      if (
+        !VARIABLE_DECLARATION_TYPES.has(binding.declarationType) ||
+        binding.references.some(reference => reference.access === 'read')
+      ) {
+        continue;
+      }
+
+      const range = this.toTextRange(binding.start, binding.end);
+      if (!range) {
+        continue;
+      }
+
+      // Removing a declaration that is assigned later would turn the assignments into globals,
+      // and removing one whose initializer does more than compute a value would change the template
+      const statement = binding.references.length === 0 ? statements.get(binding.start) : undefined;
+      unused.push({
+        name: binding.name,
+        range,
+        statementRange: statement && this.isPure(statement.declarations[0].init)
+          ? this.toTextRange(statement.start, statement.end)
+          : null
+      });
+    }
+
+    return unused;
+  }
+
+  /**
+   * Find the declaration statements declaring a single identifier, by the offset of the identifier
+   */
+  private collectSingleDeclarations(program: acorn.Program): Map<number, acorn.VariableDeclaration> {
+    const statements = new Map<number, acorn.VariableDeclaration>();
+
+    walk(program, node => {
+      // Only statements of a statement list can be removed, not the declaration of a for loop
+      let body: acorn.AnyNode[];
+      switch (node.type) {
+        case 'Program':
+        case 'BlockStatement':
+        case 'StaticBlock':
+          body = node.body;
+          break;
+        case 'SwitchCase':
+          body = node.consequent;
+          break;
+        default:
+          return;
+      }
+
+      for (const statement of body) {
+        if (
+          statement.type === 'VariableDeclaration' &&
+          statement.declarations.length === 1 &&
+          statement.declarations[0].id.type === 'Identifier'
+        ) {
+          statements.set(statement.declarations[0].id.start, statement);
+        }
+      }
+    });
+
+    return statements;
+  }
+
+  /**
+   * Check whether evaluating an initializer has no effect besides computing its value
+   *
+   * Calls, assignments and the like may have effects. Property reads are taken
+   * to have none, as templates read their locals with them.
+   * @param node The initializer, or undefined for a declaration without one
+   */
+  private isPure(node: acorn.AnyNode | null | undefined): boolean {
+    if (!node) {
+      return true;
+    }
+
+    switch (node.type) {
+      case 'Literal':
+      case 'Identifier':
+      case 'ThisExpression':
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+        return true;
+      case 'TemplateLiteral':
+        return node.expressions.every(expression => this.isPure(expression));
+      case 'ArrayExpression':
+        return node.elements.every(element => this.isPure(element));
+      case 'ObjectExpression':
+        return node.properties.every(property =>
+          property.type === 'Property' && !property.computed && this.isPure(property.value)
+        );
+      case 'MemberExpression':
+        return this.isPure(node.object) && (!node.computed || this.isPure(node.property));
+      case 'UnaryExpression':
+        return node.operator !== 'delete' && this.isPure(node.argument);
+      case 'BinaryExpression':
+      case 'LogicalExpression':
+        return this.isPure(node.left) && this.isPure(node.right);
+      case 'ConditionalExpression':
+        return this.isPure(node.test) && this.isPure(node.consequent) && this.isPure(node.alternate);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Map a range of the generated code to the template, if it lies within a single block
+   */
+  private toTextRange(start: number, end: number): TextRange | null {
+    const startPosition = this.script.toTemplatePosition(start);
+    const endPosition = this.script.toTemplatePosition(end);
+    if (!startPosition || !endPosition || this.script.getBlockAt(start) !== this.script.getBlockAt(end)) {
+      return null;
+    }
+
+    return {
+      startLine: startPosition.line,
+      startCharacter: startPosition.character,
+      endLine: endPosition.line,
+      endCharacter: endPosition.character
+    };
+  }
+}
@@ -230,11 +230,9 @@ describe("Cache Performance Integration Tests", () => {
       // Cache some documents
       cacheManager.setParsedDocument("test://test1.ejs", 1, {
         jsBlocks: [],
-        symbols: [],
       });
       cacheManager.setParsedDocument("test://test2.ejs", 1, {
         jsBlocks: [],
-        symbols: [],
       });
 
       // Advance time beyond TTL (5 minutes)
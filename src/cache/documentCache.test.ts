@@ -90,7 +90,6 @@ describe("DocumentCacheManager", () => {
             tagType: "scriptlet",
           },
         ],
-        symbols: [],
       };
 
       // Cache parsed document
@@ -104,7 +103,6 @@ describe("DocumentCacheManager", () => {
     it("should return null for expired parsed documents", async () => {
       const parsedDoc: ParsedEJSDocument = {
         jsBlocks: [],
-        symbols: [],
       };
 
       // Mock Date.now to simulate time passing
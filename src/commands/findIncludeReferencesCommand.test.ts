@@ -0,0 +1,56 @@
+/**
+ * Tests for the Find Include References command
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { EJSFindIncludeReferencesCommand } from './findIncludeReferencesCommand';
+import { EJSReferenceProvider } from '../providers/referenceProvider';
+
+describe('EJSFindIncludeReferencesCommand', () => {
+  const uri = vscode.Uri.file('/project/views/components/input.ejs');
+  const position = new vscode.Position(3, 2);
+  const editor = {
+    document: { uri, languageId: 'ejs' },
+    selection: { active: position }
+  } as unknown as vscode.TextEditor;
+  let findIncludeReferences: ReturnType<typeof vi.fn>;
+  let command: EJSFindIncludeReferencesCommand;
+
+  beforeEach(() => {
+    findIncludeReferences = vi.fn();
+    command = new EJSFindIncludeReferencesCommand({ findIncludeReferences } as unknown as EJSReferenceProvider);
+    vi.spyOn(vscode.commands, 'executeCommand');
+    vi.spyOn(vscode.window, 'showInformationMessage');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should show the include calls in the references view', async () => {
+    const locations = [
+      new vscode.Location(vscode.Uri.file('/project/views/pages/home.ejs'), new vscode.Range(
+        new vscode.Position(0, 4),
+        new vscode.Position(0, 48)
+      ))
+    ];
+    findIncludeReferences.mockResolvedValue(locations);
+
+    await command.execute(editor);
+
+    expect(findIncludeReferences).toHaveBeenCalledWith('/project/views/components/input.ejs');
+    expect(vscode.commands.executeCommand).toHaveBeenCalledWith('editor.action.showReferences', uri, position, locations);
+  });
+
+  it('should report templates no include renders', async () => {
+    findIncludeReferences.mockResolvedValue([]);
+
+    await command.execute(editor);
+
+    expect(vscode.commands.executeCommand).not.toHaveBeenCalled();
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      'No template includes /project/views/components/input.ejs.'
+    );
+  });
+});
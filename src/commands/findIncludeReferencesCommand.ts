@@ -0,0 +1,35 @@
+/**
+ * "Find Include References" command for EJS templates
+ */
+
+import * as vscode from 'vscode';
+import { EJSReferenceProvider } from '../providers/referenceProvider';
+
+/**
+ * Lists every include() call across the workspace that renders the active
+ * template, in the references peek view
+ */
+export class EJSFindIncludeReferencesCommand {
+  static readonly id = 'ejs.findIncludeReferences';
+
+  constructor(private referenceProvider: EJSReferenceProvider) {}
+
+  /**
+   * Show the include calls rendering the template of an editor
+   * @param editor The editor the command was invoked in
+   */
+  async execute(editor: vscode.TextEditor): Promise<void> {
+    const document = editor.document;
+    if (document.languageId !== 'ejs') {
+      return;
+    }
+
+    const locations = await this.referenceProvider.findIncludeReferences(document.uri.fsPath);
+    if (locations.length === 0) {
+      vscode.window.showInformationMessage(`No template includes ${vscode.workspace.asRelativePath(document.uri)}.`);
+      return;
+    }
+
+    await vscode.commands.executeCommand('editor.action.showReferences', document.uri, editor.selection.active, locations);
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Tests for the Show Render Sites command
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { EJSShowRenderSitesCommand } from './showRenderSitesCommand';
+import { RenderCallIndex } from '../workspace/renderCallIndex';
+import { RenderCallSite } from '../types';
+
+describe('EJSShowRenderSitesCommand', () => {
+  const uri = vscode.Uri.file('/project/views/channels/form-modal.ejs');
+  const editor = {
+    document: { uri, languageId: 'ejs' },
+    selection: { active: new vscode.Position(0, 0) }
+  } as unknown as vscode.TextEditor;
+  const createSite = (file: string, line: number, localsText: string | null): RenderCallSite => ({
+    file,
+    target: uri.fsPath,
+    call: {
+      view: 'channels/form-modal',
+      range: { startLine: line, startCharacter: 14, endLine: line, endCharacter: 33 },
+      callRange: { startLine: line, startCharacter: 2, endLine: line, endCharacter: 60 },
+      locals: [],
+      localsText
+    }
+  });
+  let findRenderSites: ReturnType<typeof vi.fn>;
+  let command: EJSShowRenderSitesCommand;
+
+  beforeEach(() => {
+    findRenderSites = vi.fn();
+    command = new EJSShowRenderSitesCommand({ findRenderSites } as unknown as RenderCallIndex);
+    vi.spyOn(vscode.window, 'showInformationMessage');
+    vi.spyOn(vscode.window, 'showTextDocument');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should list the render calls with their locals and open the picked one', async () => {
+    findRenderSites.mockResolvedValue([
+      createSite('/project/routes/channels.js', 8, '{\n    editing: true,\n    BASE_URL\n  }'),
+      createSite('/project/routes/admin.js', 3, null)
+    ]);
+    const showQuickPick = vi.spyOn(vscode.window, 'showQuickPick').mockImplementation((items: any) => Promise.resolve(items[1]));
+
+    await command.execute(editor);
+
+    expect(findRenderSites).toHaveBeenCalledWith('/project/views/channels/form-modal.ejs');
+    expect((showQuickPick.mock.calls[0][0] as any[]).map(item => [item.label, item.description, item.detail])).toEqual([
+      ['/project/routes/admin.js', 'line 4', 'no locals'],
+      ['/project/routes/channels.js', 'line 9', 'locals: { editing: true, BASE_URL }']
+    ]);
+    expect(vscode.window.showTextDocument).toHaveBeenCalledWith(vscode.Uri.file('/project/routes/channels.js'), {
+      selection: new vscode.Range(new vscode.Position(8, 2), new vscode.Position(8, 60))
+    });
+  });
+
+  it('should report templates no controller renders', async () => {
+    findRenderSites.mockResolvedValue([]);
+
+    await command.execute(editor);
+
+    expect(vscode.window.showTextDocument).not.toHaveBeenCalled();
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      'No res.render() call renders /project/views/channels/form-modal.ejs.'
+    );
+  });
+});
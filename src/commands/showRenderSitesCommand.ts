@@ -0,0 +1,74 @@
+/**
+ * "Show Render Sites" command for EJS templates
+ */
+
+import * as vscode from 'vscode';
+import { RenderCallSite } from '../types';
+import { RenderCallIndex } from '../workspace/renderCallIndex';
+
+/**
+ * Quick pick item of a render call
+ */
+interface RenderSiteItem extends vscode.QuickPickItem {
+  site: RenderCallSite;
+}
+
+/**
+ * Lists every `res.render()` call across the workspace that renders the
+ * active template, with the locals object each one passes, and opens the
+ * picked one
+ */
+export class EJSShowRenderSitesCommand {
+  static readonly id = 'ejs.showRenderSites';
+
+  constructor(private renderCallIndex: RenderCallIndex) {}
+
+  /**
+   * Show the render calls of the template of an editor
+   * @param editor The editor the command was invoked in
+   */
+  async execute(editor: vscode.TextEditor): Promise<void> {
+    const document = editor.document;
+    if (document.languageId !== 'ejs') {
+      return;
+    }
+
+    const sites = await this.renderCallIndex.findRenderSites(document.uri.fsPath);
+    if (sites.length === 0) {
+      vscode.window.showInformationMessage(`No res.render() call renders ${vscode.workspace.asRelativePath(document.uri)}.`);
+      return;
+    }
+
+    const items = [...sites]
+      .sort((a, b) => a.file.localeCompare(b.file) || a.call.range.startLine - b.call.range.startLine)
+      .map(site => this.createItem(site));
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: `Render sites of ${vscode.workspace.asRelativePath(document.uri)}`,
+      matchOnDetail: true
+    });
+    if (!picked) {
+      return;
+    }
+
+    const range = picked.site.call.callRange;
+    await vscode.window.showTextDocument(vscode.Uri.file(picked.site.file), {
+      selection: new vscode.Range(
+        new vscode.Position(range.startLine, range.startCharacter),
+        new vscode.Position(range.endLine, range.endCharacter)
+      )
+    });
+  }
+
+  /**
+   * Create the quick pick item of a render call, detailed with the locals it passes
+   */
+  private createItem(site: RenderCallSite): RenderSiteItem {
+    const locals = site.call.localsText?.replace(/\s+/g, ' ');
+    return {
+      label: vscode.workspace.asRelativePath(site.file),
+      description: `line ${site.call.range.startLine + 1}`,
+      detail: locals ? `locals: ${locals}` : 'no locals',
+      site
+    };
+  }
+}
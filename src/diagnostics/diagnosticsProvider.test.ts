@@ -0,0 +1,80 @@
+/**
+ * Tests for EJS diagnostics and the unresolved include rule
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as vscode from 'vscode';
+import { EJSDiagnosticsProvider } from './diagnosticsProvider';
+import { UnresolvedIncludeRule } from './rules/unresolvedIncludeRule';
+import { EJSParser } from '../parser/ejsParser';
+import { SymbolAnalyzer } from '../analyzer/symbolAnalyzer';
+import { DocumentCacheManager } from '../cache/documentCache';
+import { IncludeResolver } from '../includes/includeResolver';
+import { IDiagnosticRule } from '../interfaces';
+import { MockTextDocument } from '../../test/mocks/textDocument';
+
+describe('EJSDiagnosticsProvider', () => {
+  let cache: DocumentCacheManager;
+  let provider: EJSDiagnosticsProvider;
+
+  beforeEach(() => {
+    cache = new DocumentCacheManager();
+    const resolver = new IncludeResolver(filePath => filePath === '/templates/header.ejs');
+    provider = new EJSDiagnosticsProvider(new EJSParser(), cache, [
+      new UnresolvedIncludeRule(new SymbolAnalyzer(), resolver)
+    ]);
+  });
+
+  afterEach(() => {
+    provider.dispose();
+    cache.dispose();
+  });
+
+  const check = (content: string, languageId?: string) => {
+    const document = new MockTextDocument(content, { file: '/templates/page.ejs', languageId });
+    provider.updateDiagnostics(document as any);
+    return provider.getDiagnostics(document.uri);
+  };
+
+  it('should warn about includes that resolve to no file', () => {
+    const [diagnostic, ...rest] = check("<%- include('header') %>\n<%- include('footer', { year }) %>");
+
+    expect(rest).toHaveLength(0);
+    expect(diagnostic.message).toBe(`Cannot resolve include 'footer'.`);
+    expect(diagnostic.severity).toBe(vscode.DiagnosticSeverity.Warning);
+    expect(diagnostic.code).toBe('unresolved-include');
+    expect(diagnostic.range.start).toEqual({ line: 1, character: 13 });
+    expect(diagnostic.range.end).toEqual({ line: 1, character: 19 });
+  });
+
+  it('should not report include paths only known at render time', () => {
+    expect(check('<%- include(`partials/${name}`) %>')).toHaveLength(0);
+  });
+
+  it('should ignore documents in other languages', () => {
+    expect(check("<%- include('footer') %>", 'html')).toHaveLength(0);
+  });
+
+  it('should clear the diagnostics of a document', () => {
+    const document = new MockTextDocument("<%- include('footer') %>", { file: '/templates/page.ejs' });
+    provider.updateDiagnostics(document as any);
+    provider.clearDiagnostics(document as any);
+
+    expect(provider.getDiagnostics(document.uri)).toHaveLength(0);
+  });
+
+  it('should keep the results of other rules when a rule fails', () => {
+    const failingRule: IDiagnosticRule = {
+      id: 'failing',
+      check: () => { throw new Error('rule failed'); }
+    };
+    const resolver = new IncludeResolver(() => false);
+    provider.dispose();
+    provider = new EJSDiagnosticsProvider(new EJSParser(), cache, [
+      failingRule,
+      new UnresolvedIncludeRule(new SymbolAnalyzer(), resolver)
+    ]);
+
+    expect(check("<%- include('footer') %>")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Diagnostics for EJS templates
+ */
+
+import * as vscode from 'vscode';
+import { IEJSParser, IDocumentCache, IDiagnosticRule } from '../interfaces';
+
+/**
+ * Runs diagnostic rules over EJS documents and publishes their results
+ */
+export class EJSDiagnosticsProvider {
+  private collection: vscode.DiagnosticCollection;
+
+  constructor(
+    private parser: IEJSParser,
+    private cache: IDocumentCache,
+    private rules: IDiagnosticRule[]
+  ) {
+    this.collection = vscode.languages.createDiagnosticCollection('ejs');
+  }
+
+  /**
+   * Check a document with every rule and replace its diagnostics
+   * @param document The document to check; documents in other languages are ignored
+   */
+  updateDiagnostics(document: vscode.TextDocument): void {
+    if (document.languageId !== 'ejs') {
+      return;
+    }
+
+    // Try to get cached parsed document
+    let parsedDocument = this.cache.getParsedDocument(document.uri.toString(), document.version);
+    if (!parsedDocument) {
+      parsedDocument = this.parser.parseDocument(document);
+      this.cache.setParsedDocument(document.uri.toString(), document.version, parsedDocument);
+    }
+
+    const diagnostics: vscode.Diagnostic[] = [];
+    for (const rule of this.rules) {
+      try {
+        diagnostics.push(...rule.check(document, parsedDocument));
+      } catch (error) {
+        // A failing rule must not hide the results of the others
+        console.error(`Error in EJS diagnostic rule '${rule.id}':`, error);
+      }
+    }
+
+    this.collection.set(document.uri, diagnostics);
+  }
+
+  /**
+   * Remove the diagnostics of a document
+   * @param document The document whose diagnostics are removed
+   */
+  clearDiagnostics(document: vscode.TextDocument): void {
+    this.collection.delete(document.uri);
+  }
+
+  /**
+   * Get the diagnostics currently published for a document
+   * @param uri Document URI
+   * @returns The published diagnostics
+   */
+  getDiagnostics(uri: vscode.Uri): readonly vscode.Diagnostic[] {
+    return this.collection.get(uri) ?? [];
+  }
+
+  /**
+   * Dispose of the diagnostic collection
+   */
+  dispose(): void {
+    this.collection.dispose();
+  }
+}
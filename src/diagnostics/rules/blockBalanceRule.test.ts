@@ -0,0 +1,61 @@
+/**
+ * Tests for the block balance rule
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { BlockBalanceRule } from './blockBalanceRule';
+import { checkTemplate } from '../../../test/mocks/textDocument';
+
+describe('BlockBalanceRule', () => {
+  const check = (content: string) => checkTemplate(new BlockBalanceRule(), content);
+
+  it('should accept blocks and elements nested across tags', () => {
+    expect(check([
+      '<% if (user) { %>',
+      '  <div class="member">',
+      '<% } else if (guest) { %>',
+      '  <div class="guest">',
+      '<% } else { %>',
+      '  <div>',
+      '<% } %>',
+      '</div>',
+      '<% items.forEach(item => { %><span class="<%= item.type %>"><%= item.name %></span><% }) %>',
+      '<ul><% for (const entry of list) { %><li><%= `${entry}` %><br><% } %></ul>'
+    ].join('\n'))).toEqual([]);
+  });
+
+  it('should report both ends of mismatched brackets', () => {
+    const diagnostics = check('<% if (ready) { %>\n<p>Ready</p>\n<% ) %>');
+
+    expect(diagnostics.map(diagnostic => [diagnostic.message, diagnostic.range.start])).toEqual([
+      ["')' does not match '{'.", { line: 2, character: 3 }],
+      ["'{' is closed by ')'.", { line: 0, character: 14 }]
+    ]);
+    expect(diagnostics[0].severity).toBe(vscode.DiagnosticSeverity.Error);
+    expect(diagnostics[0].relatedInformation![0].location.range.start).toEqual({ line: 0, character: 14 });
+    expect(diagnostics[0].code).toBe('block-balance');
+  });
+
+  it('should report brackets never closed or never opened', () => {
+    expect(check('<% items.forEach(item => { %>\n<%= item %>\n<% } %>').map(diagnostic => [diagnostic.message, diagnostic.range.start])).toEqual([
+      ["'(' is never closed.", { line: 0, character: 16 }]
+    ]);
+    expect(check('<p></p><% } %>').map(diagnostic => diagnostic.message)).toEqual(["Unmatched '}'."]);
+    expect(check("<% const s = foo('abc); %>")).toEqual([]);
+  });
+
+  it('should report elements crossing the boundary of a block', () => {
+    const diagnostics = check('<div>\n<% if (compact) { %>\n</div>\n<% } %>\n<% for (const item of items) { %><section><% } %>');
+
+    expect(diagnostics.map(diagnostic => [diagnostic.message, diagnostic.range.start, diagnostic.range.end])).toEqual([
+      ["'</div>' closes an element opened outside this block.", { line: 2, character: 0 }, { line: 2, character: 6 }],
+      ["'<section>' is not closed before the end of this block.", { line: 4, character: 33 }, { line: 4, character: 42 }]
+    ]);
+    expect(diagnostics[0].severity).toBe(vscode.DiagnosticSeverity.Warning);
+    expect(diagnostics[0].relatedInformation!.map(information => [information.message, information.location.range.start])).toEqual([
+      ["'<div>' opened here", { line: 0, character: 0 }],
+      ['Block opened here', { line: 1, character: 16 }]
+    ]);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Diagnostic rule for blocks and HTML elements that do not nest across tags
+ */
+
+import * as vscode from 'vscode';
+import { IDiagnosticRule } from '../../interfaces';
+import { ParsedEJSDocument } from '../../types';
+
+/**
+ * Reports brackets opened in one tag and never closed, closed by the wrong
+ * bracket or never opened, with both ends of a mismatched pair highlighted,
+ * and HTML elements crossing the boundary of a block, such as a `</div>`
+ * inside an `if` whose `<div>` is outside it
+ */
+export class BlockBalanceRule implements IDiagnosticRule {
+  readonly id = 'block-balance';
+
+  /**
+   * Check the block structure the parser found in a template
+   * @param document The document being checked
+   * @param parsedDocument The parsed document
+   * @returns An error for every bracket problem and a warning for every element crossing a block
+   */
+  check(document: vscode.TextDocument, parsedDocument: ParsedEJSDocument): vscode.Diagnostic[] {
+    return (parsedDocument.blockIssues ?? []).map(issue => {
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(document.positionAt(issue.start), document.positionAt(issue.end)),
+        issue.message,
+        issue.kind === 'bracket' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = 'ejs';
+      diagnostic.code = this.id;
+      diagnostic.relatedInformation = issue.related.map(related => new vscode.DiagnosticRelatedInformation(
+        new vscode.Location(document.uri, new vscode.Range(document.positionAt(related.start), document.positionAt(related.end))),
+        related.message
+      ));
+      return diagnostic;
+    });
+  }
+}
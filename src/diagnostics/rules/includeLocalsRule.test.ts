@@ -0,0 +1,66 @@
+/**
+ * Tests for the include locals rule
+ */
+
+import { describe, it, expect } from 'vitest';
+import { IncludeLocalsRule } from './includeLocalsRule';
+import { SymbolAnalyzer } from '../../analyzer/symbolAnalyzer';
+import { IncludeResolver } from '../../includes/includeResolver';
+import { LocalsSchemaLoader } from '../../includes/localsSchemaLoader';
+import { LocalsSchema } from '../../types';
+import { checkTemplate } from '../../../test/mocks/textDocument';
+
+describe('IncludeLocalsRule', () => {
+  const schema: LocalsSchema = {
+    file: '/project/views/card.ejs.d.ts',
+    locals: ['title', 'user', 'compact'].map(name => ({ name, type: 'string', description: '', start: 0, end: 0 })),
+    required: ['title', 'user'],
+    allowsOtherLocals: false
+  };
+  const includeResolver = {
+    resolveFromDocument: (includePath: string) => includePath === 'card' ? '/project/views/card.ejs' : null
+  } as unknown as IncludeResolver;
+  const schemaLoader = {
+    getSchema: (file: string) => file === '/project/views/card.ejs' ? schema : null
+  } as unknown as LocalsSchemaLoader;
+
+  const check = (content: string) => {
+    const rule = new IncludeLocalsRule(new SymbolAnalyzer(), includeResolver, schemaLoader);
+    return checkTemplate(rule, content);
+  };
+
+  it('should report required locals an include() call does not pass', () => {
+    const diagnostics = check("<%- include('card', { compact: true }) %>");
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toBe("Missing required locals 'title', 'user' of 'card'.");
+    expect(diagnostics[0].range.start).toEqual({ line: 0, character: 13 });
+    expect(diagnostics[0].range.end).toEqual({ line: 0, character: 17 });
+    expect(diagnostics[0].code).toBe('include-locals');
+    expect(diagnostics[0].relatedInformation![0].message).toBe('Locals declared in card.ejs.d.ts');
+  });
+
+  it('should report keys the included template does not declare', () => {
+    const diagnostics = check("<%- include('card', { title: 'A', user, subtitle: 'B' }) %>");
+
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual(["'subtitle' is not a local of 'card'."]);
+    expect(diagnostics[0].range.start).toEqual({ line: 0, character: 40 });
+  });
+
+  it('should accept required locals the including template has itself', () => {
+    const content = "<%# @param {string} title %>\n<%- include('card') %><%= user.name %>";
+
+    expect(check(content)).toEqual([]);
+  });
+
+  it('should not report missing locals when the keys are only known at render time', () => {
+    expect(check("<%- include('card', { ...options, subtitle: 'B' }) %>").map(diagnostic => diagnostic.message)).toEqual([
+      "'subtitle' is not a local of 'card'."
+    ]);
+    expect(check("<%- include('card', options) %>")).toEqual([]);
+  });
+
+  it('should ignore includes of templates without a schema', () => {
+    expect(check("<%- include('other', { anything: 1 }) %>")).toEqual([]);
+  });
+});
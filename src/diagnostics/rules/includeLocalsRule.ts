@@ -0,0 +1,119 @@
+/**
+ * Diagnostic rule for include() calls passing locals the included template does not declare
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { IDiagnosticRule, ISymbolAnalyzer } from '../../interfaces';
+import { IncludeCall, LocalsSchema, ParsedEJSDocument, TextRange } from '../../types';
+import { IncludeResolver } from '../../includes/includeResolver';
+import { LocalsSchemaLoader } from '../../includes/localsSchemaLoader';
+
+/**
+ * Checks the locals `include()` calls pass against the `.ejs.d.ts` or
+ * `.locals.json` schema of the included template
+ *
+ * A required local is missing when the call does not pass it and the
+ * including template does not have it either, as EJS passes the locals of
+ * the including template on to the included one. Keys the schema does not
+ * declare are reported on the key.
+ */
+export class IncludeLocalsRule implements IDiagnosticRule {
+  readonly id = 'include-locals';
+
+  constructor(
+    private symbolAnalyzer: ISymbolAnalyzer,
+    private includeResolver: IncludeResolver,
+    private schemaLoader: LocalsSchemaLoader
+  ) {}
+
+  /**
+   * Check the locals passed by the include() calls of a template
+   * @param document The document being checked
+   * @param parsedDocument The parsed document
+   * @returns A warning on the path of every call missing required locals, and on every unknown key
+   */
+  check(document: vscode.TextDocument, parsedDocument: ParsedEJSDocument): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+    let inheritedLocals: Set<string> | null = null;
+
+    for (const include of this.symbolAnalyzer.findIncludes(parsedDocument.jsBlocks)) {
+      const target = include.path === null ? null : this.includeResolver.resolveFromDocument(include.path, document);
+      const schema = target ? this.schemaLoader.getSchema(target) : null;
+      if (!schema) {
+        continue;
+      }
+
+      inheritedLocals ??= new Set([
+        ...(parsedDocument.localDeclarations ?? []).map(local => local.name),
+        ...this.symbolAnalyzer.findFreeVariables(parsedDocument.jsBlocks).map(variable => variable.name)
+      ]);
+      diagnostics.push(...this.checkCall(document, include, schema, inheritedLocals));
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Check the locals of one include() call against the schema of its template
+   */
+  private checkCall(
+    document: vscode.TextDocument,
+    include: IncludeCall,
+    schema: LocalsSchema,
+    inheritedLocals: Set<string>
+  ): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+    const schemaName = path.basename(schema.file);
+    const related = [new vscode.DiagnosticRelatedInformation(
+      new vscode.Location(vscode.Uri.file(schema.file), new vscode.Position(0, 0)),
+      `Locals declared in ${schemaName}`
+    )];
+
+    // The keys of a locals object that is not a literal are only known at render time
+    const passed = new Set(include.locals.map(local => local.name));
+    const missing = include.dynamicLocals
+      ? []
+      : schema.required.filter(name => !passed.has(name) && !inheritedLocals.has(name));
+    if (missing.length > 0) {
+      const names = missing.map(name => `'${name}'`).join(', ');
+      const diagnostic = this.createDiagnostic(
+        include.range,
+        `Missing required ${missing.length === 1 ? 'local' : 'locals'} ${names} of '${include.path}'.`
+      );
+      diagnostic.relatedInformation = related;
+      diagnostics.push(diagnostic);
+    }
+
+    if (!schema.allowsOtherLocals) {
+      const declared = new Set(schema.locals.map(local => local.name));
+      for (const local of include.locals) {
+        if (declared.has(local.name)) {
+          continue;
+        }
+        const diagnostic = this.createDiagnostic(local.range, `'${local.name}' is not a local of '${include.path}'.`);
+        diagnostic.relatedInformation = related;
+        diagnostics.push(diagnostic);
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Create a warning of the rule
+   */
+  private createDiagnostic(range: TextRange, message: string): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(
+        new vscode.Position(range.startLine, range.startCharacter),
+        new vscode.Position(range.endLine, range.endCharacter)
+      ),
+      message,
+      vscode.DiagnosticSeverity.Warning
+    );
+    diagnostic.source = 'ejs';
+    diagnostic.code = this.id;
+    return diagnostic;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Tests for the output context rule
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { OutputContextRule } from './outputContextRule';
+import { TaintedOutputRule } from './taintedOutputRule';
+import { SymbolAnalyzer } from '../../analyzer/symbolAnalyzer';
+import { checkTemplate } from '../../../test/mocks/textDocument';
+
+describe('OutputContextRule', () => {
+  const check = (content: string, rule = new OutputContextRule()) => checkTemplate(rule, content);
+
+  it('should warn about escaped output where HTML escaping is not enough', () => {
+    const diagnostics = check([
+      '<script>const user = <%= name %>;</script>',
+      '<button onclick="select(<%= id %>)">',
+      '<div style="width: <%= width %>px">',
+      '<a href="<%= link %>">',
+      '<input value=<%= value %>>'
+    ].join('\n'));
+
+    expect(diagnostics.map(diagnostic => diagnostic.range.start)).toEqual([
+      { line: 0, character: 25 },
+      { line: 1, character: 28 },
+      { line: 2, character: 23 },
+      { line: 3, character: 13 },
+      { line: 4, character: 17 }
+    ]);
+    expect(diagnostics[0].range.end).toEqual({ line: 0, character: 29 });
+    expect(diagnostics[0].message).toContain('<script> element');
+    expect(diagnostics[1].message).toContain("'onclick' event handler");
+    expect(diagnostics[2].message).toContain("'style' attribute");
+    expect(diagnostics[3].message).toContain("'javascript:' URL");
+    expect(diagnostics[4].message).toContain("unquoted 'value' attribute");
+    expect(diagnostics[0].code).toBe('output-context');
+    expect(diagnostics[0].severity).toBe(vscode.DiagnosticSeverity.Warning);
+  });
+
+  it('should accept text, quoted attributes, URL paths, encoded URLs and literals', () => {
+    expect(check([
+      '<p class="<%= className %>"><%= text %></p>',
+      '<a href="/users/<%= id %>">',
+      '<a href="<%= encodeURIComponent(name) %>">',
+      "<script>const mode = <%= 'dark' %>;</script>",
+      '<script>const html = <%- JSON.stringify(data) %>;</script>'
+    ].join('\n'))).toEqual([]);
+  });
+
+  it('should leave the tags the tainted output rule reports to it', () => {
+    const rule = new OutputContextRule(new TaintedOutputRule(new SymbolAnalyzer()));
+    const diagnostics = check([
+      '<a href="<%= query.next %>">',
+      '<script>const page = <%= query.page %>;</script>',
+      '<a href="<%= link %>">'
+    ].join('\n'), rule);
+
+    expect(diagnostics.map(diagnostic => diagnostic.range.start.line)).toEqual([2]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Security rule for escaped output in HTML contexts escaping does not protect
+ */
+
+import * as acorn from 'acorn';
+import * as vscode from 'vscode';
+import { IDiagnosticRule } from '../../interfaces';
+import { HtmlContext, ParsedEJSDocument, TemplateNode } from '../../types';
+import { TaintedOutputRule } from './taintedOutputRule';
+
+/**
+ * Functions encoding a value for a URL, so that it cannot change its scheme
+ */
+const URL_ENCODERS = new Set(['encodeURIComponent']);
+
+/**
+ * Warns about `<%= %>` tags writing into a context where HTML escaping is not
+ * enough: a `<script>` or `<style>` element, an event handler or `style`
+ * attribute, the start of a URL attribute or an unquoted attribute value
+ *
+ * Output of literals is never reported, and URLs are accepted when their
+ * value is encoded with `encodeURIComponent`.
+ */
+export class OutputContextRule implements IDiagnosticRule {
+  readonly id = 'output-context';
+
+  /**
+   * @param taintedOutputRule Rule reporting untrusted data with the path it took, left to warn about the tags it reports
+   */
+  constructor(private taintedOutputRule?: TaintedOutputRule) {}
+
+  /**
+   * Check the escaped output tags of a template
+   * @param document The document being checked
+   * @param parsedDocument The parsed document
+   * @returns A warning on the expression of every escaped tag in an unsafe context
+   */
+  check(document: vscode.TextDocument, parsedDocument: ParsedEJSDocument): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (const node of parsedDocument.nodes ?? []) {
+      if (node.type !== 'output' || !node.closed || !node.htmlContext) {
+        continue;
+      }
+
+      // EJS strips a trailing semicolon from output expressions
+      const code = node.content.replace(/;(\s*)$/, '$1');
+      let expression: acorn.Expression;
+      try {
+        expression = acorn.parseExpressionAt(code, 0, { ecmaVersion: 'latest' });
+      } catch {
+        // Syntax errors are reported elsewhere
+        continue;
+      }
+
+      const message = this.getMessage(node.htmlContext, expression);
+      if (!message || this.taintedOutputRule?.isReported(parsedDocument, node.contentStart + expression.start)) {
+        continue;
+      }
+
+      const range = new vscode.Range(
+        document.positionAt(node.contentStart + expression.start),
+        document.positionAt(node.contentStart + expression.end)
+      );
+      const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Warning);
+      diagnostic.source = 'ejs';
+      diagnostic.code = this.id;
+      diagnostics.push(diagnostic);
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Describe why HTML escaping does not protect an expression in its context
+   * @returns The message, or null if the output is safe
+   */
+  private getMessage(context: HtmlContext, expression: acorn.Expression): string | null {
+    if (expression.type === 'Literal') {
+      return null;
+    }
+
+    if (context.kind === 'script') {
+      return context.attribute
+        ? `HTML escaping does not make output safe in the '${context.attribute}' event handler, where entities are decoded before the script runs.`
+        : 'HTML escaping does not make output safe in a <script> element. Serialize the value for JavaScript instead.';
+    }
+    if (context.kind === 'style') {
+      return context.attribute
+        ? 'HTML escaping does not make output safe in a \'style\' attribute, where it can inject CSS.'
+        : 'HTML escaping does not make output safe in a <style> element, where it can inject CSS.';
+    }
+    if (context.kind === 'url' && context.atValueStart && !this.isUrlEncoded(expression)) {
+      return `HTML escaping does not prevent a 'javascript:' URL at the start of the '${context.attribute}' attribute. Validate the scheme, or encode the value with encodeURIComponent.`;
+    }
+    if (context.attribute && !context.quoted) {
+      return `HTML escaping does not make output safe in the unquoted '${context.attribute}' attribute, where a space starts a new attribute. Quote the value.`;
+    }
+    return null;
+  }
+
+  /**
+   * Check whether an expression is the result of a URL encoder
+   */
+  private isUrlEncoded(expression: acorn.Expression): boolean {
+    return expression.type === 'CallExpression' &&
+      expression.callee.type === 'Identifier' &&
+      URL_ENCODERS.has(expression.callee.name);
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Tests for the syntax error rule
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { SyntaxErrorRule } from './syntaxErrorRule';
+import { SymbolAnalyzer } from '../../analyzer/symbolAnalyzer';
+import { checkTemplate } from '../../../test/mocks/textDocument';
+
+describe('SyntaxErrorRule', () => {
+  const check = (content: string) => checkTemplate(new SyntaxErrorRule(new SymbolAnalyzer()), content);
+
+  it('should report a syntax error at its position in the template', () => {
+    const diagnostics = check('<h1>Title</h1>\n<% const = 3; %>');
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toBe('Unexpected token');
+    expect(diagnostics[0].range.start).toEqual({ line: 1, character: 9 });
+    expect(diagnostics[0].range.end).toEqual({ line: 1, character: 10 });
+    expect(diagnostics[0].severity).toBe(vscode.DiagnosticSeverity.Error);
+    expect(diagnostics[0].code).toBe('syntax-error');
+  });
+
+  it('should report errors in the code EJS generates on the tag before them', () => {
+    const [diagnostic] = check('<p><%= total + %></p>');
+
+    expect(diagnostic.range.start).toEqual({ line: 0, character: 7 });
+    expect(diagnostic.range.end).toEqual({ line: 0, character: 14 });
+  });
+
+  it('should report a statement left unfinished at the end of the template', () => {
+    const [diagnostic] = check('<p>Hi</p>\n<% if (user) %>\n');
+
+    expect(diagnostic.message).toBe('Unexpected end of template.');
+    expect(diagnostic.range.start).toEqual({ line: 1, character: 3 });
+    expect(diagnostic.range.end).toEqual({ line: 1, character: 12 });
+  });
+
+  it('should leave brackets never closed to the block balance rule', () => {
+    expect(check('<% if (user) { %>\n<p>Hi</p>\n<%= user.name %>\n')).toEqual([]);
+  });
+
+  it('should report other syntax errors of a template with a bracket never closed', () => {
+    const diagnostics = check('<% const = 5; %>\n<% if (b) { %>\n<p>B</p>');
+
+    expect(diagnostics.map(diagnostic => [diagnostic.message, diagnostic.range.start])).toEqual([
+      ['Unexpected token', { line: 0, character: 9 }]
+    ]);
+  });
+
+  it('should report an unterminated string rather than the brackets before it', () => {
+    const [diagnostic] = check("<% const s = foo('abc); %>\n<p>Hi</p>");
+
+    expect(diagnostic.message).toBe('Unterminated string constant');
+  });
+
+  it('should accept blocks closed in a later tag', () => {
+    expect(check('<% if (user) { %>\n<p><%= user.name %></p>\n<% } %>')).toEqual([]);
+  });
+});
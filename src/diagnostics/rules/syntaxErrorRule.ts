@@ -0,0 +1,43 @@
+/**
+ * Diagnostic rule for syntax errors in the JavaScript of a template
+ */
+
+import * as vscode from 'vscode';
+import { IDiagnosticRule, ISymbolAnalyzer } from '../../interfaces';
+import { ParsedEJSDocument } from '../../types';
+
+/**
+ * Reports the syntax error EJS would throw when compiling the template, such
+ * as a statement left unfinished in one tag
+ *
+ * A bracket opened in one tag and never closed in a later one is left to the
+ * block balance rule, which reports it at the bracket rather than at the end
+ * of the template, where the compiler gives up.
+ */
+export class SyntaxErrorRule implements IDiagnosticRule {
+  readonly id = 'syntax-error';
+
+  constructor(private symbolAnalyzer: ISymbolAnalyzer) {}
+
+  /**
+   * Compile the JavaScript of a template
+   * @param document The document being checked
+   * @param parsedDocument The parsed document
+   * @returns An error at the template position of the syntax error, if any and not caused by a bracket left open
+   */
+  check(document: vscode.TextDocument, parsedDocument: ParsedEJSDocument): vscode.Diagnostic[] {
+    const error = this.symbolAnalyzer.findSyntaxError(parsedDocument.jsBlocks);
+    if (!error || (error.atEnd && parsedDocument.blockIssues?.some(issue => issue.kind === 'bracket'))) {
+      return [];
+    }
+
+    const range = new vscode.Range(
+      new vscode.Position(error.range.startLine, error.range.startCharacter),
+      new vscode.Position(error.range.endLine, error.range.endCharacter)
+    );
+    const diagnostic = new vscode.Diagnostic(range, error.message, vscode.DiagnosticSeverity.Error);
+    diagnostic.source = 'ejs';
+    diagnostic.code = this.id;
+    return [diagnostic];
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Tests for the tainted output rule
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TaintedOutputRule } from './taintedOutputRule';
+import { SymbolAnalyzer } from '../../analyzer/symbolAnalyzer';
+import { checkTemplate } from '../../../test/mocks/textDocument';
+
+describe('TaintedOutputRule', () => {
+  let rule: TaintedOutputRule;
+
+  beforeEach(() => {
+    rule = new TaintedOutputRule(new SymbolAnalyzer());
+  });
+
+  const check = (content: string) => checkTemplate(rule, content);
+
+  it('should warn about untrusted data output unescaped, with the path it took', () => {
+    const diagnostics = check('<% const bio = user.bio; %>\n<div><%- bio %></div>');
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].range.start).toEqual({ line: 1, character: 9 });
+    expect(diagnostics[0].code).toBe('tainted-output');
+    expect(diagnostics[0].message).toContain("'user.bio'");
+    expect(diagnostics[0].relatedInformation!.map(information => [information.message, information.location.range.start])).toEqual([
+      ["Untrusted value 'user.bio'", { line: 0, character: 15 }],
+      ["Assigned to 'bio'", { line: 0, character: 9 }]
+    ]);
+  });
+
+  it('should warn about escaped output in contexts HTML escaping does not protect', () => {
+    const diagnostics = check([
+      '<a href="<%= query.next %>">Next</a>',
+      '<button onclick="go(\'<%= params.id %>\')">Go</button>',
+      '<script>const page = <%= query.page %>;</script>',
+      '<input value=<%= body.name %>>'
+    ].join('\n'));
+
+    expect(diagnostics.map(diagnostic => diagnostic.range.start.line)).toEqual([0, 1, 2, 3]);
+    expect(diagnostics[0].message).toContain("'href' URL");
+    expect(diagnostics[1].message).toContain("'onclick' event handler");
+    expect(diagnostics[2].message).toContain('<script> element');
+    expect(diagnostics[3].message).toContain('unquoted attribute');
+  });
+
+  it('should accept escaped output in text and quoted attributes, and encoded URLs', () => {
+    expect(check([
+      '<p title="<%= query.q %>"><%= query.q %></p>',
+      '<a href="/search?q=<%= encodeURIComponent(query.q) %>">Search</a>',
+      '<style>p { color: red; }</style><%= body.text %>',
+      '<%- user %>'
+    ].join('\n'))).toEqual([]);
+  });
+
+  it('should use the configured sources and sanitizers', () => {
+    rule.setSources(['session.*']);
+    rule.setSanitizers(['clean']);
+
+    expect(check('<%- query.q %><%- clean(session.note) %>')).toEqual([]);
+    expect(check('<%- session.note %>')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Security rule for untrusted request data reaching output without the encoding it needs
+ */
+
+import * as vscode from 'vscode';
+import { IDiagnosticRule, ISymbolAnalyzer } from '../../interfaces';
+import { HtmlContext, ParsedEJSDocument, TaintFlow, TemplateNode, TextRange } from '../../types';
+import { DEFAULT_SANITIZERS } from './unescapedOutputRule';
+
+/**
+ * Locals derived from the request unless configured otherwise
+ */
+const DEFAULT_SOURCES = ['query', 'body', 'params', 'user.*'];
+
+/**
+ * Functions encoding a value for a URL, trusted in addition to the sanitizers
+ */
+const URL_ENCODERS = ['encodeURIComponent'];
+
+/**
+ * Context of output tags outside of any HTML construct
+ */
+const TEXT_CONTEXT: HtmlContext = { kind: 'text', quoted: false, atValueStart: false };
+
+/**
+ * A flow the rule reports, with the message describing it
+ */
+interface TaintReport {
+  flow: TaintFlow;
+  message: string;
+}
+
+/**
+ * Warns about values derived from request data that reach an unescaped tag,
+ * or an escaped tag whose HTML escaping does not protect the context it
+ * writes into, such as `href="<%= %>"` or an event handler attribute
+ *
+ * Every step of the flow, from the source through the constants it is
+ * assigned to, is attached as related information. The rules reporting
+ * unescaped output and output contexts in general leave the tags reported
+ * here to this rule.
+ */
+export class TaintedOutputRule implements IDiagnosticRule {
+  readonly id = 'tainted-output';
+  private sources: string[] = DEFAULT_SOURCES;
+  private sanitizers: string[] = DEFAULT_SANITIZERS;
+  /** Reports of the last template checked, shared with the rules asking for them */
+  private lastReports: { parsedDocument: ParsedEJSDocument; reports: TaintReport[] } | null = null;
+
+  constructor(private symbolAnalyzer: ISymbolAnalyzer) {}
+
+  /**
+   * Set the locals holding untrusted data
+   * @param sources Names such as `query`, or `user.*` for the properties of a local; undefined restores the defaults
+   */
+  setSources(sources: string[] | undefined): void {
+    this.sources = sources ?? DEFAULT_SOURCES;
+    this.lastReports = null;
+  }
+
+  /**
+   * Set the functions whose result is trusted
+   * @param names Function names such as `DOMPurify.sanitize`; undefined restores the defaults
+   */
+  setSanitizers(names: string[] | undefined): void {
+    this.sanitizers = names ?? DEFAULT_SANITIZERS;
+    this.lastReports = null;
+  }
+
+  /**
+   * Check the output tags of a template for untrusted data
+   * @param document The document being checked
+   * @param parsedDocument The parsed document
+   * @returns A warning on the expression of every tag outputting untrusted data without the encoding it needs
+   */
+  check(document: vscode.TextDocument, parsedDocument: ParsedEJSDocument): vscode.Diagnostic[] {
+    return this.getReports(parsedDocument).map(({ flow, message }) => {
+      const diagnostic = new vscode.Diagnostic(this.toRange(flow.range), message, vscode.DiagnosticSeverity.Warning);
+      diagnostic.source = 'ejs';
+      diagnostic.code = this.id;
+      diagnostic.relatedInformation = flow.steps.map(step => new vscode.DiagnosticRelatedInformation(
+        new vscode.Location(document.uri, this.toRange(step.range)),
+        step.kind === 'source' ? `Untrusted value '${step.name}'` : `Assigned to '${step.name}'`
+      ));
+      return diagnostic;
+    });
+  }
+
+  /**
+   * Check whether the rule reports untrusted data in an output tag
+   * @param parsedDocument The parsed document
+   * @param offset Offset within the content of the tag
+   * @returns True if a flow into the tag is reported
+   */
+  isReported(parsedDocument: ParsedEJSDocument, offset: number): boolean {
+    return this.getReports(parsedDocument).some(({ flow }) =>
+      flow.block.startOffset !== undefined && flow.block.endOffset !== undefined &&
+      flow.block.startOffset <= offset && offset <= flow.block.endOffset
+    );
+  }
+
+  /**
+   * Find the flows of a template that need reporting, reusing those of the last template checked
+   */
+  private getReports(parsedDocument: ParsedEJSDocument): TaintReport[] {
+    if (this.lastReports?.parsedDocument === parsedDocument) {
+      return this.lastReports.reports;
+    }
+
+    const flows = this.symbolAnalyzer.findTaintFlows(parsedDocument.jsBlocks, this.sources, [...this.sanitizers, ...URL_ENCODERS]);
+    const nodes = parsedDocument.nodes ?? [];
+    const reports: TaintReport[] = [];
+
+    for (const flow of flows) {
+      const node = this.findNode(nodes, flow);
+      const message = this.getMessage(flow, node?.htmlContext ?? TEXT_CONTEXT);
+      if (message) {
+        reports.push({ flow, message });
+      }
+    }
+
+    this.lastReports = { parsedDocument, reports };
+    return reports;
+  }
+
+  /**
+   * Describe the problem of a flow, or return null when the output is encoded for its context
+   */
+  private getMessage(flow: TaintFlow, context: HtmlContext): string | null {
+    const source = flow.steps[0].name;
+    if (flow.block.tagType === 'unescaped') {
+      return `Untrusted data from '${source}' is output unescaped, which can lead to XSS.`;
+    }
+
+    switch (context.kind) {
+      case 'url':
+        return `Untrusted data from '${source}' is output in the '${context.attribute}' URL without encoding; HTML escaping does not prevent 'javascript:' URLs.`;
+      case 'script':
+        return context.attribute
+          ? `Untrusted data from '${source}' is output in the '${context.attribute}' event handler; HTML escaping does not prevent script injection.`
+          : `Untrusted data from '${source}' is output in a <script> element; HTML escaping does not prevent script injection.`;
+      case 'style':
+        return `Untrusted data from '${source}' is output in a style; HTML escaping does not prevent CSS injection.`;
+      case 'attribute':
+        return context.quoted
+          ? null
+          : `Untrusted data from '${source}' is output in an unquoted attribute, where a space starts a new attribute.`;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Find the output tag node a flow ends in
+   */
+  private findNode(nodes: TemplateNode[], flow: TaintFlow): TemplateNode | null {
+    const offset = flow.block.startOffset;
+    if (offset === undefined) {
+      return null;
+    }
+    return nodes.find(node =>
+      (node.type === 'output' || node.type === 'unescaped') &&
+      node.contentStart <= offset && offset <= node.contentEnd
+    ) ?? null;
+  }
+
+  /**
+   * Convert a text range to a VS Code range
+   */
+  private toRange(range: TextRange): vscode.Range {
+    return new vscode.Range(
+      new vscode.Position(range.startLine, range.startCharacter),
+      new vscode.Position(range.endLine, range.endCharacter)
+    );
+  }
+}
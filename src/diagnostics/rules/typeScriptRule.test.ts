@@ -0,0 +1,41 @@
+/**
+ * Tests for the TypeScript rule
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { TypeScriptRule } from './typeScriptRule';
+import { ITypeScriptService } from '../../interfaces';
+import { checkTemplate } from '../../../test/mocks/textDocument';
+
+describe('TypeScriptRule', () => {
+  const content = '<% let count = 3; %>\n<p><%= count.toUpperCase() %></p>';
+  const typeScriptService = {
+    getDiagnostics: vi.fn().mockReturnValue([
+      { message: "Property 'toUpperCase' does not exist on type 'number'.", start: 34, end: 45 }
+    ])
+  } as unknown as ITypeScriptService;
+
+  const check = (rule: TypeScriptRule) => checkTemplate(rule, content);
+
+  it('should report type errors at their template position', () => {
+    const diagnostics = check(new TypeScriptRule(typeScriptService));
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toBe("Property 'toUpperCase' does not exist on type 'number'.");
+    expect(diagnostics[0].range.start).toEqual({ line: 1, character: 13 });
+    expect(diagnostics[0].range.end).toEqual({ line: 1, character: 24 });
+    expect(diagnostics[0].severity).toBe(vscode.DiagnosticSeverity.Warning);
+    expect(diagnostics[0].code).toBe('type-error');
+  });
+
+  it('should use the configured severity, or report nothing when off', () => {
+    const rule = new TypeScriptRule(typeScriptService);
+
+    rule.setSeverity('error');
+    expect(check(rule)[0].severity).toBe(vscode.DiagnosticSeverity.Error);
+
+    rule.setSeverity('off');
+    expect(check(rule)).toEqual([]);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Diagnostic rule for type errors the TypeScript service finds in the JavaScript of a template
+ */
+
+import * as vscode from 'vscode';
+import { IDiagnosticRule, ITypeScriptService } from '../../interfaces';
+import { ParsedEJSDocument } from '../../types';
+import { parseSeverity } from '../severity';
+
+/**
+ * Reports the type errors of the virtual TypeScript document of a template,
+ * such as calling a method that does not exist on a string
+ *
+ * Templates are JavaScript that EJS runs without checking types, so the
+ * errors are warnings unless configured otherwise.
+ */
+export class TypeScriptRule implements IDiagnosticRule {
+  readonly id = 'type-error';
+  private severity: vscode.DiagnosticSeverity | null = vscode.DiagnosticSeverity.Warning;
+
+  constructor(private typeScriptService: ITypeScriptService) {}
+
+  /**
+   * Set the severity of the reported diagnostics
+   * @param severity `error`, `warning`, `information`, `hint` or `off`; anything else restores the default `warning`
+   */
+  setSeverity(severity: string | undefined): void {
+    this.severity = parseSeverity(severity, vscode.DiagnosticSeverity.Warning);
+  }
+
+  /**
+   * Type-check the JavaScript of a template
+   * @param document The document being checked
+   * @param parsedDocument The parsed document
+   * @returns A diagnostic at the template position of every type error
+   */
+  check(document: vscode.TextDocument, parsedDocument: ParsedEJSDocument): vscode.Diagnostic[] {
+    if (this.severity === null || parsedDocument.jsBlocks.length === 0) {
+      return [];
+    }
+
+    return this.typeScriptService.getDiagnostics(document).map(error => {
+      const range = new vscode.Range(document.positionAt(error.start), document.positionAt(error.end));
+      const diagnostic = new vscode.Diagnostic(range, error.message, this.severity!);
+      diagnostic.source = 'ejs';
+      diagnostic.code = this.id;
+      return diagnostic;
+    });
+  }
+}
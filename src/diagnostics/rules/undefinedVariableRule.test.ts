@@ -0,0 +1,77 @@
+/**
+ * Tests for the undefined variable rule
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as vscode from 'vscode';
+import { UndefinedVariableRule } from './undefinedVariableRule';
+import { SymbolAnalyzer } from '../../analyzer/symbolAnalyzer';
+import { IWorkspaceIndex } from '../../interfaces';
+import { IncludeCallSite } from '../../types';
+import { checkTemplate } from '../../../test/mocks/textDocument';
+
+describe('UndefinedVariableRule', () => {
+  let rule: UndefinedVariableRule;
+
+  beforeEach(() => {
+    rule = new UndefinedVariableRule(new SymbolAnalyzer());
+  });
+
+  const check = (content: string) => checkTemplate(rule, content, { file: '/project/views/partials/card.ejs' });
+
+  it('should report names neither declared nor global', () => {
+    const diagnostics = check('<% const title = name.trim(); %>\n<h1><%= title %> <%- JSON.stringify(locals) %></h1>\n<%= count %>');
+
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([`'name' is not defined.`, `'count' is not defined.`]);
+    expect(diagnostics[1].range.start).toEqual({ line: 2, character: 4 });
+    expect(diagnostics[1].range.end).toEqual({ line: 2, character: 9 });
+    expect(diagnostics[1].severity).toBe(vscode.DiagnosticSeverity.Warning);
+    expect(diagnostics[1].code).toBe('undefined-variable');
+  });
+
+  it('should accept uses guarded by typeof checks', () => {
+    const diagnostics = check([
+      "<% const _editing = (typeof editing !== 'undefined' && editing) ? editing : {}; %>",
+      "<% if (typeof user != 'undefined') { %><p><%= user.name %></p><% } %>",
+      "<%= typeof title === 'undefined' ? 'Home' : title %>",
+      '<%= user %>'
+    ].join('\n'));
+
+    expect(diagnostics.map(diagnostic => diagnostic.range.start.line)).toEqual([3]);
+  });
+
+  it('should accept allowlisted names and locals passed by include()', () => {
+    const callSite = {
+      file: '/project/views/home.ejs',
+      target: '/project/views/partials/card.ejs',
+      call: { locals: [{ name: 'product' }] }
+    } as unknown as IncludeCallSite;
+    const workspaceIndex = { getCallSites: () => [callSite] } as unknown as IWorkspaceIndex;
+    rule = new UndefinedVariableRule(new SymbolAnalyzer(), workspaceIndex);
+    rule.setAllowlist(['currentUser']);
+
+    const diagnostics = check('<%= product.name %> <%= currentUser.name %> <%= price %>');
+
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([`'price' is not defined.`]);
+  });
+
+  it('should accept locals declared in JSDoc comments', () => {
+    const diagnostics = check("<%# @param {string} title %>\n<%# @locals {{ user: { name: string } }} %>\n<%= title %> <%= user.name %> <%= price %>");
+
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([`'price' is not defined.`]);
+  });
+
+  it('should use the configured severity', () => {
+    rule.setSeverity('error');
+    expect(check('<%= price %>')[0].severity).toBe(vscode.DiagnosticSeverity.Error);
+
+    rule.setSeverity('off');
+    expect(check('<%= price %>')).toEqual([]);
+
+    rule.setSeverity(undefined);
+    expect(check('<%= price %>')[0].severity).toBe(vscode.DiagnosticSeverity.Warning);
+
+    rule.setSeverity('toString');
+    expect(check('<%= price %>')[0].severity).toBe(vscode.DiagnosticSeverity.Warning);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Diagnostic rule for variables a template uses without any definition
+ */
+
+import * as vscode from 'vscode';
+import { IDiagnosticRule, ISymbolAnalyzer, IWorkspaceIndex } from '../../interfaces';
+import { ParsedEJSDocument } from '../../types';
+import { parseSeverity } from '../severity';
+
+/**
+ * Reports names a template uses that are neither declared in it, JavaScript
+ * or EJS globals, passed by an `include()` of the template, declared as
+ * locals in a `@param` or `@locals` comment or a schema file, nor allowlisted
+ *
+ * Uses guarded by a `typeof name !== 'undefined'` check are not reported, as
+ * they do not throw when the local is missing.
+ */
+export class UndefinedVariableRule implements IDiagnosticRule {
+  readonly id = 'undefined-variable';
+  private severity: vscode.DiagnosticSeverity | null = vscode.DiagnosticSeverity.Warning;
+  private allowlist: Set<string> = new Set();
+
+  /**
+   * @param symbolAnalyzer Analyzer finding the free variables of the template
+   * @param workspaceIndex Index providing the locals passed by the templates including the template
+   */
+  constructor(
+    private symbolAnalyzer: ISymbolAnalyzer,
+    private workspaceIndex?: IWorkspaceIndex
+  ) {}
+
+  /**
+   * Set the severity of the reported diagnostics
+   * @param severity `error`, `warning`, `information`, `hint` or `off`; anything else restores the default `warning`
+   */
+  setSeverity(severity: string | undefined): void {
+    this.severity = parseSeverity(severity, vscode.DiagnosticSeverity.Warning);
+  }
+
+  /**
+   * Set the names treated as defined in every template
+   * @param names Names such as the locals passed by `res.render()`
+   */
+  setAllowlist(names: string[] | undefined): void {
+    this.allowlist = new Set(names ?? []);
+  }
+
+  /**
+   * Check the free variables of a template
+   * @param document The document being checked
+   * @param parsedDocument The parsed document
+   * @returns A diagnostic on every unguarded use of an undefined name
+   */
+  check(document: vscode.TextDocument, parsedDocument: ParsedEJSDocument): vscode.Diagnostic[] {
+    if (this.severity === null) {
+      return [];
+    }
+
+    const passedLocals = new Set((parsedDocument.localDeclarations ?? []).map(local => local.name));
+    if (this.workspaceIndex && document.uri.scheme === 'file') {
+      for (const callSite of this.workspaceIndex.getCallSites(document.uri.fsPath)) {
+        callSite.call.locals.forEach(local => passedLocals.add(local.name));
+      }
+    }
+
+    const diagnostics: vscode.Diagnostic[] = [];
+    for (const variable of this.symbolAnalyzer.findFreeVariables(parsedDocument.jsBlocks)) {
+      if (this.allowlist.has(variable.name) || passedLocals.has(variable.name)) {
+        continue;
+      }
+
+      for (const reference of variable.references) {
+        if (reference.guarded) {
+          continue;
+        }
+
+        const range = new vscode.Range(
+          new vscode.Position(reference.line, reference.character),
+          new vscode.Position(reference.line, reference.character + reference.length)
+        );
+        const diagnostic = new vscode.Diagnostic(range, `'${variable.name}' is not defined.`, this.severity);
+        diagnostic.source = 'ejs';
+        diagnostic.code = this.id;
+        diagnostics.push(diagnostic);
+      }
+    }
+
+    return diagnostics;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Tests for the unescaped output rule
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as vscode from 'vscode';
+import { UnescapedOutputRule } from './unescapedOutputRule';
+import { TaintedOutputRule } from './taintedOutputRule';
+import { SymbolAnalyzer } from '../../analyzer/symbolAnalyzer';
+import { checkTemplate } from '../../../test/mocks/textDocument';
+
+describe('UnescapedOutputRule', () => {
+  let rule: UnescapedOutputRule;
+
+  beforeEach(() => {
+    rule = new UnescapedOutputRule();
+  });
+
+  const check = (content: string) => checkTemplate(rule, content);
+
+  it('should warn about unescaped output of untrusted data', () => {
+    const diagnostics = check('<p><%- user.bio %></p>\n<%= user.name %>\n<%- "<b>" + user.name + "</b>"; %>');
+
+    expect(diagnostics.map(diagnostic => diagnostic.range.start)).toEqual([
+      { line: 0, character: 7 },
+      { line: 2, character: 4 }
+    ]);
+    expect(diagnostics[0].range.end).toEqual({ line: 0, character: 15 });
+    expect(diagnostics[1].range.end).toEqual({ line: 2, character: 30 });
+    expect(diagnostics[0].severity).toBe(vscode.DiagnosticSeverity.Warning);
+    expect(diagnostics[0].code).toBe('unescaped-output');
+  });
+
+  it('should trust includes, literals and sanitizers', () => {
+    expect(check([
+      "<%- include('header', { title: title }); %>",
+      "<%- '<hr>' %>",
+      '<%- DOMPurify.sanitize(post.body) %>',
+      "<%- user ? include('account') : `<a href=\"/login\">Login</a>` %>",
+      "<%- user.isAdmin && '<span>Admin</span>' %>"
+    ].join('\n'))).toEqual([]);
+  });
+
+  it('should use the configured sanitizers', () => {
+    rule.setSanitizers(['markdown.render']);
+
+    expect(check('<%- markdown.render(post.body) %>')).toEqual([]);
+    expect(check('<%- DOMPurify.sanitize(post.body) %>')).toHaveLength(1);
+  });
+
+  it('should leave the tags the tainted output rule reports to it', () => {
+    rule = new UnescapedOutputRule(new TaintedOutputRule(new SymbolAnalyzer()));
+    const diagnostics = check('<% const bio = user.bio; %>\n<%- bio %>\n<%- post.body %>');
+
+    expect(diagnostics.map(diagnostic => diagnostic.range.start.line)).toEqual([2]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Security rule for unescaped output of untrusted data
+ */
+
+import * as acorn from 'acorn';
+import * as vscode from 'vscode';
+import { IDiagnosticRule } from '../../interfaces';
+import { JavaScriptBlock, ParsedEJSDocument } from '../../types';
+import { TaintedOutputRule } from './taintedOutputRule';
+
+/**
+ * Functions whose result is safe to output unescaped unless configured otherwise,
+ * shared with the rule following untrusted data
+ */
+export const DEFAULT_SANITIZERS = ['escapeFn', 'DOMPurify.sanitize', 'sanitizeHtml'];
+
+/**
+ * Warns about `<%- %>` tags outputting values that may contain markup from
+ * users, the most common cause of XSS in EJS templates
+ *
+ * Output is trusted when it is a literal, the result of `include()` or of an
+ * allowlisted sanitizer, or combines only trusted values.
+ */
+export class UnescapedOutputRule implements IDiagnosticRule {
+  readonly id = 'unescaped-output';
+  private sanitizers: Set<string> = new Set(DEFAULT_SANITIZERS);
+
+  /**
+   * @param taintedOutputRule Rule reporting untrusted data with the path it took, left to warn about the tags it reports
+   */
+  constructor(private taintedOutputRule?: TaintedOutputRule) {}
+
+  /**
+   * Set the functions whose result is trusted
+   * @param names Function names such as `DOMPurify.sanitize`; undefined restores the defaults
+   */
+  setSanitizers(names: string[] | undefined): void {
+    this.sanitizers = new Set(names ?? DEFAULT_SANITIZERS);
+  }
+
+  /**
+   * Check the unescaped output tags of a template
+   * @param document The document being checked
+   * @param parsedDocument The parsed document
+   * @returns A warning on the expression of every unescaped tag outputting untrusted data
+   */
+  check(document: vscode.TextDocument, parsedDocument: ParsedEJSDocument): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (const block of parsedDocument.jsBlocks) {
+      if (block.tagType !== 'unescaped') {
+        continue;
+      }
+      if (block.startOffset !== undefined && this.taintedOutputRule?.isReported(parsedDocument, block.startOffset)) {
+        continue;
+      }
+
+      // EJS strips a trailing semicolon from output expressions
+      const code = block.content.replace(/;(\s*)$/, '$1');
+      let expression: acorn.Expression;
+      try {
+        expression = acorn.parseExpressionAt(code, 0, { ecmaVersion: 'latest' });
+      } catch {
+        // Syntax errors are reported elsewhere
+        continue;
+      }
+      if (this.isTrusted(expression)) {
+        continue;
+      }
+
+      const range = new vscode.Range(this.toPosition(block, expression.start), this.toPosition(block, expression.end));
+      const diagnostic = new vscode.Diagnostic(
+        range,
+        'Unescaped output of untrusted data can lead to XSS. Output it escaped, or pass it through a sanitizer.',
+        vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = 'ejs';
+      diagnostic.code = this.id;
+      diagnostics.push(diagnostic);
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Check whether an expression only produces trusted markup
+   */
+  private isTrusted(node: acorn.AnyNode): boolean {
+    switch (node.type) {
+      case 'Literal':
+        return true;
+      case 'TemplateLiteral':
+        return node.expressions.every(expression => this.isTrusted(expression));
+      case 'BinaryExpression':
+        return node.operator === '+' && this.isTrusted(node.left) && this.isTrusted(node.right);
+      case 'LogicalExpression':
+        // `a && b` outputs a only when it is falsy, which renders no markup
+        return node.operator === '&&' ? this.isTrusted(node.right) : this.isTrusted(node.left) && this.isTrusted(node.right);
+      case 'ConditionalExpression':
+        return this.isTrusted(node.consequent) && this.isTrusted(node.alternate);
+      case 'CallExpression': {
+        const callee = this.getCalleeName(node.callee);
+        return callee === 'include' || (callee !== null && this.sanitizers.has(callee));
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Get the dotted name of a called function, such as `DOMPurify.sanitize`
+   */
+  private getCalleeName(node: acorn.AnyNode): string | null {
+    if (node.type === 'Identifier') {
+      return node.name;
+    }
+    if (node.type === 'MemberExpression' && !node.computed && node.property.type === 'Identifier') {
+      const object = this.getCalleeName(node.object);
+      return object !== null ? `${object}.${node.property.name}` : null;
+    }
+    return null;
+  }
+
+  /**
+   * Convert an offset within a block's content to a document position
+   */
+  private toPosition(block: JavaScriptBlock, offset: number): vscode.Position {
+    const lines = block.content.slice(0, offset).split('\n');
+    const character = lines.length === 1 ? block.startCharacter + lines[0].length : lines[lines.length - 1].length;
+    return new vscode.Position(block.startLine + lines.length - 1, character);
+  }
+}
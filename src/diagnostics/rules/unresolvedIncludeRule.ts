@@ -0,0 +1,52 @@
+/**
+ * Diagnostic rule for include paths that do not lead to a template
+ */
+
+import * as vscode from 'vscode';
+import { IDiagnosticRule, ISymbolAnalyzer } from '../../interfaces';
+import { ParsedEJSDocument } from '../../types';
+import { IncludeResolver } from '../../includes/includeResolver';
+
+/**
+ * Warns about `include()` calls whose path resolves to no existing file
+ */
+export class UnresolvedIncludeRule implements IDiagnosticRule {
+  readonly id = 'unresolved-include';
+
+  constructor(
+    private symbolAnalyzer: ISymbolAnalyzer,
+    private includeResolver: IncludeResolver
+  ) {}
+
+  /**
+   * Check the include paths of a template
+   * @param document The document being checked
+   * @param parsedDocument The parsed document
+   * @returns A warning on the path of every include that cannot be resolved
+   */
+  check(document: vscode.TextDocument, parsedDocument: ParsedEJSDocument): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (const include of this.symbolAnalyzer.findIncludes(parsedDocument.jsBlocks)) {
+      // Paths built from runtime values cannot be checked
+      if (include.path === null || this.includeResolver.resolveFromDocument(include.path, document)) {
+        continue;
+      }
+
+      const range = new vscode.Range(
+        new vscode.Position(include.range.startLine, include.range.startCharacter),
+        new vscode.Position(include.range.endLine, include.range.endCharacter)
+      );
+      const diagnostic = new vscode.Diagnostic(
+        range,
+        `Cannot resolve include '${include.path}'.`,
+        vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = 'ejs';
+      diagnostic.code = this.id;
+      diagnostics.push(diagnostic);
+    }
+
+    return diagnostics;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Tests for the unused variable rule
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { UnusedVariableRule } from './unusedVariableRule';
+import { SymbolAnalyzer } from '../../analyzer/symbolAnalyzer';
+import { checkTemplate } from '../../../test/mocks/textDocument';
+
+describe('UnusedVariableRule', () => {
+  const check = (content: string) => checkTemplate(new UnusedVariableRule(new SymbolAnalyzer()), content);
+
+  it('should hint at variables nothing reads', () => {
+    const diagnostics = check([
+      "<% const _socialChannel = _editing?.socialChannel || {}; %>",
+      "<% const _socialChannelUrl = _socialChannel?.url || ''; %>",
+      "<% let count = 0; count = items.length; %>",
+      '<% items.forEach(function (item, index) { %><%= item %><% }); %>'
+    ].join('\n'));
+
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      `'_socialChannelUrl' is declared but its value is never read.`,
+      `'count' is declared but its value is never read.`
+    ]);
+    expect(diagnostics[0].severity).toBe(vscode.DiagnosticSeverity.Hint);
+    expect(diagnostics[0].tags).toEqual([vscode.DiagnosticTag.Unnecessary]);
+    expect(diagnostics[0].code).toBe('unused-variable');
+    expect(diagnostics[0].range.start).toEqual({ line: 1, character: 9 });
+    expect(diagnostics[0].range.end).toEqual({ line: 1, character: 26 });
+  });
+});
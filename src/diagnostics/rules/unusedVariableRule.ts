@@ -0,0 +1,41 @@
+/**
+ * Diagnostic rule for template variables nothing reads
+ */
+
+import * as vscode from 'vscode';
+import { IDiagnosticRule, ISymbolAnalyzer } from '../../interfaces';
+import { ParsedEJSDocument } from '../../types';
+
+/**
+ * Hints at variables a template declares but never reads, faded out in the
+ * editor and removable with a quick fix
+ */
+export class UnusedVariableRule implements IDiagnosticRule {
+  readonly id = 'unused-variable';
+
+  constructor(private symbolAnalyzer: ISymbolAnalyzer) {}
+
+  /**
+   * Check the variables of a template for reads
+   * @param document The document being checked
+   * @param parsedDocument The parsed document
+   * @returns A hint on the declaration of every unused variable
+   */
+  check(document: vscode.TextDocument, parsedDocument: ParsedEJSDocument): vscode.Diagnostic[] {
+    return this.symbolAnalyzer.findUnusedDeclarations(parsedDocument.jsBlocks).map(declaration => {
+      const range = new vscode.Range(
+        new vscode.Position(declaration.range.startLine, declaration.range.startCharacter),
+        new vscode.Position(declaration.range.endLine, declaration.range.endCharacter)
+      );
+      const diagnostic = new vscode.Diagnostic(
+        range,
+        `'${declaration.name}' is declared but its value is never read.`,
+        vscode.DiagnosticSeverity.Hint
+      );
+      diagnostic.source = 'ejs';
+      diagnostic.code = this.id;
+      diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+      return diagnostic;
+    });
+  }
+}
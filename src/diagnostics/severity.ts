@@ -0,0 +1,29 @@
+/**
+ * Configured severities of diagnostic rules
+ */
+
+import * as vscode from 'vscode';
+
+/**
+ * Severities a rule can be configured with, `off` disabling it
+ */
+const SEVERITIES: Record<string, vscode.DiagnosticSeverity | null> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint,
+  off: null
+};
+
+/**
+ * Get the severity a rule is configured with
+ * @param severity `error`, `warning`, `information`, `hint` or `off`
+ * @param defaultSeverity Severity for a missing or unknown setting
+ * @returns The severity, or null if the rule is off
+ */
+export function parseSeverity(
+  severity: string | undefined,
+  defaultSeverity: vscode.DiagnosticSeverity
+): vscode.DiagnosticSeverity | null {
+  return severity !== undefined && Object.hasOwn(SEVERITIES, severity) ? SEVERITIES[severity] : defaultSeverity;
+}
@@ -10,9 +10,43 @@ import {
   EJSDefinitionProvider,
   EJSHoverProvider,
   EJSVisualFeedbackProvider,
-  EJSCursorManager
+  EJSCursorManager,
+  EJSSemanticTokensProvider,
+  EJSReferenceProvider,
+  EJSRenameProvider,
+  EJSDocumentLinkProvider,
+  EJSRenderLinkProvider,
+  EJSCallHierarchyProvider,
+  EJSCompletionProvider,
+  EJSRenderCompletionProvider,
+  EJSSignatureHelpProvider,
+  EJSTypeScriptService,
+  EJSCodeActionProvider,
+  EJSDiagnosticsProvider,
+  IncludeResolver,
+  LocalsSchemaLoader,
+  WorkspaceIndex,
+  RenderCallIndex,
+  UnresolvedIncludeRule,
+  IncludeLocalsRule,
+  SyntaxErrorRule,
+  BlockBalanceRule,
+  UndefinedVariableRule,
+  UnusedVariableRule,
+  UnescapedOutputRule,
+  TaintedOutputRule,
+  OutputContextRule,
+  TypeScriptRule,
+  EJSFindIncludeReferencesCommand,
+  EJSShowRenderSitesCommand,
+  EJSDelimiters
 } from './index';
 
+/**
+ * Milliseconds of typing pause after which an edited template is re-indexed and checked
+ */
+const UPDATE_DELAY = 300;
+
 /**
  * Extension activation function
  * @param context VS Code extension context
@@ -24,17 +58,71 @@ export function activate(context: vscode.ExtensionContext) {
   const parser = new EJSParser();
   const symbolAnalyzer = new SymbolAnalyzer();
   const documentCache = new DocumentCacheManager();
+  const includeResolver = new IncludeResolver();
+  const schemaLoader = new LocalsSchemaLoader();
+  // The index analyzes other templates with its own analyzer, keeping the providers' analysis intact
+  const workspaceIndex = new WorkspaceIndex(parser, new SymbolAnalyzer(), includeResolver);
+  const renderCallIndex = new RenderCallIndex(includeResolver);
+  const typeScriptService = new EJSTypeScriptService(parser, symbolAnalyzer, documentCache);
+
+  // Apply the configured delimiters and views root before any document is parsed
+  parser.setDelimiters(vscode.workspace.getConfiguration('ejs').get<Partial<EJSDelimiters>>('delimiters'));
+  includeResolver.setViewsRoot(vscode.workspace.getConfiguration('ejs').get<string>('viewsRoot'));
+  parser.setLocalsSchemaLoader(schemaLoader);
 
   // Initialize providers with cache
-  const definitionProvider = new EJSDefinitionProvider(parser, symbolAnalyzer, documentCache);
-  const hoverProvider = new EJSHoverProvider(parser, symbolAnalyzer, documentCache);
+  const definitionProvider = new EJSDefinitionProvider(parser, symbolAnalyzer, documentCache, includeResolver, workspaceIndex);
+  const hoverProvider = new EJSHoverProvider(parser, symbolAnalyzer, documentCache, workspaceIndex, typeScriptService);
   const visualFeedbackProvider = new EJSVisualFeedbackProvider(parser, symbolAnalyzer);
+  const referenceProvider = new EJSReferenceProvider(parser, symbolAnalyzer, documentCache, includeResolver, workspaceIndex);
+  const renameProvider = new EJSRenameProvider(parser, symbolAnalyzer, documentCache);
+  const documentLinkProvider = new EJSDocumentLinkProvider(parser, symbolAnalyzer, documentCache, includeResolver);
+  const callHierarchyProvider = new EJSCallHierarchyProvider(parser, symbolAnalyzer, documentCache, includeResolver, workspaceIndex);
+  const completionProvider = new EJSCompletionProvider(parser, symbolAnalyzer, documentCache, includeResolver, workspaceIndex, typeScriptService);
+
+  // Initialize diagnostics
+  const undefinedVariableRule = new UndefinedVariableRule(symbolAnalyzer, workspaceIndex);
+  const configureUndefinedVariableRule = () => {
+    const configuration = vscode.workspace.getConfiguration('ejs.diagnostics.undefinedVariables');
+    undefinedVariableRule.setSeverity(configuration.get<string>('severity'));
+    undefinedVariableRule.setAllowlist(configuration.get<string[]>('allowlist'));
+  };
+  configureUndefinedVariableRule();
+  const taintedOutputRule = new TaintedOutputRule(symbolAnalyzer);
+  const unescapedOutputRule = new UnescapedOutputRule(taintedOutputRule);
+  const configureUnescapedOutputRule = () => {
+    const sanitizers = vscode.workspace.getConfiguration('ejs.diagnostics.unescapedOutput').get<string[]>('sanitizers');
+    unescapedOutputRule.setSanitizers(sanitizers);
+    taintedOutputRule.setSanitizers(sanitizers);
+    taintedOutputRule.setSources(vscode.workspace.getConfiguration('ejs.diagnostics.taint').get<string[]>('sources'));
+  };
+  configureUnescapedOutputRule();
+  const typeScriptRule = new TypeScriptRule(typeScriptService);
+  const configureTypeScriptRule = () => {
+    typeScriptRule.setSeverity(vscode.workspace.getConfiguration('ejs.diagnostics.typeErrors').get<string>('severity'));
+  };
+  configureTypeScriptRule();
+  const diagnosticsProvider = new EJSDiagnosticsProvider(parser, documentCache, [
+    new SyntaxErrorRule(symbolAnalyzer),
+    new BlockBalanceRule(),
+    new UnresolvedIncludeRule(symbolAnalyzer, includeResolver),
+    new IncludeLocalsRule(symbolAnalyzer, includeResolver, schemaLoader),
+    undefinedVariableRule,
+    new UnusedVariableRule(symbolAnalyzer),
+    unescapedOutputRule,
+    taintedOutputRule,
+    new OutputContextRule(taintedOutputRule),
+    typeScriptRule
+  ]);
   
   // Initialize cursor manager
   const cursorManager = new EJSCursorManager(visualFeedbackProvider);
 
   // Register providers for EJS files
   const ejsSelector: vscode.DocumentSelector = { language: 'ejs', scheme: 'file' };
+  // Controllers rendering the templates
+  const sourceSelector: vscode.DocumentSelector = ['javascript', 'javascriptreact', 'typescript', 'typescriptreact']
+    .map(language => ({ language, scheme: 'file' }));
 
   // Register Definition Provider
   const definitionDisposable = vscode.languages.registerDefinitionProvider(
@@ -54,30 +142,216 @@ export function activate(context: vscode.ExtensionContext) {
     visualFeedbackProvider
   );
 
+  // Register Reference Provider (Find All References)
+  const referenceDisposable = vscode.languages.registerReferenceProvider(
+    ejsSelector,
+    referenceProvider
+  );
+
+  // Register Rename Provider (Rename Symbol)
+  const renameDisposable = vscode.languages.registerRenameProvider(
+    ejsSelector,
+    renameProvider
+  );
+
+  // Register Document Link Provider (clickable include paths)
+  const documentLinkDisposable = vscode.languages.registerDocumentLinkProvider(
+    ejsSelector,
+    documentLinkProvider
+  );
+
+  // Register Call Hierarchy Provider (include hierarchy)
+  const callHierarchyDisposable = vscode.languages.registerCallHierarchyProvider(
+    ejsSelector,
+    callHierarchyProvider
+  );
+
+  // Register Completion Provider (template variables, EJS built-ins, include paths and partial locals)
+  const completionDisposable = vscode.languages.registerCompletionItemProvider(
+    ejsSelector,
+    completionProvider,
+    ...EJSCompletionProvider.triggerCharacters
+  );
+
+  // Register Document Link Provider for controllers (clickable res.render() view names)
+  const renderLinkDisposable = vscode.languages.registerDocumentLinkProvider(
+    sourceSelector,
+    new EJSRenderLinkProvider(renderCallIndex)
+  );
+
+  // Register Completion Provider for controllers (res.render() view names)
+  const renderCompletionDisposable = vscode.languages.registerCompletionItemProvider(
+    sourceSelector,
+    new EJSRenderCompletionProvider(includeResolver, workspaceIndex),
+    ...EJSRenderCompletionProvider.triggerCharacters
+  );
+
+  // Register Signature Help Provider (parameters of the function being called)
+  const signatureHelpDisposable = vscode.languages.registerSignatureHelpProvider(
+    ejsSelector,
+    new EJSSignatureHelpProvider(typeScriptService),
+    ...EJSSignatureHelpProvider.triggerCharacters
+  );
+
+  // Register Code Action Provider (quick fixes for diagnostics)
+  const codeActionDisposable = vscode.languages.registerCodeActionsProvider(
+    ejsSelector,
+    new EJSCodeActionProvider(parser, symbolAnalyzer, documentCache),
+    EJSCodeActionProvider.metadata
+  );
+
+  // Register Semantic Tokens Provider (for tags written with custom delimiters)
+  const semanticTokensDisposable = vscode.languages.registerDocumentSemanticTokensProvider(
+    ejsSelector,
+    new EJSSemanticTokensProvider(parser),
+    EJSSemanticTokensProvider.legend
+  );
+
+  // Register commands
+  const findIncludeReferencesCommand = new EJSFindIncludeReferencesCommand(referenceProvider);
+  const findIncludeReferencesDisposable = vscode.commands.registerTextEditorCommand(
+    EJSFindIncludeReferencesCommand.id,
+    (editor) => findIncludeReferencesCommand.execute(editor)
+  );
+  const showRenderSitesCommand = new EJSShowRenderSitesCommand(renderCallIndex);
+  const showRenderSitesDisposable = vscode.commands.registerTextEditorCommand(
+    EJSShowRenderSitesCommand.id,
+    (editor) => showRenderSitesCommand.execute(editor)
+  );
+
   // Add disposables to context
-  context.subscriptions.push(definitionDisposable, hoverDisposable, highlightDisposable);
+  context.subscriptions.push(
+    definitionDisposable,
+    hoverDisposable,
+    highlightDisposable,
+    referenceDisposable,
+    renameDisposable,
+    documentLinkDisposable,
+    callHierarchyDisposable,
+    completionDisposable,
+    renderLinkDisposable,
+    renderCompletionDisposable,
+    signatureHelpDisposable,
+    codeActionDisposable,
+    semanticTokensDisposable,
+    findIncludeReferencesDisposable,
+    showRenderSitesDisposable
+  );
+
+  // Re-index and check an edited template once typing pauses, rather than on every keystroke
+  const pendingUpdates = new Map<string, NodeJS.Timeout>();
+  const cancelUpdate = (document: vscode.TextDocument) => {
+    clearTimeout(pendingUpdates.get(document.uri.toString()));
+    pendingUpdates.delete(document.uri.toString());
+  };
+  const scheduleUpdate = (document: vscode.TextDocument) => {
+    cancelUpdate(document);
+    pendingUpdates.set(document.uri.toString(), setTimeout(() => {
+      pendingUpdates.delete(document.uri.toString());
+      workspaceIndex.updateDocument(document);
+      diagnosticsProvider.updateDiagnostics(document);
+    }, UPDATE_DELAY));
+  };
 
   // Add document change listener for cache invalidation
   const documentChangeDisposable = vscode.workspace.onDidChangeTextDocument((event) => {
     if (event.document.languageId === 'ejs') {
       documentCache.clearDocument(event.document.uri.toString());
+      scheduleUpdate(event.document);
+    } else {
+      renderCallIndex.updateDocument(event.document);
     }
   });
 
+  // Add document open listener for diagnostics
+  const documentOpenDisposable = vscode.workspace.onDidOpenTextDocument((document) => {
+    diagnosticsProvider.updateDiagnostics(document);
+  });
+
   // Add document close listener for cache cleanup
   const documentCloseDisposable = vscode.workspace.onDidCloseTextDocument((document) => {
     if (document.languageId === 'ejs') {
+      cancelUpdate(document);
       documentCache.clearDocument(document.uri.toString());
+      diagnosticsProvider.clearDiagnostics(document);
+      typeScriptService.closeDocument(document.uri);
+      // Unsaved changes of a closed document are gone
+      workspaceIndex.refreshFile(document.uri);
+    } else {
+      renderCallIndex.closeDocument(document);
     }
   });
 
-  context.subscriptions.push(documentChangeDisposable, documentCloseDisposable);
+  // Re-parse all documents when the configured delimiters change, and re-resolve includes with the views root
+  const configurationChangeDisposable = vscode.workspace.onDidChangeConfiguration((event) => {
+    if (event.affectsConfiguration('ejs.delimiters')) {
+      parser.setDelimiters(vscode.workspace.getConfiguration('ejs').get<Partial<EJSDelimiters>>('delimiters'));
+      documentCache.clearAll();
+      workspaceIndex.rebuild();
+    }
+    if (event.affectsConfiguration('ejs.delimiters') || event.affectsConfiguration('ejs.viewsRoot')) {
+      includeResolver.setViewsRoot(vscode.workspace.getConfiguration('ejs').get<string>('viewsRoot'));
+      workspaceIndex.refreshIncludeTargets();
+      renderCallIndex.refreshViewTargets();
+      vscode.workspace.textDocuments.forEach(document => diagnosticsProvider.updateDiagnostics(document));
+    }
+    if (
+      event.affectsConfiguration('ejs.diagnostics.undefinedVariables') ||
+      event.affectsConfiguration('ejs.diagnostics.unescapedOutput') ||
+      event.affectsConfiguration('ejs.diagnostics.taint') ||
+      event.affectsConfiguration('ejs.diagnostics.typeErrors')
+    ) {
+      configureUndefinedVariableRule();
+      configureUnescapedOutputRule();
+      configureTypeScriptRule();
+      vscode.workspace.textDocuments.forEach(document => diagnosticsProvider.updateDiagnostics(document));
+    }
+  });
+
+  // Re-parse all documents when a file declaring the locals of a template changes on disk
+  const schemaWatcher = vscode.workspace.createFileSystemWatcher('**/*.{ejs.d.ts,locals.json}');
+  const refreshLocalsSchemas = () => {
+    documentCache.clearAll();
+    vscode.workspace.textDocuments.forEach(document => diagnosticsProvider.updateDiagnostics(document));
+  };
+
+  context.subscriptions.push(
+    { dispose: () => pendingUpdates.forEach(timeout => clearTimeout(timeout)) },
+    documentChangeDisposable,
+    documentOpenDisposable,
+    documentCloseDisposable,
+    configurationChangeDisposable,
+    schemaWatcher,
+    schemaWatcher.onDidCreate(refreshLocalsSchemas),
+    schemaWatcher.onDidChange(refreshLocalsSchemas),
+    schemaWatcher.onDidDelete(refreshLocalsSchemas)
+  );
+
+  // Index the workspace in the background, then check open documents against the locals parents pass
+  workspaceIndex.initialize().then(
+    () => vscode.workspace.textDocuments.forEach(document => diagnosticsProvider.updateDiagnostics(document)),
+    // Cross-file features then only see the templates indexed as they are opened and edited
+    error => console.error('Error indexing EJS templates:', error)
+  );
+  context.subscriptions.push(workspaceIndex);
+
+  // Index the render calls of the controllers in the background, for Show Render Sites
+  renderCallIndex.initialize().catch(error => console.error('Error indexing res.render() calls:', error));
+  context.subscriptions.push(renderCallIndex);
+
+  // Check the documents that were open before activation
+  vscode.workspace.textDocuments.forEach(document => diagnosticsProvider.updateDiagnostics(document));
 
   // Add cursor manager to disposables
   context.subscriptions.push({
     dispose: () => cursorManager.dispose()
   });
 
+  // Add diagnostics to disposables
+  context.subscriptions.push({
+    dispose: () => diagnosticsProvider.dispose()
+  });
+
   // Add cache manager to disposables
   context.subscriptions.push({
     dispose: () => documentCache.dispose()
@@ -0,0 +1,86 @@
+/**
+ * Tests for the EJS include path resolver
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { IncludeResolver } from './includeResolver';
+
+describe('IncludeResolver', () => {
+  const files = new Set([
+    '/project/views/pages/home.ejs',
+    '/project/views/pages/partials/card.ejs',
+    '/project/views/partials/header.ejs',
+    '/project/views/components/ui/forms/input.ejs',
+    '/project/views/styles/theme.css'
+  ]);
+  const fromFile = '/project/views/pages/home.ejs';
+  let resolver: IncludeResolver;
+
+  beforeEach(() => {
+    resolver = new IncludeResolver(filePath => files.has(filePath));
+  });
+
+  it('should resolve paths relative to the including template', () => {
+    expect(resolver.resolve('partials/card.ejs', fromFile, '/project')).toBe('/project/views/pages/partials/card.ejs');
+    expect(resolver.resolve('../components/ui/forms/input.ejs', fromFile, '/project'))
+      .toBe('/project/views/components/ui/forms/input.ejs');
+  });
+
+  it('should append the .ejs extension to paths without one', () => {
+    expect(resolver.resolve('./partials/card', fromFile, '/project')).toBe('/project/views/pages/partials/card.ejs');
+    expect(resolver.resolve('../styles/theme.css', fromFile, '/project')).toBe('/project/views/styles/theme.css');
+  });
+
+  it('should fall back to the views root for relative paths', () => {
+    expect(resolver.resolve('partials/header', fromFile, '/project')).toBe('/project/views/partials/header.ejs');
+  });
+
+  it('should resolve absolute paths against the views root', () => {
+    expect(resolver.resolve('/components/ui/forms/input', fromFile, '/project'))
+      .toBe('/project/views/components/ui/forms/input.ejs');
+    expect(resolver.resolve('/partials/missing', fromFile, '/project')).toBeNull();
+  });
+
+  it('should use the configured views root', () => {
+    resolver.setViewsRoot('views/components');
+
+    expect(resolver.resolve('ui/forms/input', fromFile, '/project')).toBe('/project/views/components/ui/forms/input.ejs');
+
+    resolver.setViewsRoot('');
+    expect(resolver.resolve('partials/header', fromFile, '/project')).toBe('/project/views/partials/header.ejs');
+  });
+
+  it('should only resolve relative to the template outside a workspace folder', () => {
+    expect(resolver.resolve('partials/card', fromFile)).toBe('/project/views/pages/partials/card.ejs');
+    expect(resolver.resolve('partials/header', fromFile)).toBeNull();
+  });
+
+  it('should list candidates in lookup order', () => {
+    expect(resolver.getCandidates('partials/header', fromFile, '/project')).toEqual([
+      '/project/views/pages/partials/header.ejs',
+      '/project/views/partials/header.ejs'
+    ]);
+    expect(resolver.getCandidates('', fromFile, '/project')).toEqual([]);
+  });
+
+  it('should list the directories a partially typed path completes from', () => {
+    expect(resolver.getSearchDirectories('partials/ca', fromFile, '/project')).toEqual([
+      '/project/views/pages/partials',
+      '/project/views/partials'
+    ]);
+    expect(resolver.getSearchDirectories('/components/', fromFile, '/project')).toEqual(['/project/views/components']);
+    expect(resolver.getSearchDirectories('', '/project/views/home.ejs', '/project')).toEqual(['/project/views']);
+  });
+
+  it('should resolve res.render() view names against the views root', () => {
+    expect(resolver.resolveView('pages/home', '/project')).toBe('/project/views/pages/home.ejs');
+    expect(resolver.resolveView('components/ui/forms/input.ejs', '/project')).toBe('/project/views/components/ui/forms/input.ejs');
+    expect(resolver.resolveView('home', '/project')).toBeNull();
+    expect(resolver.resolveView('pages/home')).toBeNull();
+    expect(resolver.getViewCandidates('channels/form-modal', '/project')).toEqual([
+      '/project/views/channels/form-modal.ejs',
+      '/project/views/channels/form-modal/index.ejs'
+    ]);
+    expect(resolver.getViewSearchDirectory('channels/fo', '/project')).toBe('/project/views/channels');
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Resolution of EJS include paths to template files
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Extension EJS appends to include paths without one
+ */
+const DEFAULT_EXTENSION = '.ejs';
+
+/**
+ * Resolves include paths the way EJS does: relative to the including
+ * template, falling back to the views root like the EJS `views` option.
+ * EJS resolves absolute paths against its `root` option, for which the views
+ * root stands in, as apps usually point both at the same folder
+ */
+export class IncludeResolver {
+  private viewsRoot = 'views';
+
+  /**
+   * @param fileExists Checks whether a file exists, replaceable for tests
+   */
+  constructor(private fileExists: (filePath: string) => boolean = IncludeResolver.isFile) {}
+
+  /**
+   * Set the views root, relative to the workspace folder
+   * @param viewsRoot The configured views root; empty or undefined restores the default `views`
+   */
+  setViewsRoot(viewsRoot: string | undefined): void {
+    this.viewsRoot = viewsRoot && viewsRoot.trim() ? viewsRoot.trim() : 'views';
+  }
+
+  /**
+   * Resolve an include path to an existing template file
+   * @param includePath Path passed to `include()`
+   * @param fromFile Absolute path of the including template
+   * @param workspaceFolder Absolute path of the workspace folder containing the template, if any
+   * @returns Absolute path of the included template, or null if no candidate exists
+   */
+  resolve(includePath: string, fromFile: string, workspaceFolder?: string): string | null {
+    for (const candidate of this.getCandidates(includePath, fromFile, workspaceFolder)) {
+      if (this.fileExists(candidate)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Resolve an include path written in an open document
+   * @param includePath Path passed to `include()`
+   * @param document The including template
+   * @returns Absolute path of the included template, or null if no candidate exists
+   */
+  resolveFromDocument(includePath: string, document: vscode.TextDocument): string | null {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+    return this.resolve(includePath, document.uri.fsPath, workspaceFolder?.uri.fsPath);
+  }
+
+  /**
+   * Resolve the view name of a `res.render()` call to an existing template file
+   * @param view View name passed to `res.render()`
+   * @param workspaceFolder Absolute path of the workspace folder containing the calling file, if any
+   * @returns Absolute path of the rendered template, or null if no candidate exists
+   */
+  resolveView(view: string, workspaceFolder?: string): string | null {
+    for (const candidate of this.getViewCandidates(view, workspaceFolder)) {
+      if (this.fileExists(candidate)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the files a view name may refer to, in lookup order, the way Express
+   * looks views up: relative to the views root, then as the `index` template
+   * of a folder
+   * @param view View name passed to `res.render()`
+   * @param workspaceFolder Absolute path of the workspace folder containing the calling file, if any
+   * @returns Absolute candidate paths
+   */
+  getViewCandidates(view: string, workspaceFolder?: string): string[] {
+    if (!view) {
+      return [];
+    }
+
+    const extension = path.extname(view) || DEFAULT_EXTENSION;
+    const filePath = path.extname(view) ? view : view + DEFAULT_EXTENSION;
+    if (path.isAbsolute(view)) {
+      return [filePath];
+    }
+
+    const viewsRoot = this.getViewsRoot(workspaceFolder);
+    if (!viewsRoot) {
+      return [];
+    }
+    return [
+      path.resolve(viewsRoot, filePath),
+      path.resolve(viewsRoot, path.dirname(view), path.basename(view, path.extname(view)), `index${extension}`)
+    ];
+  }
+
+  /**
+   * Get the directory the views of a partially typed view name are listed from
+   * @param view View name typed so far; everything after its last `/` is ignored
+   * @param workspaceFolder Absolute path of the workspace folder containing the calling file, if any
+   * @returns Absolute directory, or null without a views root
+   */
+  getViewSearchDirectory(view: string, workspaceFolder?: string): string | null {
+    const directory = view.substring(0, view.lastIndexOf('/') + 1);
+    const viewsRoot = this.getViewsRoot(workspaceFolder);
+    return viewsRoot ? path.resolve(viewsRoot, directory) : null;
+  }
+
+  /**
+   * Get the files an include path may refer to, in lookup order
+   * @param includePath Path passed to `include()`
+   * @param fromFile Absolute path of the including template
+   * @param workspaceFolder Absolute path of the workspace folder containing the template, if any
+   * @returns Absolute candidate paths
+   */
+  getCandidates(includePath: string, fromFile: string, workspaceFolder?: string): string[] {
+    if (!includePath) {
+      return [];
+    }
+
+    const filePath = path.extname(includePath) ? includePath : includePath + DEFAULT_EXTENSION;
+    const viewsRoot = this.getViewsRoot(workspaceFolder);
+
+    // Absolute include paths are resolved against the views root, standing in for the EJS `root` option
+    if (filePath.startsWith('/')) {
+      return viewsRoot ? [path.join(viewsRoot, filePath)] : [filePath];
+    }
+
+    const candidates = [path.resolve(path.dirname(fromFile), filePath)];
+    if (viewsRoot) {
+      candidates.push(path.resolve(viewsRoot, filePath));
+    }
+    return candidates;
+  }
+
+  /**
+   * Get the directories the files of a partially typed include path are listed from
+   * @param includePath Path typed so far; everything after its last `/` is ignored
+   * @param fromFile Absolute path of the including template
+   * @param workspaceFolder Absolute path of the workspace folder containing the template, if any
+   * @returns Absolute directories, in lookup order and without duplicates
+   */
+  getSearchDirectories(includePath: string, fromFile: string, workspaceFolder?: string): string[] {
+    const directory = includePath.substring(0, includePath.lastIndexOf('/') + 1);
+    const viewsRoot = this.getViewsRoot(workspaceFolder);
+
+    // Absolute include paths are resolved against the views root, standing in for the EJS `root` option
+    if (directory.startsWith('/')) {
+      return [viewsRoot ? path.resolve(viewsRoot, `.${directory}`) : path.resolve(directory)];
+    }
+
+    const directories = [path.resolve(path.dirname(fromFile), directory)];
+    if (viewsRoot && !directories.includes(path.resolve(viewsRoot, directory))) {
+      directories.push(path.resolve(viewsRoot, directory));
+    }
+    return directories;
+  }
+
+  /**
+   * Get the absolute views root for a workspace folder
+   */
+  private getViewsRoot(workspaceFolder?: string): string | null {
+    if (path.isAbsolute(this.viewsRoot)) {
+      return this.viewsRoot;
+    }
+    return workspaceFolder ? path.resolve(workspaceFolder, this.viewsRoot) : null;
+  }
+
+  /**
+   * Check whether a path is an existing file
+   */
+  private static isFile(filePath: string): boolean {
+    try {
+      return fs.statSync(filePath).isFile();
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Tests for the loader of template locals schemas
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalsSchemaLoader } from './localsSchemaLoader';
+
+vi.mock('fs', async importOriginal => {
+  const actual = await importOriginal<typeof import('fs')>();
+  return { ...actual, readFileSync: vi.fn(actual.readFileSync) };
+});
+
+describe('LocalsSchemaLoader', () => {
+  let directory: string;
+  let template: string;
+  let loader: LocalsSchemaLoader;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ejs-schema-'));
+    template = path.join(directory, 'card.ejs');
+    loader = new LocalsSchemaLoader();
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should read the Locals interface of a .ejs.d.ts file', () => {
+    const text = [
+      "import { User } from './types';",
+      'export interface Locals {',
+      '  /** Title of the card */',
+      '  title: string;',
+      '  user?: User;',
+      "  'data-id': number;",
+      '}'
+    ].join('\n');
+    fs.writeFileSync(`${template}.d.ts`, text);
+
+    const schema = loader.getSchema(template)!;
+
+    expect(schema.file).toBe(`${template}.d.ts`);
+    expect(schema.locals.map(local => [local.name, local.type, local.description])).toEqual([
+      ['title', 'string', 'Title of the card'],
+      ['user', 'User', ''],
+      ['data-id', 'number', '']
+    ]);
+    expect(schema.locals[1].typeReference).toBe('import("./card.ejs").Locals["user"]');
+    expect(text.slice(schema.locals[0].start, schema.locals[0].end)).toBe('title');
+    expect(schema.required).toEqual(['title', 'data-id']);
+    expect(schema.allowsOtherLocals).toBe(false);
+  });
+
+  it('should accept other locals when the Locals type has an index signature', () => {
+    fs.writeFileSync(`${template}.d.ts`, 'export type Locals = { title: string; [name: string]: unknown };');
+
+    const schema = loader.getSchema(template)!;
+
+    expect(schema.locals.map(local => local.name)).toEqual(['title']);
+    expect(schema.allowsOtherLocals).toBe(true);
+  });
+
+  it('should read a JSON schema of the locals object', () => {
+    fs.writeFileSync(path.join(directory, 'card.locals.json'), JSON.stringify({
+      type: 'object',
+      required: ['title'],
+      properties: {
+        title: { type: 'string', description: 'Title of the card' },
+        tags: { type: 'array', items: { type: ['string', 'number'] } },
+        size: { enum: ['small', 'large'] },
+        author: { type: 'object', required: ['name'], properties: { name: { type: 'string' }, age: { type: 'integer' } } }
+      }
+    }, null, 2));
+
+    const schema = loader.getSchema(template)!;
+
+    expect(schema.locals.map(local => [local.name, local.type, local.description])).toEqual([
+      ['title', 'string', 'Title of the card'],
+      ['tags', '(string | number)[]', ''],
+      ['size', '"small" | "large"', ''],
+      ['author', '{ "name": string; "age"?: number }', '']
+    ]);
+    expect(schema.locals[0].typeReference).toBeUndefined();
+    expect(schema.required).toEqual(['title']);
+    expect(schema.allowsOtherLocals).toBe(false);
+  });
+
+  it('should prefer the declaration file, and reload a schema after it changes', () => {
+    fs.writeFileSync(path.join(directory, 'card.locals.json'), '{ "properties": { "fromJson": {} }, "additionalProperties": true }');
+    expect(loader.getSchema(template)!.locals.map(local => local.name)).toEqual(['fromJson']);
+    expect(loader.getSchema(template)!.allowsOtherLocals).toBe(true);
+
+    fs.writeFileSync(`${template}.d.ts`, 'export interface Locals { fromDeclaration: string }');
+    expect(loader.getSchema(template)!.locals.map(local => local.name)).toEqual(['fromDeclaration']);
+  });
+
+  it('should return null without a schema file or without a Locals type', () => {
+    expect(loader.getSchema(template)).toBeNull();
+
+    fs.writeFileSync(`${template}.d.ts`, 'export interface Props { title: string }');
+    expect(loader.getSchema(template)).toBeNull();
+  });
+
+  it('should return null when the schema file cannot be read', () => {
+    fs.writeFileSync(`${template}.d.ts`, 'export interface Locals { title: string }');
+    vi.mocked(fs.readFileSync).mockImplementationOnce(() => {
+      throw new Error('EACCES: permission denied');
+    });
+
+    expect(loader.getSchema(template)).toBeNull();
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Loader for the locals schemas declared next to EJS templates
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { LocalDeclaration, LocalsSchema } from '../types';
+
+/**
+ * Name of the type a `.ejs.d.ts` file declares the locals of its template with
+ */
+const LOCALS_TYPE_NAME = 'Locals';
+
+/**
+ * A loaded schema and the modification time of its file
+ */
+interface CachedSchema {
+  modified: number;
+  schema: LocalsSchema | null;
+}
+
+/**
+ * Finds and reads the file declaring the locals of a template, as an
+ * alternative to `@param` comments in the template itself:
+ *
+ * - `card.ejs.d.ts`, exporting an interface or type named `Locals`
+ * - `card.locals.json`, a JSON schema of the locals object
+ *
+ * Optional properties of the `Locals` type, and properties missing from the
+ * `required` list of the JSON schema, are optional locals. Locals the schema
+ * does not declare are rejected unless the type has an index signature or
+ * the JSON schema sets `additionalProperties`.
+ */
+export class LocalsSchemaLoader {
+  private cache: Map<string, CachedSchema> = new Map();
+
+  /**
+   * Get the locals schema of a template
+   * @param file Absolute path of the template
+   * @returns The schema of the `.ejs.d.ts` or `.locals.json` file next to it, or null without one
+   */
+  getSchema(file: string): LocalsSchema | null {
+    for (const schemaFile of this.getSchemaFiles(file)) {
+      const modified = this.getModifiedTime(schemaFile);
+      if (modified === null) {
+        continue;
+      }
+
+      const cached = this.cache.get(schemaFile);
+      if (cached?.modified === modified) {
+        return cached.schema;
+      }
+
+      let text: string;
+      try {
+        text = fs.readFileSync(schemaFile, 'utf8');
+      } catch {
+        // Deleted or made unreadable since it was found
+        return null;
+      }
+      const schema = schemaFile.endsWith('.d.ts')
+        ? this.readDeclarationFile(schemaFile, text, file)
+        : this.readJsonSchema(schemaFile, text);
+      this.cache.set(schemaFile, { modified, schema });
+      return schema;
+    }
+    return null;
+  }
+
+  /**
+   * Get the paths a template's schema may have, in order of precedence
+   */
+  private getSchemaFiles(file: string): string[] {
+    return [`${file}.d.ts`, `${file.replace(/\.ejs$/, '')}.locals.json`];
+  }
+
+  /**
+   * Read the properties of the `Locals` type of a declaration file
+   * @param schemaFile Absolute path of the declaration file
+   * @param text Content of the declaration file
+   * @param templateFile Absolute path of the template, which imports the declared types by its name
+   */
+  private readDeclarationFile(schemaFile: string, text: string, templateFile: string): LocalsSchema | null {
+    const sourceFile = ts.createSourceFile(schemaFile, text, ts.ScriptTarget.ES2020, true);
+
+    let members: ts.NodeArray<ts.TypeElement> | null = null;
+    for (const statement of sourceFile.statements) {
+      if (ts.isInterfaceDeclaration(statement) && statement.name.text === LOCALS_TYPE_NAME) {
+        members = statement.members;
+      } else if (
+        ts.isTypeAliasDeclaration(statement) &&
+        statement.name.text === LOCALS_TYPE_NAME &&
+        ts.isTypeLiteralNode(statement.type)
+      ) {
+        members = statement.type.members;
+      }
+    }
+    if (!members) {
+      return null;
+    }
+
+    // `import("./card.ejs")` resolves to `card.ejs.d.ts`
+    const module = JSON.stringify(`./${path.basename(templateFile)}`);
+    const locals: LocalDeclaration[] = [];
+    const required: string[] = [];
+    for (const member of members) {
+      if (!ts.isPropertySignature(member) || !(ts.isIdentifier(member.name) || ts.isStringLiteral(member.name))) {
+        continue;
+      }
+
+      const name = member.name.text;
+      locals.push({
+        name,
+        type: member.type?.getText(sourceFile) ?? 'any',
+        description: this.getDocComment(text, member),
+        start: member.name.getStart(sourceFile),
+        end: member.name.getEnd(),
+        file: schemaFile,
+        typeReference: `import(${module}).${LOCALS_TYPE_NAME}[${JSON.stringify(name)}]`
+      });
+      if (!member.questionToken) {
+        required.push(name);
+      }
+    }
+
+    return {
+      file: schemaFile,
+      locals,
+      required,
+      allowsOtherLocals: members.some(member => ts.isIndexSignatureDeclaration(member))
+    };
+  }
+
+  /**
+   * Get the text of the `/** *\/` comment before a declaration, without its asterisks
+   */
+  private getDocComment(text: string, node: ts.Node): string {
+    const comment = (ts.getLeadingCommentRanges(text, node.getFullStart()) ?? [])
+      .filter(range => text.startsWith('/**', range.pos))
+      .pop();
+    if (!comment) {
+      return '';
+    }
+
+    return text.slice(comment.pos + 3, comment.end - 2)
+      .split('\n')
+      .map(line => line.replace(/^\s*\*?\s?/, ''))
+      .join('\n')
+      .trim();
+  }
+
+  /**
+   * Read the properties of a JSON schema of the locals object
+   * @param schemaFile Absolute path of the schema
+   * @param text Content of the schema
+   */
+  private readJsonSchema(schemaFile: string, text: string): LocalsSchema | null {
+    let schema: unknown;
+    try {
+      schema = JSON.parse(text);
+    } catch {
+      return null;
+    }
+    if (!this.isObject(schema) || !this.isObject(schema.properties)) {
+      return null;
+    }
+
+    const locals: LocalDeclaration[] = [];
+    for (const [name, property] of Object.entries(schema.properties)) {
+      const key = new RegExp(`${this.escapeRegExp(JSON.stringify(name))}\\s*:`).exec(text);
+      const start = key ? key.index + 1 : 0;
+      locals.push({
+        name,
+        type: this.getJsonSchemaType(property),
+        description: this.isObject(property) && typeof property.description === 'string' ? property.description : '',
+        start,
+        end: start + name.length,
+        file: schemaFile
+      });
+    }
+
+    return {
+      file: schemaFile,
+      locals,
+      required: Array.isArray(schema.required) ? schema.required.filter((name: unknown) => typeof name === 'string') : [],
+      allowsOtherLocals: schema.additionalProperties !== undefined && schema.additionalProperties !== false
+    };
+  }
+
+  /**
+   * Check whether a parsed JSON value is an object, whose properties may be read
+   */
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+  }
+
+  /**
+   * Get the TypeScript type of a JSON schema
+   */
+  private getJsonSchemaType(schema: unknown): string {
+    if (!this.isObject(schema)) {
+      return 'any';
+    }
+    if (Array.isArray(schema.enum)) {
+      return schema.enum.map((value: unknown) => JSON.stringify(value)).join(' | ');
+    }
+    if (Array.isArray(schema.type)) {
+      return schema.type.map((type: unknown) => this.getJsonSchemaType({ ...schema, type })).join(' | ');
+    }
+
+    const type = schema.type;
+    switch (type) {
+      case 'string':
+      case 'number':
+      case 'boolean':
+      case 'null':
+        return type;
+      case 'integer':
+        return 'number';
+      case 'array':
+        return `${this.parenthesize(this.getJsonSchemaType(schema.items))}[]`;
+      case 'object': {
+        if (!this.isObject(schema.properties)) {
+          return 'Record<string, any>';
+        }
+        const required = new Set(Array.isArray(schema.required) ? schema.required : []);
+        const members = Object.entries(schema.properties).map(([name, property]) =>
+          `${JSON.stringify(name)}${required.has(name) ? '' : '?'}: ${this.getJsonSchemaType(property)}`
+        );
+        return `{ ${members.join('; ')} }`;
+      }
+      default:
+        return 'any';
+    }
+  }
+
+  /**
+   * Wrap a union in parentheses for use as an array element type
+   */
+  private parenthesize(type: string): string {
+    return type.includes(' | ') ? `(${type})` : type;
+  }
+
+  /**
+   * Escape the special characters of a regular expression
+   */
+  private escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  /**
+   * Get the modification time of a file
+   * @returns Milliseconds since the epoch, or null when the file does not exist
+   */
+  private getModifiedTime(file: string): number | null {
+    try {
+      const stats = fs.statSync(file);
+      return stats.isFile() ? stats.mtimeMs : null;
+    } catch {
+      return null;
+    }
+  }
+}
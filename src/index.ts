@@ -11,12 +11,46 @@ export * from './interfaces';
 
 // Core components
 export { EJSParser } from './parser/ejsParser';
+export { EJSTokenizer, DEFAULT_DELIMITERS } from './parser/ejsTokenizer';
 export { SymbolAnalyzer } from './analyzer/symbolAnalyzer';
 export { DocumentCacheManager } from './cache/documentCache';
 export { PerformanceMonitor } from './cache/performanceMonitor';
+export { IncludeResolver } from './includes/includeResolver';
+export { LocalsSchemaLoader } from './includes/localsSchemaLoader';
+export { WorkspaceIndex } from './workspace/workspaceIndex';
+export { RenderCallIndex } from './workspace/renderCallIndex';
+export { EJSTypeScriptService } from './typescript/typeScriptService';
+export { VirtualTypeScriptDocument } from './typescript/virtualDocument';
 
 // VS Code providers
 export { EJSDefinitionProvider } from './providers/definitionProvider';
 export { EJSHoverProvider } from './providers/hoverProvider';
 export { EJSVisualFeedbackProvider } from './providers/visualFeedbackProvider';
-export { EJSCursorManager } from './providers/cursorManager';
\ No newline at end of file
+export { EJSCursorManager } from './providers/cursorManager';
+export { EJSSemanticTokensProvider } from './providers/semanticTokensProvider';
+export { EJSReferenceProvider } from './providers/referenceProvider';
+export { EJSRenameProvider } from './providers/renameProvider';
+export { EJSDocumentLinkProvider } from './providers/documentLinkProvider';
+export { EJSRenderLinkProvider } from './providers/renderLinkProvider';
+export { EJSCallHierarchyProvider } from './providers/callHierarchyProvider';
+export { EJSCompletionProvider } from './providers/completionProvider';
+export { EJSRenderCompletionProvider } from './providers/renderCompletionProvider';
+export { EJSSignatureHelpProvider } from './providers/signatureHelpProvider';
+export { EJSCodeActionProvider } from './providers/codeActionProvider';
+
+// Diagnostics
+export { EJSDiagnosticsProvider } from './diagnostics/diagnosticsProvider';
+export { UnresolvedIncludeRule } from './diagnostics/rules/unresolvedIncludeRule';
+export { IncludeLocalsRule } from './diagnostics/rules/includeLocalsRule';
+export { SyntaxErrorRule } from './diagnostics/rules/syntaxErrorRule';
+export { BlockBalanceRule } from './diagnostics/rules/blockBalanceRule';
+export { UndefinedVariableRule } from './diagnostics/rules/undefinedVariableRule';
+export { UnusedVariableRule } from './diagnostics/rules/unusedVariableRule';
+export { UnescapedOutputRule } from './diagnostics/rules/unescapedOutputRule';
+export { TaintedOutputRule } from './diagnostics/rules/taintedOutputRule';
+export { OutputContextRule } from './diagnostics/rules/outputContextRule';
+export { TypeScriptRule } from './diagnostics/rules/typeScriptRule';
+
+// Commands
+export { EJSFindIncludeReferencesCommand } from './commands/findIncludeReferencesCommand';
+export { EJSShowRenderSitesCommand } from './commands/showRenderSitesCommand';
\ No newline at end of file
@@ -3,7 +3,7 @@
  */
 
 import * as vscode from 'vscode';
-import { JavaScriptBlock, ParsedEJSDocument, SymbolInfo, SymbolDefinition } from './types';
+import { EJSDelimiters, FreeVariable, IncludeCall, IncludeCallSite, JavaScriptBlock, ParsedEJSDocument, SymbolInfo, SymbolDefinition, TemplateIndexEntry, TemplateNode, UnusedDeclaration, TaintFlow, TemplateSyntaxError, TypeScriptCompletion, TypeScriptDiagnostic, TypeScriptQuickInfo, TypeScriptSignatureHelp } from './types';
 
 /**
  * Interface for parsing EJS templates and extracting JavaScript blocks
@@ -16,6 +16,20 @@ export interface IEJSParser {
    */
   parseDocument(document: vscode.TextDocument): ParsedEJSDocument;
 
+  /**
+   * Tokenize EJS template content into a template AST
+   * @param content The EJS template content as string
+   * @returns Text, tag, comment and literal nodes in document order
+   */
+  tokenize(content: string): TemplateNode[];
+
+  /**
+   * Get the delimiters a template is written with
+   * @param content The EJS template content as string
+   * @returns Delimiters from the file's delimiter directive, or the configured delimiters
+   */
+  getDelimiters(content: string): EJSDelimiters;
+
   /**
    * Extract JavaScript code blocks from EJS template content
    * @param content The EJS template content as string
@@ -42,6 +56,58 @@ export interface ISymbolAnalyzer {
    * @returns Symbol information if found, null otherwise
    */
   findDefinition(symbolName: string, position: vscode.Position): SymbolInfo | null;
+
+  /**
+   * Find the symbols visible at a position
+   * @param position Position within a JavaScript block
+   * @returns Symbol information of the visible names, innermost scope first
+   */
+  findVisibleSymbols(position: vscode.Position): SymbolInfo[];
+
+  /**
+   * Check whether a symbol can be renamed without changing what any name refers to
+   * @param symbol Symbol returned by the last analysis
+   * @param newName The proposed name
+   * @returns True if the new name collides with no other declaration or use
+   */
+  isNameAvailable(symbol: SymbolInfo, newName: string): boolean;
+
+  /**
+   * Find the `include()` calls of a template
+   * @param jsBlocks Array of JavaScript blocks to analyze
+   * @returns Include calls in document order
+   */
+  findIncludes(jsBlocks: JavaScriptBlock[]): IncludeCall[];
+
+  /**
+   * Find the names a template uses without declaring them
+   * @param jsBlocks Array of JavaScript blocks to analyze
+   * @returns Free variables in order of first use
+   */
+  findFreeVariables(jsBlocks: JavaScriptBlock[]): FreeVariable[];
+
+  /**
+   * Find the variables a template declares but never reads
+   * @param jsBlocks Array of JavaScript blocks to analyze
+   * @returns Unused variables in source order
+   */
+  findUnusedDeclarations(jsBlocks: JavaScriptBlock[]): UnusedDeclaration[];
+
+  /**
+   * Find the syntax error of the JavaScript of a template
+   * @param jsBlocks Array of JavaScript blocks to analyze
+   * @returns The first syntax error, mapped to the template, or null if the template compiles
+   */
+  findSyntaxError(jsBlocks: JavaScriptBlock[]): TemplateSyntaxError | null;
+
+  /**
+   * Find the output tags writing values derived from untrusted locals
+   * @param jsBlocks Array of JavaScript blocks to analyze
+   * @param sources Untrusted locals, such as `query` or `user.*`
+   * @param barriers Names of the functions whose result is trusted
+   * @returns Flows of untrusted values into output tags, in source order
+   */
+  findTaintFlows(jsBlocks: JavaScriptBlock[], sources: string[], barriers: string[]): TaintFlow[];
 }
 
 /**
@@ -131,4 +197,108 @@ export interface IDocumentCache {
    * Dispose of the cache manager and cleanup resources
    */
   dispose(): void;
-}
\ No newline at end of file
+}
+
+/**
+ * Interface for the index of every EJS template in the workspace
+ */
+export interface IWorkspaceIndex {
+  /**
+   * Wait until the initial scan of the workspace has finished
+   */
+  whenReady(): Promise<void>;
+
+  /**
+   * Get what the index records about a template
+   * @param file Absolute path of the template
+   * @returns The index entry, or undefined if the template is not indexed
+   */
+  getTemplate(file: string): TemplateIndexEntry | undefined;
+
+  /**
+   * Get every indexed template
+   * @returns Index entries in no particular order
+   */
+  getTemplates(): TemplateIndexEntry[];
+
+  /**
+   * Find the include() calls across the workspace that render a template
+   * @param file Absolute path of the included template
+   * @returns Include calls resolving to the template
+   */
+  findCallSites(file: string): Promise<IncludeCallSite[]>;
+
+  /**
+   * Get the include() calls rendering a template among the templates indexed so far
+   * @param file Absolute path of the included template
+   * @returns Include calls resolving to the template, without waiting for the initial scan
+   */
+  getCallSites(file: string): IncludeCallSite[];
+
+  /**
+   * Find the include() calls of a template that resolve to another template
+   * @param file Absolute path of the including template
+   * @returns Resolved include calls in document order
+   */
+  findIncludedTemplates(file: string): Promise<IncludeCallSite[]>;
+}
+
+/**
+ * Interface for a check reporting problems in EJS templates
+ */
+export interface IDiagnosticRule {
+  /**
+   * Identifier of the rule, used as the diagnostic code
+   */
+  readonly id: string;
+
+  /**
+   * Check a parsed template for problems
+   * @param document The document being checked
+   * @param parsedDocument The parsed document
+   * @returns Diagnostics found by the rule
+   */
+  check(document: vscode.TextDocument, parsedDocument: ParsedEJSDocument): vscode.Diagnostic[];
+}
+
+/**
+ * Interface for the TypeScript language service of EJS templates
+ */
+export interface ITypeScriptService {
+  /**
+   * Get the completions at a template offset
+   * @param document The template
+   * @param offset Offset within the template
+   * @returns Completions, empty outside JavaScript blocks
+   */
+  getCompletions(document: vscode.TextDocument, offset: number): TypeScriptCompletion[];
+
+  /**
+   * Get the type information at a template offset
+   * @param document The template
+   * @param offset Offset within the template
+   * @returns The declaration and type of the name at the offset, or null
+   */
+  getQuickInfo(document: vscode.TextDocument, offset: number): TypeScriptQuickInfo | null;
+
+  /**
+   * Get the signatures of the call surrounding a template offset
+   * @param document The template
+   * @param offset Offset within the template
+   * @returns The signatures, or null outside the arguments of a call
+   */
+  getSignatureHelp(document: vscode.TextDocument, offset: number): TypeScriptSignatureHelp | null;
+
+  /**
+   * Get the type errors of a template
+   * @param document The template
+   * @returns Errors mapped to template offsets
+   */
+  getDiagnostics(document: vscode.TextDocument): TypeScriptDiagnostic[];
+
+  /**
+   * Forget the virtual document of a closed template
+   * @param uri URI of the template
+   */
+  closeDocument(uri: vscode.Uri): void;
+}
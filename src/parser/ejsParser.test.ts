@@ -3,8 +3,10 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
+import * as vscode from 'vscode';
 import { EJSParser } from './ejsParser';
-import { JavaScriptBlock, EJSTagType } from '../types';
+import { LocalsSchemaLoader } from '../includes/localsSchemaLoader';
+import { JavaScriptBlock, EJSTagType, LocalsSchema } from '../types';
 
 describe('EJSParser', () => {
   let parser: EJSParser;
@@ -25,7 +27,9 @@ describe('EJSParser', () => {
         endLine: 0,
         startCharacter: 3,
         endCharacter: 23,
-        tagType: 'scriptlet'
+        tagType: 'scriptlet',
+        startOffset: 3,
+        endOffset: 23
       });
     });
 
@@ -40,7 +44,9 @@ describe('EJSParser', () => {
         endLine: 0,
         startCharacter: 4,
         endCharacter: 12,
-        tagType: 'unescaped'
+        tagType: 'unescaped',
+        startOffset: 4,
+        endOffset: 12
       });
     });
 
@@ -55,7 +61,9 @@ describe('EJSParser', () => {
         endLine: 0,
         startCharacter: 4,
         endCharacter: 14,
-        tagType: 'output'
+        tagType: 'output',
+        startOffset: 4,
+        endOffset: 14
       });
     });
 
@@ -236,6 +244,151 @@ Line 3
       expect(blocks[3].content).toBe('}');
       expect(blocks[4].content).toBe('});');
     });
+
+    it('should not end a block at a closing delimiter inside a string', () => {
+      const content = `<% const marker = '%>'; %><%= marker %>`;
+      const blocks = parser.extractJavaScriptBlocks(content);
+
+      expect(blocks).toHaveLength(2);
+      expect(blocks[0].content).toBe(`const marker = '%>';`);
+      expect(blocks[1].content).toBe('marker');
+    });
+
+    it('should skip comment tags and literals', () => {
+      const content = '<%# const hidden = 1; %><%% not code %><%= shown %>';
+      const blocks = parser.extractJavaScriptBlocks(content);
+
+      expect(blocks).toHaveLength(1);
+      expect(blocks[0].content).toBe('shown');
+      expect(blocks[0].tagType).toBe('output');
+    });
+
+    it('should skip tags without a closing delimiter', () => {
+      const blocks = parser.extractJavaScriptBlocks('<%= done %><%= pending');
+
+      expect(blocks).toHaveLength(1);
+      expect(blocks[0].content).toBe('done');
+    });
+
+    it('should record offsets matching the block content', () => {
+      const content = `<div>\n  <%=   user.name   %>\n</div>`;
+      const blocks = parser.extractJavaScriptBlocks(content);
+
+      expect(blocks).toHaveLength(1);
+      expect(content.substring(blocks[0].startOffset!, blocks[0].endOffset!)).toBe('user.name');
+      expect(blocks[0].startLine).toBe(1);
+      expect(blocks[0].startCharacter).toBe(8);
+    });
+  });
+
+  describe('whitespace control', () => {
+    it('should strip the slurp markers of <%_ and _%> from block content', () => {
+      const content = '<%_ if (user) { _%>\n  <%= user.name %>\n<%_ } _%>';
+      const blocks = parser.extractJavaScriptBlocks(content);
+
+      expect(blocks).toHaveLength(3);
+      expect(blocks[0]).toMatchObject({
+        content: 'if (user) {',
+        startLine: 0,
+        startCharacter: 4,
+        openModifier: 'slurp',
+        closeModifier: 'slurp'
+      });
+      expect(blocks[2].content).toBe('}');
+    });
+
+    it('should strip the trim-newline marker of -%> from block content', () => {
+      const content = '<% const items = []; -%>\n<%- items.join("") -%>';
+      const blocks = parser.extractJavaScriptBlocks(content);
+
+      expect(blocks).toHaveLength(2);
+      expect(blocks[0]).toMatchObject({ content: 'const items = [];', closeModifier: 'trim-newline' });
+      expect(blocks[1]).toMatchObject({ content: 'items.join("")', tagType: 'unescaped', closeModifier: 'trim-newline' });
+      expect(blocks[1].endCharacter).toBe(18);
+    });
+
+    it('should not produce blocks for literal delimiters', () => {
+      const blocks = parser.extractJavaScriptBlocks('<%% literal %%> <%= real %>');
+
+      expect(blocks).toHaveLength(1);
+      expect(blocks[0].content).toBe('real');
+    });
+  });
+
+  describe('custom delimiters', () => {
+    it('should use the configured delimiters', () => {
+      parser.setDelimiters({ delimiter: '?', openDelimiter: '[', closeDelimiter: ']' });
+      const blocks = parser.extractJavaScriptBlocks('[? const name = "test"; ?]<p>[?= name ?]</p><%= ignored %>');
+
+      expect(blocks).toHaveLength(2);
+      expect(blocks[0]).toMatchObject({ content: 'const name = "test";', tagType: 'scriptlet', startCharacter: 3 });
+      expect(blocks[1]).toMatchObject({ content: 'name', tagType: 'output' });
+    });
+
+    it('should fall back to the defaults for missing configuration values', () => {
+      parser.setDelimiters({ delimiter: '?' });
+
+      expect(parser.getDelimiters('')).toEqual({ delimiter: '?', openDelimiter: '<', closeDelimiter: '>' });
+
+      parser.setDelimiters(undefined);
+
+      expect(parser.getDelimiters('')).toEqual({ delimiter: '%', openDelimiter: '<', closeDelimiter: '>' });
+    });
+
+    it('should let a file directive override the configured delimiters', () => {
+      parser.setDelimiters({ delimiter: '?' });
+      const content = '<!-- ejs-delimiters: {% %} -->\n{%- html %}{%_ if (a) { _%}';
+      const blocks = parser.extractJavaScriptBlocks(content);
+
+      expect(parser.getDelimiters(content)).toEqual({ delimiter: '%', openDelimiter: '{', closeDelimiter: '}' });
+      expect(blocks).toHaveLength(2);
+      expect(blocks[0]).toMatchObject({ content: 'html', tagType: 'unescaped', startLine: 1 });
+      expect(blocks[1]).toMatchObject({ content: 'if (a) {', openModifier: 'slurp', closeModifier: 'slurp' });
+    });
+
+    it('should ignore an invalid directive', () => {
+      const content = '<!-- ejs-delimiters: [? %] -->\n<%= value %>';
+
+      expect(parser.getDelimiters(content)).toEqual({ delimiter: '%', openDelimiter: '<', closeDelimiter: '>' });
+      expect(parser.extractJavaScriptBlocks(content)).toHaveLength(1);
+    });
+
+    it('should record the delimiters on the parsed document', () => {
+      const result = parser.parseDocument({ getText: () => '<!-- ejs-delimiters: [? ?] -->\n[?= a ?]' } as any);
+
+      expect(result.delimiters).toEqual({ delimiter: '?', openDelimiter: '[', closeDelimiter: ']' });
+      expect(result.jsBlocks[0].content).toBe('a');
+    });
+  });
+
+  describe('tokenize', () => {
+    it('should return the template AST including text nodes', () => {
+      const nodes = parser.tokenize('<h1><%= title %></h1>');
+
+      expect(nodes.map(node => node.type)).toEqual(['text', 'output', 'text']);
+    });
+
+    it('should annotate output tags with the HTML context they write into', () => {
+      const nodes = parser.tokenize([
+        '<p title="<%= title %>" data-id=<%= id %>><%= text %></p>',
+        '<a href="<%= url %>?page=<%- page %>" onclick="go(<%= id %>)">',
+        '<!-- <a href="<%= ignored %>"> --><script>var x = <%= x %>;</script><style><%= css %></style>',
+        '<div <% if (hidden) { %>hidden<% } %> style="color: <%= color %>"></div>'
+      ].join('\n')).filter(node => node.type === 'output' || node.type === 'unescaped');
+
+      expect(nodes.map(node => node.htmlContext)).toEqual([
+        { kind: 'attribute', attribute: 'title', quoted: true, atValueStart: true },
+        { kind: 'attribute', attribute: 'data-id', quoted: false, atValueStart: true },
+        { kind: 'text', quoted: false, atValueStart: false },
+        { kind: 'url', attribute: 'href', quoted: true, atValueStart: true },
+        { kind: 'url', attribute: 'href', quoted: true, atValueStart: false },
+        { kind: 'script', attribute: 'onclick', quoted: true, atValueStart: false },
+        { kind: 'text', quoted: false, atValueStart: false },
+        { kind: 'script', quoted: false, atValueStart: false },
+        { kind: 'style', quoted: false, atValueStart: false },
+        { kind: 'style', attribute: 'style', quoted: true, atValueStart: false }
+      ]);
+    });
   });
 
   describe('parseDocument', () => {
@@ -250,7 +403,7 @@ Line 3
       expect(result.jsBlocks).toHaveLength(2);
       expect(result.jsBlocks[0].content).toBe('const test = "value";');
       expect(result.jsBlocks[1].content).toBe('test');
-      expect(result.symbols).toEqual([]); // Symbols will be implemented later
+      expect(result.nodes!.map(node => node.type)).toEqual(['scriptlet', 'text', 'output']);
     });
 
     it('should handle empty document', () => {
@@ -261,7 +414,7 @@ Line 3
       const result = parser.parseDocument(mockDocument);
 
       expect(result.jsBlocks).toHaveLength(0);
-      expect(result.symbols).toEqual([]);
+      expect(result.nodes).toEqual([]);
     });
 
     it('should handle document with no EJS tags', () => {
@@ -272,7 +425,60 @@ Line 3
       const result = parser.parseDocument(mockDocument);
 
       expect(result.jsBlocks).toHaveLength(0);
-      expect(result.symbols).toEqual([]);
+      expect(result.nodes!.map(node => node.type)).toEqual(['text']);
+    });
+
+    it('should find the locals declared in JSDoc comments', () => {
+      const content = [
+        '<%#',
+        "  @param {import('../types').User} user The signed-in user",
+        '  @param {string} [locals.title="Home"] - Page title',
+        '  @locals {{ items: Array<{ id: number }>, format?: (value: number) => string; total: number }}',
+        '%>'
+      ].join('\n');
+
+      const result = parser.parseDocument({ getText: () => content } as any);
+
+      expect(result.localDeclarations!.map(local => [local.name, local.type, local.description])).toEqual([
+        ['user', "import('../types').User", 'The signed-in user'],
+        ['title', 'string', 'Page title'],
+        ['items', 'Array<{ id: number }>', ''],
+        ['format', '(value: number) => string', ''],
+        ['total', 'number', '']
+      ]);
+      expect(content.slice(result.localDeclarations![0].start, result.localDeclarations![0].end)).toBe('user');
+      expect(content.slice(result.localDeclarations![1].start, result.localDeclarations![1].end)).toBe('title');
+      expect(content.slice(result.localDeclarations![3].start, result.localDeclarations![3].end)).toBe('format');
+    });
+
+    it('should ignore tags outside comments and tags without a type', () => {
+      const result = parser.parseDocument({
+        getText: () => '<% /* @param {string} title */ %><%# @param title %><!-- @param {string} name -->'
+      } as any);
+
+      expect(result.localDeclarations).toEqual([]);
+    });
+
+    it('should add the locals of the schema file not declared in a comment', () => {
+      const schema: LocalsSchema = {
+        file: '/project/views/card.ejs.d.ts',
+        locals: ['title', 'user'].map(name => ({ name, type: 'string', description: '', start: 0, end: 0, file: '/project/views/card.ejs.d.ts' })),
+        required: [],
+        allowsOtherLocals: false
+      };
+      parser.setLocalsSchemaLoader({
+        getSchema: (file: string) => file === vscode.Uri.file('/project/views/card.ejs').fsPath ? schema : null
+      } as unknown as LocalsSchemaLoader);
+
+      const result = parser.parseDocument({
+        uri: vscode.Uri.file('/project/views/card.ejs'),
+        getText: () => '<%# @param {number} title %>'
+      } as any);
+
+      expect(result.localDeclarations!.map(local => [local.name, local.type, local.file])).toEqual([
+        ['title', 'number', undefined],
+        ['user', 'string', '/project/views/card.ejs.d.ts']
+      ]);
     });
   });
 });
\ No newline at end of file
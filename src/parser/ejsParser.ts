@@ -4,102 +4,212 @@
 
 import * as vscode from 'vscode';
 import { IEJSParser } from '../interfaces';
-import { JavaScriptBlock, ParsedEJSDocument } from '../types';
+import { EJSDelimiters, EJSTagType, JavaScriptBlock, LocalDeclaration, ParsedEJSDocument, TemplateNode, TemplateNodeType } from '../types';
+import { DEFAULT_DELIMITERS, EJSTokenizer } from './ejsTokenizer';
+import { HtmlContextAnalyzer } from '../analyzer/htmlContextAnalyzer';
+import { BlockStructureAnalyzer } from '../analyzer/blockStructureAnalyzer';
+import { LocalDeclarationAnalyzer } from '../analyzer/localDeclarationAnalyzer';
+import { LocalsSchemaLoader } from '../includes/localsSchemaLoader';
+
+/**
+ * Magic comment that overrides the delimiters of a single file, written as an
+ * example opening and closing tag: `<!-- ejs-delimiters: [? ?] -->`
+ */
+const DELIMITER_DIRECTIVE = /ejs-delimiters:\s*(\S+)\s+(\S+)/;
+
+/**
+ * Number of characters at the top of a file searched for the delimiter directive
+ */
+const DELIMITER_DIRECTIVE_SEARCH_LENGTH = 1000;
 
 /**
  * Parses EJS templates to extract JavaScript code blocks and identify symbols
  */
 export class EJSParser implements IEJSParser {
+  private tokenizer = new EJSTokenizer();
+  private contextAnalyzer = new HtmlContextAnalyzer();
+  private structureAnalyzer = new BlockStructureAnalyzer();
+  private declarationAnalyzer = new LocalDeclarationAnalyzer();
+  private delimiters: EJSDelimiters = DEFAULT_DELIMITERS;
+  private schemaLoader: LocalsSchemaLoader | null = null;
+  private lineStartsContent: string | undefined;
+  private lineStarts: number[] | undefined;
+
+  /**
+   * Set the delimiters used for templates without a delimiter directive
+   * @param delimiters Delimiter configuration; missing or empty values fall back to the EJS defaults
+   */
+  setDelimiters(delimiters: Partial<EJSDelimiters> | undefined): void {
+    const valueOrDefault = (value: unknown, fallback: string): string =>
+      typeof value === 'string' && value.length > 0 ? value : fallback;
+
+    this.delimiters = {
+      delimiter: valueOrDefault(delimiters?.delimiter, DEFAULT_DELIMITERS.delimiter),
+      openDelimiter: valueOrDefault(delimiters?.openDelimiter, DEFAULT_DELIMITERS.openDelimiter),
+      closeDelimiter: valueOrDefault(delimiters?.closeDelimiter, DEFAULT_DELIMITERS.closeDelimiter)
+    };
+  }
+
+  /**
+   * Set the loader of the schema files declaring the locals of templates next to them
+   * @param loader The loader, or null to only read the locals declared in comments
+   */
+  setLocalsSchemaLoader(loader: LocalsSchemaLoader | null): void {
+    this.schemaLoader = loader;
+  }
+
   /**
-   * Parse an EJS document and extract JavaScript blocks and symbols
+   * Get the delimiters a template is written with
+   * @param content The EJS template content as string
+   * @returns Delimiters from the file's directive, or the configured delimiters
+   */
+  getDelimiters(content: string): EJSDelimiters {
+    return this.parseDelimiterDirective(content) ?? this.delimiters;
+  }
+
+  /**
+   * Parse an EJS document into its template AST and JavaScript blocks
    * @param document The VS Code text document to parse
-   * @returns Parsed document with JavaScript blocks and symbols
+   * @returns Parsed document with the template AST, JavaScript blocks and the structure and locals found in them
    */
   parseDocument(document: vscode.TextDocument): ParsedEJSDocument {
     const content = document.getText();
-    const jsBlocks = this.extractJavaScriptBlocks(content);
-    
-    // Note: Symbol analysis will be implemented in a later task
-    // For now, return empty symbols array
+    const delimiters = this.getDelimiters(content);
+    const nodes = this.createNodes(content, delimiters);
+    const jsBlocks = this.createJavaScriptBlocks(content, nodes);
+
     return {
       jsBlocks,
-      symbols: []
+      nodes,
+      delimiters,
+      blockIssues: this.structureAnalyzer.analyze(nodes),
+      localDeclarations: this.findLocalDeclarations(document, nodes)
     };
   }
 
+  /**
+   * Tokenize EJS template content into a template AST
+   * @param content The EJS template content as string
+   * @returns Template nodes in document order, output tags annotated with their HTML context
+   */
+  tokenize(content: string): TemplateNode[] {
+    return this.createNodes(content, this.getDelimiters(content));
+  }
+
   /**
    * Extract JavaScript code blocks from EJS template content
    * @param content The EJS template content as string
    * @returns Array of JavaScript blocks found in the template
    */
   extractJavaScriptBlocks(content: string): JavaScriptBlock[] {
+    return this.createJavaScriptBlocks(content, this.tokenize(content));
+  }
+
+  /**
+   * Find the locals declared in the comments of a template and in its schema file
+   * @param document The template
+   * @param nodes Template nodes in document order
+   * @returns Declarations of the comments, then those of the schema not declared in a comment
+   */
+  private findLocalDeclarations(document: vscode.TextDocument, nodes: TemplateNode[]): LocalDeclaration[] {
+    const declarations = this.declarationAnalyzer.analyze(nodes);
+    if (!this.schemaLoader || document.uri?.scheme !== 'file') {
+      return declarations;
+    }
+
+    const declaredNames = new Set(declarations.map(declaration => declaration.name));
+    const schema = this.schemaLoader.getSchema(document.uri.fsPath);
+    return [...declarations, ...(schema?.locals ?? []).filter(local => !declaredNames.has(local.name))];
+  }
+
+  /**
+   * Build the template AST and find the HTML context of its output tags
+   * @param content The EJS template content as string
+   * @param delimiters Delimiters the template is written with
+   * @returns Template nodes in document order
+   */
+  private createNodes(content: string, delimiters: EJSDelimiters): TemplateNode[] {
+    const nodes = this.tokenizer.tokenize(content, delimiters);
+    this.contextAnalyzer.annotate(nodes);
+    return nodes;
+  }
+
+  /**
+   * Build JavaScript blocks from the JavaScript tags of a template AST
+   * @param content The EJS template content the nodes were produced from
+   * @param nodes Template nodes in document order
+   * @returns Array of non-empty JavaScript blocks in document order
+   */
+  private createJavaScriptBlocks(content: string, nodes: TemplateNode[]): JavaScriptBlock[] {
     const blocks: JavaScriptBlock[] = [];
-    const lines = content.split('\n');
-    
-    // Regex patterns for different EJS tag types
-    // Order matters: more specific patterns first
-    const patterns = [
-      {
-        // Unescaped output tags: <%- expression %>
-        regex: /<%-\s*((?:(?!%>)[\s\S])*?)\s*%>/g,
-        tagType: 'unescaped' as const
-      },
-      {
-        // Escaped output tags: <%= expression %>
-        regex: /<%=\s*((?:(?!%>)[\s\S])*?)\s*%>/g,
-        tagType: 'output' as const
-      },
-      {
-        // Scriptlet tags: <% code %> (must be last to avoid matching <%- and <%=)
-        regex: /<%(?![-=])\s*((?:(?!%>)[\s\S])*?)\s*%>/g,
-        tagType: 'scriptlet' as const
+
+    for (const node of nodes) {
+      // Only closed JavaScript tags carry code; comments and literals render nothing executable
+      if (!node.closed || !this.isJavaScriptTag(node.type)) {
+        continue;
       }
-    ];
-
-    // Process each pattern
-    for (const pattern of patterns) {
-      let match;
-      pattern.regex.lastIndex = 0; // Reset regex state
-      
-      while ((match = pattern.regex.exec(content)) !== null) {
-        const fullMatch = match[0];
-        const jsCode = match[1].trim();
-        
-        // Skip empty blocks
-        if (!jsCode) {
-          continue;
-        }
-        
-        // Calculate position information
-        const startIndex = match.index;
-        const endIndex = startIndex + fullMatch.length;
-        
-        // Find line and character positions
-        const startPos = this.getLineAndCharacter(content, startIndex);
-        const endPos = this.getLineAndCharacter(content, endIndex);
-        
-        // Calculate the actual JavaScript content position within the tag
-        const jsStartIndex = startIndex + fullMatch.indexOf(jsCode);
-        const jsStartPos = this.getLineAndCharacter(content, jsStartIndex);
-        
-        blocks.push({
-          content: jsCode,
-          startLine: jsStartPos.line,
-          endLine: jsStartPos.line + (jsCode.split('\n').length - 1),
-          startCharacter: jsStartPos.character,
-          endCharacter: jsStartPos.character + jsCode.length,
-          tagType: pattern.tagType
-        });
+
+      const jsCode = node.content.trim();
+
+      // Skip empty blocks
+      if (!jsCode) {
+        continue;
       }
+
+      // Calculate the actual JavaScript content position within the tag
+      const jsStartIndex = node.contentStart + node.content.indexOf(jsCode);
+      const jsStartPos = this.getLineAndCharacter(content, jsStartIndex);
+
+      blocks.push({
+        content: jsCode,
+        startLine: jsStartPos.line,
+        endLine: jsStartPos.line + (jsCode.split('\n').length - 1),
+        startCharacter: jsStartPos.character,
+        endCharacter: jsStartPos.character + jsCode.length,
+        tagType: node.type,
+        openModifier: node.openModifier,
+        closeModifier: node.closeModifier,
+        startOffset: jsStartIndex,
+        endOffset: jsStartIndex + jsCode.length
+      });
     }
-    
-    // Sort blocks by position for consistent ordering
-    return blocks.sort((a, b) => {
-      if (a.startLine !== b.startLine) {
-        return a.startLine - b.startLine;
-      }
-      return a.startCharacter - b.startCharacter;
-    });
+
+    return blocks;
+  }
+
+  /**
+   * Read the delimiter directive at the top of a template
+   * @param content The EJS template content
+   * @returns Delimiters declared by the directive, or null if there is no valid directive
+   */
+  private parseDelimiterDirective(content: string): EJSDelimiters | null {
+    const match = DELIMITER_DIRECTIVE.exec(content.substring(0, DELIMITER_DIRECTIVE_SEARCH_LENGTH));
+    if (!match) {
+      return null;
+    }
+
+    // The open tag is the open delimiter followed by the inner delimiter,
+    // the close tag the inner delimiter followed by the close delimiter
+    const [, openTag, closeTag] = match;
+    const delimiter = openTag.substring(1);
+    if (openTag.length < 2 || closeTag.length < 2 || closeTag.substring(0, closeTag.length - 1) !== delimiter) {
+      return null;
+    }
+
+    return {
+      delimiter,
+      openDelimiter: openTag.charAt(0),
+      closeDelimiter: closeTag.charAt(closeTag.length - 1)
+    };
+  }
+
+  /**
+   * Check whether a template node type is a JavaScript tag
+   * @param type The template node type
+   * @returns True for scriptlet, output and unescaped tags
+   */
+  private isJavaScriptTag(type: TemplateNodeType): type is EJSTagType {
+    return type === 'scriptlet' || type === 'output' || type === 'unescaped';
   }
 
   /**
@@ -109,11 +219,46 @@ export class EJSParser implements IEJSParser {
    * @returns Line and character position (0-based)
    */
   private getLineAndCharacter(content: string, index: number): { line: number; character: number } {
-    const beforeIndex = content.substring(0, index);
-    const lines = beforeIndex.split('\n');
+    const lineStarts = this.getLineStarts(content);
+
+    // Binary search for the last line starting at or before the index
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= index) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
     return {
-      line: lines.length - 1,
-      character: lines[lines.length - 1].length
+      line: low,
+      character: index - lineStarts[low]
     };
   }
+
+  /**
+   * Get the offsets at which each line of the content starts, reusing the
+   * table computed for the previous call when the content is unchanged
+   * @param content The full content string
+   * @returns Offsets of the first character of every line
+   */
+  private getLineStarts(content: string): number[] {
+    if (this.lineStartsContent === content && this.lineStarts) {
+      return this.lineStarts;
+    }
+
+    const lineStarts = [0];
+    for (let i = 0; i < content.length; i++) {
+      if (content.charCodeAt(i) === 10) {
+        lineStarts.push(i + 1);
+      }
+    }
+
+    this.lineStartsContent = content;
+    this.lineStarts = lineStarts;
+    return lineStarts;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,211 @@
+/**
+ * Unit tests for EJS Tokenizer
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EJSTokenizer } from './ejsTokenizer';
+
+describe('EJSTokenizer', () => {
+  let tokenizer: EJSTokenizer;
+
+  beforeEach(() => {
+    tokenizer = new EJSTokenizer();
+  });
+
+  describe('tokenize', () => {
+    it('should return a single text node for plain HTML', () => {
+      const nodes = tokenizer.tokenize('<div>Hello</div>');
+
+      expect(nodes).toEqual([{
+        type: 'text',
+        start: 0,
+        end: 16,
+        contentStart: 0,
+        contentEnd: 16,
+        content: '<div>Hello</div>',
+        closed: true
+      }]);
+    });
+
+    it('should return no nodes for empty content', () => {
+      expect(tokenizer.tokenize('')).toEqual([]);
+    });
+
+    it('should produce text and tag nodes with exact offsets', () => {
+      const content = '<p><%= name %></p>';
+      const nodes = tokenizer.tokenize(content);
+
+      expect(nodes.map(node => node.type)).toEqual(['text', 'output', 'text']);
+      expect(nodes[1]).toEqual({
+        type: 'output',
+        start: 3,
+        end: 14,
+        contentStart: 6,
+        contentEnd: 12,
+        content: ' name ',
+        closed: true
+      });
+      expect(content.substring(nodes[1].start, nodes[1].end)).toBe('<%= name %>');
+      expect(nodes[2].start).toBe(14);
+    });
+
+    it('should distinguish all tag types', () => {
+      const nodes = tokenizer.tokenize('<% a %><%= b %><%- c %><%# d %><%%');
+
+      expect(nodes.map(node => node.type)).toEqual(['scriptlet', 'output', 'unescaped', 'comment', 'literal']);
+      expect(nodes.map(node => node.content)).toEqual([' a ', ' b ', ' c ', ' d ', '<%']);
+    });
+
+    it('should cover the whole content without gaps', () => {
+      const content = 'a<% x %>b<%= y %>c<%# z %>d';
+      const nodes = tokenizer.tokenize(content);
+
+      let offset = 0;
+      for (const node of nodes) {
+        expect(node.start).toBe(offset);
+        offset = node.end;
+      }
+      expect(offset).toBe(content.length);
+    });
+
+    it('should treat <%% as a literal followed by text', () => {
+      const content = 'Use <%% to open a tag';
+      const nodes = tokenizer.tokenize(content);
+
+      expect(nodes).toHaveLength(3);
+      expect(nodes[1]).toMatchObject({ type: 'literal', start: 4, end: 7, content: '<%' });
+      expect(nodes[2]).toMatchObject({ type: 'text', content: ' to open a tag' });
+    });
+
+    it('should ignore closing delimiters inside string literals', () => {
+      const content = `<% const end = '%>'; const other = "%>"; %>after`;
+      const nodes = tokenizer.tokenize(content);
+
+      expect(nodes).toHaveLength(2);
+      expect(nodes[0].content).toBe(` const end = '%>'; const other = "%>"; `);
+      expect(nodes[1]).toMatchObject({ type: 'text', content: 'after' });
+    });
+
+    it('should ignore closing delimiters inside template literals and substitutions', () => {
+      const content = '<%- `a %> ${ {x: "%>"}.x } b` %>after';
+      const nodes = tokenizer.tokenize(content);
+
+      expect(nodes).toHaveLength(2);
+      expect(nodes[0].content).toBe(' `a %> ${ {x: "%>"}.x } b` ');
+    });
+
+    it('should ignore closing delimiters inside block comments and regular expressions', () => {
+      const content = '<% /* %> */ const re = /%>/g; %>after';
+      const nodes = tokenizer.tokenize(content);
+
+      expect(nodes).toHaveLength(2);
+      expect(nodes[0].content).toBe(' /* %> */ const re = /%>/g; ');
+    });
+
+    it('should close a line comment at the closing delimiter', () => {
+      const nodes = tokenizer.tokenize('<% // TODO %><%= a %>');
+
+      expect(nodes.map(node => node.type)).toEqual(['scriptlet', 'output']);
+      expect(nodes[0].content).toBe(' // TODO ');
+    });
+
+    it('should treat a slash after an operand as division', () => {
+      const nodes = tokenizer.tokenize('<%= total / count %> / <%= 1 %>');
+
+      expect(nodes.map(node => node.type)).toEqual(['output', 'text', 'output']);
+      expect(nodes[0].content).toBe(' total / count ');
+    });
+
+    it('should fall back to the first closing delimiter for unbalanced quotes', () => {
+      const nodes = tokenizer.tokenize(`<%= it's %><p>ok</p>`);
+
+      expect(nodes).toHaveLength(2);
+      expect(nodes[0].content).toBe(` it's `);
+      expect(nodes[1].content).toBe('<p>ok</p>');
+    });
+
+    it('should not skip closing delimiters inside comment tags', () => {
+      const nodes = tokenizer.tokenize(`<%# don't %>text`);
+
+      expect(nodes).toHaveLength(2);
+      expect(nodes[0]).toMatchObject({ type: 'comment', content: ` don't ` });
+    });
+
+    it('should mark tags without a closing delimiter as unclosed', () => {
+      const content = '<div><%= name';
+      const nodes = tokenizer.tokenize(content);
+
+      expect(nodes).toHaveLength(2);
+      expect(nodes[1]).toMatchObject({
+        type: 'output',
+        end: content.length,
+        content: ' name',
+        closed: false
+      });
+    });
+
+    it('should record the slurp modifier of <%_ and _%>', () => {
+      const content = '  <%_ if (show) { _%>\n';
+      const nodes = tokenizer.tokenize(content);
+      const tag = nodes[1];
+
+      expect(tag).toMatchObject({
+        type: 'scriptlet',
+        content: ' if (show) { ',
+        openModifier: 'slurp',
+        closeModifier: 'slurp'
+      });
+      expect(content.substring(tag.start, tag.end)).toBe('<%_ if (show) { _%>');
+    });
+
+    it('should record the trim-newline modifier of -%>', () => {
+      const nodes = tokenizer.tokenize('<%= name -%>\n<%- html -%>');
+
+      expect(nodes[0]).toMatchObject({ type: 'output', content: ' name ', closeModifier: 'trim-newline' });
+      expect(nodes[2]).toMatchObject({ type: 'unescaped', content: ' html ', closeModifier: 'trim-newline' });
+      expect(nodes[0].openModifier).toBeUndefined();
+    });
+
+    it('should allow modifiers on comment tags', () => {
+      const nodes = tokenizer.tokenize('<%# note -%>text');
+
+      expect(nodes[0]).toMatchObject({ type: 'comment', content: ' note ', closeModifier: 'trim-newline' });
+    });
+
+    it('should not treat a minus inside the code as a modifier', () => {
+      const nodes = tokenizer.tokenize('<%= a - b %>');
+
+      expect(nodes[0].content).toBe(' a - b ');
+      expect(nodes[0].closeModifier).toBeUndefined();
+    });
+
+    it('should record literal modifiers for <%% and %%>', () => {
+      const content = 'open <%% close %%> done';
+      const nodes = tokenizer.tokenize(content);
+
+      expect(nodes.map(node => node.type)).toEqual(['text', 'literal', 'text', 'literal', 'text']);
+      expect(nodes[1]).toMatchObject({ content: '<%', openModifier: 'literal' });
+      expect(nodes[3]).toMatchObject({ start: 15, end: 18, content: '%>', closeModifier: 'literal' });
+    });
+
+    it('should tokenize with custom delimiters', () => {
+      const delimiters = { delimiter: '?', openDelimiter: '[', closeDelimiter: ']' };
+      const nodes = tokenizer.tokenize('[?= a ?]<%= b %>[?? ??]', delimiters);
+
+      expect(nodes.map(node => node.type)).toEqual(['output', 'text', 'literal', 'text', 'literal']);
+      expect(nodes[0].content).toBe(' a ');
+      expect(nodes[1].content).toBe('<%= b %>');
+      expect(nodes[2].content).toBe('[?');
+      expect(nodes[4].content).toBe('?]');
+    });
+
+    it('should track offsets across multiple lines', () => {
+      const content = 'line 1\n<% if (x) { %>\n  <%= x %>\n<% } %>';
+      const nodes = tokenizer.tokenize(content);
+      const output = nodes.find(node => node.type === 'output')!;
+
+      expect(content.substring(output.contentStart, output.contentEnd)).toBe(' x ');
+      expect(nodes.filter(node => node.type === 'scriptlet')).toHaveLength(2);
+    });
+  });
+});
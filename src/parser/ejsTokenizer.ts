@@ -0,0 +1,414 @@
+/**
+ * Single-pass tokenizer that turns EJS template source into a template AST
+ */
+
+import { EJSDelimiters, EJSTagModifier, TemplateNode, TemplateNodeType } from '../types';
+
+/**
+ * Delimiters EJS uses when no options are given: `<% %>`
+ */
+export const DEFAULT_DELIMITERS: EJSDelimiters = {
+  delimiter: '%',
+  openDelimiter: '<',
+  closeDelimiter: '>'
+};
+
+/**
+ * Tag strings built from a set of delimiters
+ */
+interface DelimiterTags {
+  /** Opening tag, `<%` */
+  open: string;
+  /** Closing tag, `%>` */
+  close: string;
+  /** Escaped opening tag, `<%%` */
+  literalOpen: string;
+  /** Escaped closing tag, `%%>` */
+  literalClose: string;
+}
+
+/**
+ * Characters after which a `/` starts a regular expression literal rather than a division
+ */
+const REGEX_PRECEDING_CHARACTERS = '(,=:[!&|?{};+-*%<>~^';
+
+/**
+ * Splits EJS template content into text, tag, comment and literal nodes with exact offsets
+ */
+export class EJSTokenizer {
+  /**
+   * Tokenize EJS template content
+   * @param content The EJS template content as string
+   * @param delimiters Delimiters the template is written with
+   * @returns Template nodes in document order, covering the whole content
+   */
+  tokenize(content: string, delimiters: EJSDelimiters = DEFAULT_DELIMITERS): TemplateNode[] {
+    const tags = this.createTags(delimiters);
+    const nodes: TemplateNode[] = [];
+    let textStart = 0;
+    let index = this.findNextDelimiter(content, 0, tags);
+
+    while (index !== -1) {
+      this.pushText(nodes, content, textStart, index);
+
+      // Literal escape in text: %%> renders a literal %>
+      if (content.startsWith(tags.literalClose, index)) {
+        const end = index + tags.literalClose.length;
+        nodes.push(this.createLiteral(index, end, tags.close, { closeModifier: 'literal' }));
+        textStart = end;
+        index = this.findNextDelimiter(content, end, tags);
+        continue;
+      }
+
+      // Literal escape: <%% renders a literal <%
+      if (content.startsWith(tags.literalOpen, index)) {
+        const end = index + tags.literalOpen.length;
+        nodes.push(this.createLiteral(index, end, tags.open, { openModifier: 'literal' }));
+        textStart = end;
+        index = this.findNextDelimiter(content, end, tags);
+        continue;
+      }
+
+      const marker = content.charAt(index + tags.open.length);
+      const type = this.getTagType(marker);
+      const openModifier: EJSTagModifier | undefined = marker === '_' ? 'slurp' : undefined;
+      const contentStart = index + tags.open.length + (type === 'scriptlet' && !openModifier ? 0 : 1);
+      const closeIndex = type === 'comment'
+        ? content.indexOf(tags.close, contentStart)
+        : this.findScriptEnd(content, contentStart, tags);
+      const closed = closeIndex !== -1;
+      const closeModifier = closed ? this.getCloseModifier(content, contentStart, closeIndex) : undefined;
+      const contentEnd = !closed ? content.length : closeModifier ? closeIndex - 1 : closeIndex;
+      const end = closed ? closeIndex + tags.close.length : content.length;
+
+      nodes.push({
+        type,
+        start: index,
+        end,
+        contentStart,
+        contentEnd,
+        content: content.substring(contentStart, contentEnd),
+        closed,
+        openModifier,
+        closeModifier
+      });
+
+      textStart = end;
+      index = this.findNextDelimiter(content, end, tags);
+    }
+
+    this.pushText(nodes, content, textStart, content.length);
+    return nodes;
+  }
+
+  /**
+   * Build the tag strings for a set of delimiters
+   * @param delimiters The configured delimiters
+   * @returns Opening, closing and escaped tag strings
+   */
+  private createTags(delimiters: EJSDelimiters): DelimiterTags {
+    const { delimiter, openDelimiter, closeDelimiter } = delimiters;
+    return {
+      open: openDelimiter + delimiter,
+      close: delimiter + closeDelimiter,
+      literalOpen: openDelimiter + delimiter + delimiter,
+      literalClose: delimiter + delimiter + closeDelimiter
+    };
+  }
+
+  /**
+   * Find the next opening delimiter or literal closing escape in template text
+   * @param content The full template content
+   * @param from Offset to start searching at
+   * @param tags Tag strings of the template's delimiters
+   * @returns Offset of the next delimiter, or -1 if there is none
+   */
+  private findNextDelimiter(content: string, from: number, tags: DelimiterTags): number {
+    const open = content.indexOf(tags.open, from);
+    const literalClose = content.indexOf(tags.literalClose, from);
+
+    if (open === -1) {
+      return literalClose;
+    }
+    if (literalClose === -1) {
+      return open;
+    }
+    return Math.min(open, literalClose);
+  }
+
+  /**
+   * Create a literal node for an escaped delimiter
+   */
+  private createLiteral(
+    start: number,
+    end: number,
+    rendered: string,
+    modifiers: Pick<TemplateNode, 'openModifier' | 'closeModifier'>
+  ): TemplateNode {
+    return {
+      type: 'literal',
+      start,
+      end,
+      contentStart: start,
+      contentEnd: end,
+      content: rendered,
+      closed: true,
+      ...modifiers
+    };
+  }
+
+  /**
+   * Determine the modifier of a closing delimiter from the character before it
+   * @param content The full template content
+   * @param contentStart Offset where the tag content begins
+   * @param closeIndex Offset of the closing delimiter
+   * @returns trim-newline for `-%>`, slurp for `_%>`, undefined for a plain `%>`
+   */
+  private getCloseModifier(content: string, contentStart: number, closeIndex: number): EJSTagModifier | undefined {
+    if (closeIndex <= contentStart) {
+      return undefined;
+    }
+
+    switch (content.charAt(closeIndex - 1)) {
+      case '-':
+        return 'trim-newline';
+      case '_':
+        return 'slurp';
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Determine the node type from the character following the opening delimiter
+   * @param marker The character after `<%`
+   * @returns The node type of the tag; `<%_` opens a whitespace-slurping scriptlet
+   */
+  private getTagType(marker: string): TemplateNodeType {
+    switch (marker) {
+      case '=':
+        return 'output';
+      case '-':
+        return 'unescaped';
+      case '#':
+        return 'comment';
+      default:
+        return 'scriptlet';
+    }
+  }
+
+  /**
+   * Append a text node if the range is not empty
+   */
+  private pushText(nodes: TemplateNode[], content: string, start: number, end: number): void {
+    if (end <= start) {
+      return;
+    }
+
+    nodes.push({
+      type: 'text',
+      start,
+      end,
+      contentStart: start,
+      contentEnd: end,
+      content: content.substring(start, end),
+      closed: true
+    });
+  }
+
+  /**
+   * Find the closing delimiter of a JavaScript tag, skipping over string,
+   * template, regular expression and comment contents
+   * @param content The full template content
+   * @param start Offset where the tag content begins
+   * @param tags Tag strings of the template's delimiters
+   * @returns Offset of the closing delimiter, or -1 if the tag is never closed
+   */
+  private findScriptEnd(content: string, start: number, tags: DelimiterTags): number {
+    const end = this.scanScript(content, start, tags.close);
+    if (end !== -1) {
+      return end;
+    }
+
+    // Unbalanced quotes would otherwise swallow the rest of the template,
+    // so fall back to the first closing delimiter like EJS itself does
+    return content.indexOf(tags.close, start);
+  }
+
+  /**
+   * Scan JavaScript source for the closing delimiter
+   * @param content The full template content
+   * @param start Offset where the scan begins
+   * @param closeTag The closing tag to look for
+   * @returns Offset of the closing delimiter, or -1 if not found
+   */
+  private scanScript(content: string, start: number, closeTag: string): number {
+    // Brace depth of each template literal substitution currently open
+    const templateDepths: number[] = [];
+    let braceDepth = 0;
+    let lastSignificant = '';
+    let i = start;
+
+    while (i < content.length) {
+      const char = content[i];
+      const next = content[i + 1];
+
+      if (templateDepths.length === 0 && content.startsWith(closeTag, i)) {
+        return i;
+      }
+
+      if (char === '"' || char === "'") {
+        i = this.skipQuoted(content, i);
+        if (i === -1) {
+          return -1;
+        }
+        lastSignificant = char;
+        continue;
+      }
+
+      if (char === '`') {
+        const resumed = this.skipTemplate(content, i + 1);
+        if (resumed.substitution) {
+          templateDepths.push(braceDepth);
+        }
+        i = resumed.index;
+        lastSignificant = '`';
+        continue;
+      }
+
+      if (char === '/' && next === '/') {
+        // Line comments end at the newline or at the closing delimiter
+        while (i < content.length && content[i] !== '\n' && !content.startsWith(closeTag, i)) {
+          i++;
+        }
+        continue;
+      }
+
+      if (char === '/' && next === '*') {
+        const commentEnd = content.indexOf('*/', i + 2);
+        if (commentEnd === -1) {
+          return -1;
+        }
+        i = commentEnd + 2;
+        continue;
+      }
+
+      if (char === '/' && (lastSignificant === '' || REGEX_PRECEDING_CHARACTERS.includes(lastSignificant))) {
+        i = this.skipRegex(content, i);
+        lastSignificant = '/';
+        continue;
+      }
+
+      if (char === '{') {
+        braceDepth++;
+      } else if (char === '}') {
+        if (templateDepths.length > 0 && templateDepths[templateDepths.length - 1] === braceDepth) {
+          // End of a template substitution: resume scanning the template literal
+          templateDepths.pop();
+          const resumed = this.skipTemplate(content, i + 1);
+          if (resumed.substitution) {
+            templateDepths.push(braceDepth);
+          }
+          i = resumed.index;
+          lastSignificant = '`';
+          continue;
+        }
+        braceDepth--;
+      }
+
+      if (!/\s/.test(char)) {
+        lastSignificant = /[\w$]/.test(char) ? 'a' : char;
+      }
+      i++;
+    }
+
+    return -1;
+  }
+
+  /**
+   * Skip a single or double quoted string
+   * @returns Offset just past the string, or -1 if the string is not terminated on its line
+   */
+  private skipQuoted(content: string, start: number): number {
+    const quote = content[start];
+    let i = start + 1;
+
+    while (i < content.length) {
+      const char = content[i];
+      if (char === '\\') {
+        i += 2;
+        continue;
+      }
+      if (char === quote) {
+        return i + 1;
+      }
+      if (char === '\n') {
+        return -1;
+      }
+      i++;
+    }
+
+    return -1;
+  }
+
+  /**
+   * Skip template literal text up to its end or the next substitution
+   * @param start Offset just past the opening backtick or substitution brace
+   * @returns Offset to resume scanning at, and whether a substitution was entered
+   */
+  private skipTemplate(content: string, start: number): { index: number; substitution: boolean } {
+    let i = start;
+
+    while (i < content.length) {
+      const char = content[i];
+      if (char === '\\') {
+        i += 2;
+        continue;
+      }
+      if (char === '`') {
+        return { index: i + 1, substitution: false };
+      }
+      if (char === '$' && content[i + 1] === '{') {
+        return { index: i + 2, substitution: true };
+      }
+      i++;
+    }
+
+    return { index: i, substitution: false };
+  }
+
+  /**
+   * Skip a regular expression literal, including character classes and flags
+   * @returns Offset just past the literal; if the literal is not terminated on its
+   * line the slash was a division and only the slash is skipped
+   */
+  private skipRegex(content: string, start: number): number {
+    let inClass = false;
+    let i = start + 1;
+
+    while (i < content.length) {
+      const char = content[i];
+      if (char === '\\') {
+        i += 2;
+        continue;
+      }
+      if (char === '\n') {
+        return start + 1;
+      }
+      if (char === '[') {
+        inClass = true;
+      } else if (char === ']') {
+        inClass = false;
+      } else if (char === '/' && !inClass) {
+        i++;
+        while (i < content.length && /[a-z]/i.test(content[i])) {
+          i++;
+        }
+        return i;
+      }
+      i++;
+    }
+
+    return start + 1;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Tests for EJS Call Hierarchy Provider
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { EJSCallHierarchyProvider } from './callHierarchyProvider';
+import { EJSParser } from '../parser/ejsParser';
+import { SymbolAnalyzer } from '../analyzer/symbolAnalyzer';
+import { DocumentCacheManager } from '../cache/documentCache';
+import { IncludeResolver } from '../includes/includeResolver';
+import { WorkspaceIndex } from '../workspace/workspaceIndex';
+import { MockTextDocument } from '../../test/mocks/textDocument';
+
+describe('EJSCallHierarchyProvider', () => {
+  const layout = '/project/views/layout.ejs';
+  const page = '/project/views/pages/channels.ejs';
+  const form = '/project/views/components/ui/form.ejs';
+  const input = '/project/views/components/ui/input.ejs';
+  const files: Record<string, string> = {
+    [layout]: "<%- include('pages/channels') %>",
+    [page]: [
+      "<%- include('/components/ui/form', { action: '/channels' }) %>",
+      "<%- include('/components/ui/input', { label: 'Search' }) %>"
+    ].join('\n'),
+    [form]: "<%- include('input', { label: 'Name' }) %>\n<%- include('input', { label: 'Slug' }) %>",
+    [input]: '<input aria-label="<%= label %>">'
+  };
+  const token = { isCancellationRequested: false } as vscode.CancellationToken;
+  let cache: DocumentCacheManager;
+  let workspaceIndex: WorkspaceIndex;
+  let provider: EJSCallHierarchyProvider;
+
+  beforeEach(() => {
+    vi.spyOn(vscode.workspace, 'findFiles').mockImplementation(() =>
+      Promise.resolve(Object.keys(files).map(file => vscode.Uri.file(file)) as any)
+    );
+    vi.spyOn(vscode.workspace.fs, 'readFile').mockImplementation((uri: any) =>
+      Promise.resolve(new TextEncoder().encode(files[uri.fsPath]))
+    );
+    vi.spyOn(vscode.workspace, 'getWorkspaceFolder').mockReturnValue({
+      uri: vscode.Uri.file('/project'),
+      name: 'project',
+      index: 0
+    });
+
+    const parser = new EJSParser();
+    const includeResolver = new IncludeResolver(file => file in files);
+    cache = new DocumentCacheManager();
+    workspaceIndex = new WorkspaceIndex(parser, new SymbolAnalyzer(), includeResolver);
+    provider = new EJSCallHierarchyProvider(parser, new SymbolAnalyzer(), cache, includeResolver, workspaceIndex);
+  });
+
+  afterEach(() => {
+    workspaceIndex.dispose();
+    cache.dispose();
+    vi.restoreAllMocks();
+  });
+
+  const prepare = (file: string, line = 0, character = 0) =>
+    provider.prepareCallHierarchy(
+      new MockTextDocument(files[file], { file }) as any,
+      new vscode.Position(line, character),
+      token
+    ) as vscode.CallHierarchyItem;
+
+  it('should start from the template of the document', () => {
+    const item = prepare(form);
+
+    expect(item.name).toBe('form.ejs');
+    expect(item.detail).toBe('/project/views/components/ui');
+    expect(item.kind).toBe(vscode.SymbolKind.File);
+  });
+
+  it('should start from the included template on an include path', () => {
+    expect(prepare(page, 1, 16).uri.fsPath).toBe(input);
+  });
+
+  it('should list the templates including a template', async () => {
+    const calls = await provider.provideCallHierarchyIncomingCalls(prepare(input), token);
+
+    expect(calls.map(call => [call.from.uri.fsPath, call.fromRanges.map(range => range.start.line)])).toEqual([
+      [page, [1]],
+      [form, [0, 1]]
+    ]);
+  });
+
+  it('should list the partials a template includes, level by level', async () => {
+    const pages = await provider.provideCallHierarchyOutgoingCalls(prepare(layout), token);
+    expect(pages.map(call => call.to.uri.fsPath)).toEqual([page]);
+
+    const components = await provider.provideCallHierarchyOutgoingCalls(pages[0].to, token);
+    expect(components.map(call => call.to.uri.fsPath)).toEqual([form, input]);
+
+    const [inputs] = await provider.provideCallHierarchyOutgoingCalls(components[0].to, token);
+    expect(inputs.to.uri.fsPath).toBe(input);
+    expect(inputs.fromRanges.map(range => [range.start.line, range.start.character])).toEqual([[0, 4], [1, 4]]);
+  });
+
+  it('should list no outgoing calls for a partial without includes', async () => {
+    expect(await provider.provideCallHierarchyOutgoingCalls(prepare(input), token)).toEqual([]);
+  });
+});
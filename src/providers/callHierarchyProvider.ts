@@ -0,0 +1,159 @@
+/**
+ * VS Code Call Hierarchy Provider for EJS templates
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { IEJSParser, ISymbolAnalyzer, IDocumentCache, IWorkspaceIndex } from '../interfaces';
+import { IncludeCall, IncludeCallSite, TextRange } from '../types';
+import { IncludeResolver } from '../includes/includeResolver';
+
+/**
+ * Shows the include hierarchy of templates: incoming calls are the templates
+ * including a template, outgoing calls the partials it includes
+ */
+export class EJSCallHierarchyProvider implements vscode.CallHierarchyProvider {
+  constructor(
+    private parser: IEJSParser,
+    private symbolAnalyzer: ISymbolAnalyzer,
+    private cache: IDocumentCache,
+    private includeResolver: IncludeResolver,
+    private workspaceIndex: IWorkspaceIndex
+  ) {}
+
+  /**
+   * Get the template the hierarchy starts from
+   * @param document The document in which the command was invoked
+   * @param position The position at which the command was invoked
+   * @param token A cancellation token
+   * @returns The included template when invoked on an include path, otherwise the document's template
+   */
+  prepareCallHierarchy(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.CallHierarchyItem> {
+    try {
+      // Try to get cached parsed document
+      let parsedDocument = this.cache.getParsedDocument(document.uri.toString(), document.version);
+      if (!parsedDocument) {
+        parsedDocument = this.parser.parseDocument(document);
+        this.cache.setParsedDocument(document.uri.toString(), document.version, parsedDocument);
+      }
+
+      const include = this.findIncludeAtPosition(this.symbolAnalyzer.findIncludes(parsedDocument.jsBlocks), position);
+      const target = include && include.path !== null ? this.includeResolver.resolveFromDocument(include.path, document) : null;
+
+      return this.createItem(target ?? document.uri.fsPath);
+    } catch (error) {
+      // Log error but don't throw - VS Code expects graceful handling
+      console.error('Error in EJS Call Hierarchy Provider:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the templates including a template
+   * @param item The included template
+   * @param token A cancellation token
+   * @returns One call per including template, with the ranges of its include calls
+   */
+  async provideCallHierarchyIncomingCalls(
+    item: vscode.CallHierarchyItem,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CallHierarchyIncomingCall[]> {
+    const callSites = await this.workspaceIndex.findCallSites(item.uri.fsPath);
+
+    return [...this.groupBy(callSites, callSite => callSite.file)].map(([file, fileCallSites]) =>
+      new vscode.CallHierarchyIncomingCall(
+        this.createItem(file),
+        fileCallSites.map(callSite => this.toRange(callSite.call.callRange))
+      )
+    );
+  }
+
+  /**
+   * Get the partials a template includes
+   * @param item The including template
+   * @param token A cancellation token
+   * @returns One call per included template, with the ranges of the include calls rendering it
+   */
+  async provideCallHierarchyOutgoingCalls(
+    item: vscode.CallHierarchyItem,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CallHierarchyOutgoingCall[]> {
+    const callSites = await this.workspaceIndex.findIncludedTemplates(item.uri.fsPath);
+
+    return [...this.groupBy(callSites, callSite => callSite.target)].map(([target, targetCallSites]) =>
+      new vscode.CallHierarchyOutgoingCall(
+        this.createItem(target),
+        targetCallSites.map(callSite => this.toRange(callSite.call.callRange))
+      )
+    );
+  }
+
+  /**
+   * Create the hierarchy item of a template
+   * @param file Absolute path of the template
+   */
+  private createItem(file: string): vscode.CallHierarchyItem {
+    const uri = vscode.Uri.file(file);
+    const start = new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 0));
+    const directory = path.dirname(vscode.workspace.asRelativePath(uri));
+
+    return new vscode.CallHierarchyItem(
+      vscode.SymbolKind.File,
+      path.basename(file),
+      directory === '.' ? '' : directory,
+      uri,
+      start,
+      start
+    );
+  }
+
+  /**
+   * Group include calls by a key, keeping the order of first appearance
+   */
+  private groupBy(callSites: IncludeCallSite[], key: (callSite: IncludeCallSite) => string): Map<string, IncludeCallSite[]> {
+    const groups = new Map<string, IncludeCallSite[]>();
+    for (const callSite of callSites) {
+      const group = groups.get(key(callSite));
+      if (group) {
+        group.push(callSite);
+      } else {
+        groups.set(key(callSite), [callSite]);
+      }
+    }
+    return groups;
+  }
+
+  /**
+   * Find the include call whose path contains the given position
+   */
+  private findIncludeAtPosition(includes: IncludeCall[], position: vscode.Position): IncludeCall | null {
+    for (const include of includes) {
+      const { startLine, startCharacter, endLine, endCharacter } = include.range;
+      if (position.line < startLine || position.line > endLine) {
+        continue;
+      }
+      if (position.line === startLine && position.character < startCharacter) {
+        continue;
+      }
+      if (position.line === endLine && position.character > endCharacter) {
+        continue;
+      }
+      return include;
+    }
+    return null;
+  }
+
+  /**
+   * Convert a template range to a VS Code range
+   */
+  private toRange(range: TextRange): vscode.Range {
+    return new vscode.Range(
+      new vscode.Position(range.startLine, range.startCharacter),
+      new vscode.Position(range.endLine, range.endCharacter)
+    );
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Tests for EJS Code Action Provider
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as vscode from 'vscode';
+import { EJSCodeActionProvider } from './codeActionProvider';
+import { UnusedVariableRule } from '../diagnostics/rules/unusedVariableRule';
+import { UnescapedOutputRule } from '../diagnostics/rules/unescapedOutputRule';
+import { IDiagnosticRule } from '../interfaces';
+import { EJSParser } from '../parser/ejsParser';
+import { SymbolAnalyzer } from '../analyzer/symbolAnalyzer';
+import { DocumentCacheManager } from '../cache/documentCache';
+import { MockTextDocument } from '../../test/mocks/textDocument';
+
+describe('EJSCodeActionProvider', () => {
+  const token = { isCancellationRequested: false } as vscode.CancellationToken;
+  const parser = new EJSParser();
+  let cache: DocumentCacheManager;
+  let provider: EJSCodeActionProvider;
+
+  beforeEach(() => {
+    cache = new DocumentCacheManager();
+    provider = new EJSCodeActionProvider(parser, new SymbolAnalyzer(), cache);
+  });
+
+  afterEach(() => {
+    cache.dispose();
+  });
+
+  // Apply the quick fix of the first diagnostic of a rule
+  const fix = (content: string, rule: IDiagnosticRule = new UnusedVariableRule(new SymbolAnalyzer())): { title: string; text: string } | null => {
+    // Every mock document has the same URI and version
+    cache.clearAll();
+    const document = new MockTextDocument(content);
+    const [diagnostic] = rule.check(document as any, parser.parseDocument(document as any));
+    const actions = provider.provideCodeActions(
+      document as any,
+      diagnostic.range,
+      { diagnostics: [diagnostic], triggerKind: 1, only: undefined },
+      token
+    ) as vscode.CodeAction[];
+    if (actions.length === 0) {
+      return null;
+    }
+
+    const [edit] = (actions[0].edit as any).edits;
+    const text = content.slice(0, document.offsetAt(edit.range.start)) + edit.newText + content.slice(document.offsetAt(edit.range.end));
+    return { title: actions[0].title, text };
+  };
+
+  it('should remove a declaration and the tag left empty, with its line', () => {
+    const result = fix("<% const _viewsPath = '..'; %>\n<% const _unused = 1; %>\n<p><%= _viewsPath %></p>");
+
+    expect(result!.title).toBe(`Remove unused variable '_unused'`);
+    expect(result!.text).toBe("<% const _viewsPath = '..'; %>\n<p><%= _viewsPath %></p>");
+  });
+
+  it('should keep the rest of the tag', () => {
+    expect(fix('<% const unused = 1; const shown = 2; %><%= shown %>')!.text).toBe('<% const shown = 2; %><%= shown %>');
+    expect(fix('<%\n  const shown = 2;\n  const unused = 1;\n%><%= shown %>')!.text).toBe('<%\n  const shown = 2;\n%><%= shown %>');
+  });
+
+  it('should offer no removal of declarations that also declare other names', () => {
+    expect(fix('<% const { unused, shown } = item; %><%= shown %>')).toBeNull();
+  });
+
+  it('should offer no removal of declarations whose initializer has side effects', () => {
+    expect(fix('<% const unused = save(item); %>')).toBeNull();
+    expect(fix('<% const unused = count++; %>')).toBeNull();
+    expect(fix('<% const unused = `${user.name}: ${items.length}`; %>')!.text).toBe('');
+  });
+
+  it('should convert unescaped output to escaped output', () => {
+    const result = fix('<p><%- user.bio -%></p>', new UnescapedOutputRule());
+
+    expect(result!.title).toBe(`Convert to '<%= -%>'`);
+    expect(result!.text).toBe('<p><%= user.bio -%></p>');
+  });
+});
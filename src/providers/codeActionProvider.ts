@@ -0,0 +1,172 @@
+/**
+ * VS Code Code Action Provider for EJS templates
+ */
+
+import * as vscode from 'vscode';
+import { IEJSParser, ISymbolAnalyzer, IDocumentCache } from '../interfaces';
+import { TemplateNode, UnusedDeclaration } from '../types';
+
+/**
+ * Provides quick fixes for the diagnostics of EJS templates
+ */
+export class EJSCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly metadata: vscode.CodeActionProviderMetadata = {
+    providedCodeActionKinds: [vscode.CodeActionKind.QuickFix]
+  };
+
+  constructor(
+    private parser: IEJSParser,
+    private symbolAnalyzer: ISymbolAnalyzer,
+    private cache: IDocumentCache
+  ) {}
+
+  /**
+   * Provide quick fixes for the EJS diagnostics in a range
+   * @param document The document in which the command was invoked
+   * @param range The range for which the command was invoked
+   * @param context Diagnostics of the range
+   * @param token A cancellation token
+   * @returns Quick fixes for the diagnostics
+   */
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext,
+    token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.CodeAction[]> {
+    try {
+      const diagnostics = context.diagnostics.filter(diagnostic => diagnostic.source === 'ejs');
+      if (diagnostics.length === 0) {
+        return [];
+      }
+
+      // Try to get cached parsed document
+      let parsedDocument = this.cache.getParsedDocument(document.uri.toString(), document.version);
+      if (!parsedDocument) {
+        parsedDocument = this.parser.parseDocument(document);
+        this.cache.setParsedDocument(document.uri.toString(), document.version, parsedDocument);
+      }
+
+      const actions: vscode.CodeAction[] = [];
+      for (const diagnostic of diagnostics) {
+        if (diagnostic.code === 'unused-variable') {
+          const declaration = this.symbolAnalyzer.findUnusedDeclarations(parsedDocument.jsBlocks).find(candidate =>
+            candidate.range.startLine === diagnostic.range.start.line &&
+            candidate.range.startCharacter === diagnostic.range.start.character
+          );
+          const action = declaration ? this.createRemoveDeclarationAction(document, diagnostic, declaration) : null;
+          if (action) {
+            actions.push(action);
+          }
+        } else if (diagnostic.code === 'unescaped-output') {
+          const action = this.createEscapeOutputAction(document, diagnostic);
+          if (action) {
+            actions.push(action);
+          }
+        }
+      }
+      return actions;
+    } catch (error) {
+      // Log error but don't throw - VS Code expects graceful handling
+      console.error('Error in EJS Code Action Provider:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create the quick fix removing the declaration of an unused variable, and
+   * its tag when nothing else is left in it
+   */
+  private createRemoveDeclarationAction(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    declaration: UnusedDeclaration
+  ): vscode.CodeAction | null {
+    if (!declaration.statementRange) {
+      return null;
+    }
+
+    const text = document.getText();
+    const start = document.offsetAt(new vscode.Position(declaration.statementRange.startLine, declaration.statementRange.startCharacter));
+    const end = document.offsetAt(new vscode.Position(declaration.statementRange.endLine, declaration.statementRange.endCharacter));
+    const tag = this.findTagContaining(this.parser.tokenize(text), start, end);
+    if (!tag) {
+      return null;
+    }
+
+    const remainingCode = text.slice(tag.contentStart, start) + text.slice(end, tag.contentEnd);
+    const [removeStart, removeEnd] = remainingCode.trim() === ''
+      ? this.extendToLine(text, tag.start, tag.end)
+      : this.extendToLine(text, start, this.skipSpaces(text, end));
+
+    const action = new vscode.CodeAction(`Remove unused variable '${declaration.name}'`, vscode.CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    action.isPreferred = true;
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.delete(document.uri, new vscode.Range(document.positionAt(removeStart), document.positionAt(removeEnd)));
+    return action;
+  }
+
+  /**
+   * Create the quick fix turning an unescaped output tag into an escaped one
+   */
+  private createEscapeOutputAction(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction | null {
+    const text = document.getText();
+    const offset = document.offsetAt(diagnostic.range.start);
+    const tag = this.findTagContaining(this.parser.tokenize(text), offset, offset);
+    if (!tag || tag.type !== 'unescaped') {
+      return null;
+    }
+
+    // The `-` ending the opening delimiter marks the tag as unescaped
+    const openDelimiter = text.slice(tag.start, tag.contentStart);
+    const modifierOffset = tag.start + openDelimiter.lastIndexOf('-');
+    const escapedTag = `${openDelimiter.slice(0, -1)}= ${text.slice(tag.contentEnd, tag.end)}`;
+
+    const action = new vscode.CodeAction(`Convert to '${escapedTag}'`, vscode.CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    action.isPreferred = true;
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.replace(document.uri, new vscode.Range(document.positionAt(modifierOffset), document.positionAt(modifierOffset + 1)), '=');
+    return action;
+  }
+
+  /**
+   * Find the JavaScript tag whose content contains a range of offsets
+   */
+  private findTagContaining(nodes: TemplateNode[], start: number, end: number): TemplateNode | null {
+    return nodes.find(node =>
+      (node.type === 'scriptlet' || node.type === 'output' || node.type === 'unescaped') &&
+      node.contentStart <= start && end <= node.contentEnd
+    ) ?? null;
+  }
+
+  /**
+   * Extend a range to its whole line, including the line break, when nothing else is on the line
+   */
+  private extendToLine(text: string, start: number, end: number): [number, number] {
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    if (text.slice(lineStart, start).trim() !== '') {
+      return [start, end];
+    }
+
+    let lineEnd = this.skipSpaces(text, end);
+    if (text[lineEnd] === '\r') {
+      lineEnd++;
+    }
+    if (text[lineEnd] === '\n') {
+      return [lineStart, lineEnd + 1];
+    }
+    return lineEnd === text.length ? [lineStart, lineEnd] : [start, end];
+  }
+
+  /**
+   * Skip spaces and tabs from an offset
+   */
+  private skipSpaces(text: string, offset: number): number {
+    while (text[offset] === ' ' || text[offset] === '\t') {
+      offset++;
+    }
+    return offset;
+  }
+}
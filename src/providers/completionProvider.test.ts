@@ -0,0 +1,231 @@
+/**
+ * Tests for EJS Completion Provider
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { EJSCompletionProvider } from './completionProvider';
+import { EJSParser } from '../parser/ejsParser';
+import { SymbolAnalyzer } from '../analyzer/symbolAnalyzer';
+import { DocumentCacheManager } from '../cache/documentCache';
+import { ITypeScriptService, IWorkspaceIndex } from '../interfaces';
+import { IncludeCallSite, TemplateIndexEntry } from '../types';
+import { IncludeResolver } from '../includes/includeResolver';
+import { MockTextDocument } from '../../test/mocks/textDocument';
+
+describe('EJSCompletionProvider', () => {
+  const token = { isCancellationRequested: false } as vscode.CancellationToken;
+  const context = {} as vscode.CompletionContext;
+  let cache: DocumentCacheManager;
+  let provider: EJSCompletionProvider;
+
+  beforeEach(() => {
+    cache = new DocumentCacheManager();
+    provider = new EJSCompletionProvider(new EJSParser(), new SymbolAnalyzer(), cache);
+  });
+
+  afterEach(() => {
+    cache.dispose();
+  });
+
+  const complete = (target: EJSCompletionProvider, content: string, line: number, character: number) =>
+    target.provideCompletionItems(
+      new MockTextDocument(content, { file: '/project/views/partials/card.ejs' }) as any,
+      new vscode.Position(line, character),
+      token,
+      context
+    ) as vscode.CompletionItem[] | Promise<vscode.CompletionItem[]> | null;
+
+  it('should offer the variables declared before the cursor', () => {
+    const content = [
+      '<% const title = "Products"; %>',
+      '<% items.forEach(function (item) { %>',
+      '  <li><%= i %></li>',
+      '<% }); const footer = true; %>'
+    ].join('\n');
+
+    const items = complete(provider, content, 2, 11) as vscode.CompletionItem[];
+    const labels = items.map(item => item.label);
+
+    expect(labels).toEqual(expect.arrayContaining(['item', 'title']));
+    expect(labels).not.toContain('footer');
+    const title = items.find(item => item.label === 'title')!;
+    expect(title.kind).toBe(vscode.CompletionItemKind.Constant);
+    expect(title.documentation!.toString()).toContain('"Products"');
+  });
+
+  it('should offer the names EJS defines after template variables', () => {
+    const items = complete(provider, '<% const count = 1; %><%= c %>', 0, 27) as vscode.CompletionItem[];
+    const include = items.find(item => item.label === 'include')!;
+    const count = items.find(item => item.label === 'count')!;
+
+    expect(items.map(item => item.label)).toEqual(expect.arrayContaining(['include', 'locals', '__append', 'escapeFn']));
+    expect(include.detail).toBe('(EJS) include(path, locals)');
+    expect(count.sortText! < include.sortText!).toBe(true);
+  });
+
+  it('should offer completions inside an empty tag', () => {
+    const content = [
+      '<% const count = 1; %>',
+      '<% items.forEach(function (item) { %>',
+      '  <li><%=  %></li>',
+      '<% }); %>',
+      '<%=  %>'
+    ].join('\n');
+
+    const inLoop = (complete(provider, content, 2, 10) as vscode.CompletionItem[]).map(item => item.label);
+    const afterLoop = (complete(provider, content, 4, 4) as vscode.CompletionItem[]).map(item => item.label);
+
+    expect(inLoop).toEqual(expect.arrayContaining(['count', 'item', 'include']));
+    expect(afterLoop).toEqual(expect.arrayContaining(['count', 'include']));
+    expect(afterLoop).not.toContain('item');
+  });
+
+  it('should offer nothing outside EJS tags or after a dot', () => {
+    expect(complete(provider, '<p>Hello</p><%= user.n %>', 0, 3)).toBeNull();
+    expect(complete(provider, '<p>Hello</p><%= user.n %>', 0, 22)).toBeNull();
+  });
+
+  it('should offer the members the TypeScript service finds after a dot', () => {
+    const typeScriptService = {
+      getCompletions: vi.fn().mockReturnValue([
+        { name: 'toUpperCase', kind: 'method', sortText: '11' },
+        { name: 'length', kind: 'property', sortText: '11' }
+      ])
+    } as unknown as ITypeScriptService;
+    provider = new EJSCompletionProvider(new EJSParser(), new SymbolAnalyzer(), cache, undefined, undefined, typeScriptService);
+
+    const items = complete(provider, '<% const title = "a"; %>\n<%= title. %>', 1, 10) as vscode.CompletionItem[];
+
+    expect(typeScriptService.getCompletions).toHaveBeenCalledWith(expect.anything(), 35);
+    expect(items.map(item => [item.label, item.kind, item.sortText])).toEqual([
+      ['toUpperCase', vscode.CompletionItemKind.Method, '11'],
+      ['length', vscode.CompletionItemKind.Property, '11']
+    ]);
+  });
+
+  it('should offer the locals declared in JSDoc comments with their types', () => {
+    const content = "<%# @param {import('../types').User} user The signed-in user %>\n<%= u %>";
+    const items = complete(provider, content, 1, 5) as vscode.CompletionItem[];
+    const user = items.find(item => item.label === 'user')!;
+
+    expect(user.kind).toBe(vscode.CompletionItemKind.Field);
+    expect(user.detail).toBe("import('../types').User");
+    expect(user.documentation!.toString()).toBe('The signed-in user');
+  });
+
+  it('should offer the locals parent templates pass to a partial', async () => {
+    const callSite = (file: string, name: string, value: string): IncludeCallSite => ({
+      file,
+      target: '/project/views/partials/card.ejs',
+      call: {
+        path: 'partials/card',
+        expression: "'partials/card'",
+        range: { startLine: 0, startCharacter: 0, endLine: 0, endCharacter: 0 },
+        callRange: { startLine: 0, startCharacter: 0, endLine: 0, endCharacter: 0 },
+        locals: [{ name, value, range: { startLine: 0, startCharacter: 0, endLine: 0, endCharacter: 0 } }]
+      }
+    });
+    const workspaceIndex = {
+      findCallSites: vi.fn().mockResolvedValue([
+        callSite('/project/views/home.ejs', 'product', 'featured'),
+        callSite('/project/views/list.ejs', 'product', 'products[0]'),
+        callSite('/project/views/list.ejs', 'title', "'Card'")
+      ])
+    } as unknown as IWorkspaceIndex;
+    provider = new EJSCompletionProvider(new EJSParser(), new SymbolAnalyzer(), cache, undefined, workspaceIndex);
+
+    const items = await complete(provider, '<% const title = product.name; %><%= t %>', 0, 38)!;
+    const product = items.find(item => item.label === 'product')!;
+
+    expect(workspaceIndex.findCallSites).toHaveBeenCalledWith('/project/views/partials/card.ejs');
+    expect(product.kind).toBe(vscode.CompletionItemKind.Field);
+    expect(product.documentation!.toString()).toContain('/project/views/home.ejs: featured\n/project/views/list.ejs: products[0]');
+    expect(items.filter(item => item.label === 'title')).toHaveLength(1);
+  });
+
+  describe('inside include() calls', () => {
+    const templates: TemplateIndexEntry[] = [
+      '/project/views/partials/card.ejs',
+      '/project/views/partials/header.ejs',
+      '/project/views/components/ui/input.ejs',
+      '/project/views/components/ui/select.ejs'
+    ].map(file => ({ file, includes: [], declarations: [], freeVariables: [] }));
+    templates[2].freeVariables = [
+      { name: 'label', references: [], usages: ['<label for="<%= id %>"><%= label %></label>'] },
+      { name: 'required', references: [], usages: ['<% if (required) { %>'] },
+      { name: 'id', references: [], usages: [] }
+    ];
+
+    beforeEach(() => {
+      vi.spyOn(vscode.workspace, 'getWorkspaceFolder').mockReturnValue({
+        uri: vscode.Uri.file('/project'),
+        name: 'project',
+        index: 0
+      });
+      const workspaceIndex = {
+        getTemplates: () => templates,
+        getTemplate: (file: string) => templates.find(template => template.file === file),
+        findCallSites: () => Promise.resolve([])
+      } as unknown as IWorkspaceIndex;
+      const files = new Set(templates.map(template => template.file));
+      provider = new EJSCompletionProvider(
+        new EJSParser(),
+        new SymbolAnalyzer(),
+        cache,
+        new IncludeResolver(file => files.has(file)),
+        workspaceIndex
+      );
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should complete template paths relative to the template and the views root', () => {
+      const items = complete(provider, "<%- include('') %>", 0, 13) as vscode.CompletionItem[];
+
+      expect(items.map(item => [item.label, item.kind])).toEqual([
+        ['header.ejs', vscode.CompletionItemKind.File],
+        ['partials', vscode.CompletionItemKind.Folder],
+        ['components', vscode.CompletionItemKind.Folder]
+      ]);
+      expect(items[1].insertText).toBe('partials/');
+    });
+
+    it('should complete the segment after the last slash', () => {
+      const items = complete(provider, "<%- include('/components/ui/in') %>", 0, 30) as vscode.CompletionItem[];
+
+      expect(items.map(item => item.label)).toEqual(['input.ejs', 'select.ejs']);
+      expect((items[0].range as vscode.Range).start.character).toBe(28);
+    });
+
+    it('should complete the locals the included partial reads', () => {
+      const content = "<%- include('/components/ui/input', { id: 'name', la }) %>";
+      const items = complete(provider, content, 0, 52) as vscode.CompletionItem[];
+
+      expect(items.map(item => item.label)).toEqual(['label', 'required']);
+      expect(items[0].kind).toBe(vscode.CompletionItemKind.Property);
+      expect(items[0].documentation!.toString()).toContain('<label for="<%= id %>"><%= label %></label>');
+    });
+
+    it('should not complete keys in the value of a local', async () => {
+      const content = "<%- include('/components/ui/input', { label: ti }) %>";
+      const items = await complete(provider, content, 0, 47)!;
+
+      expect(items.map(item => item.label)).not.toContain('required');
+      expect(items.map(item => item.label)).toContain('include');
+    });
+
+    it('should offer nothing for trigger characters outside include paths', () => {
+      const items = provider.provideCompletionItems(
+        new MockTextDocument("<% const path = '/'; %>", { file: '/project/views/partials/card.ejs' }) as any,
+        new vscode.Position(0, 18),
+        token,
+        { triggerKind: vscode.CompletionTriggerKind.TriggerCharacter, triggerCharacter: '/' }
+      );
+
+      expect(items).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,409 @@
+/**
+ * VS Code Completion Provider for EJS templates
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { IEJSParser, ISymbolAnalyzer, IDocumentCache, IWorkspaceIndex, ITypeScriptService } from '../interfaces';
+import { FreeVariable, JavaScriptBlock, LocalDeclaration, SymbolInfo, SymbolKind, TemplateNode, TypeScriptCompletion } from '../types';
+import { IncludeResolver } from '../includes/includeResolver';
+
+/**
+ * Matches code ending inside the path string of an `include()` call
+ */
+const INCLUDE_PATH_PATTERN = /\binclude\s*\(\s*(['"`])([^'"`]*)$/;
+
+/**
+ * Matches code ending inside the locals object literal of an `include()` call
+ */
+const INCLUDE_LOCALS_PATTERN = /\binclude\s*\(\s*(['"`])([^'"`]*)\1\s*,\s*\{([^{}]*)$/;
+
+/**
+ * Names EJS defines in the compiled template function, offered in every tag
+ */
+const EJS_RUNTIME_COMPLETIONS: { name: string; kind: vscode.CompletionItemKind; signature: string; documentation: string }[] = [
+  {
+    name: 'include',
+    kind: vscode.CompletionItemKind.Function,
+    signature: 'include(path, locals)',
+    documentation: 'Renders another template with the given locals and returns its output.'
+  },
+  {
+    name: 'locals',
+    kind: vscode.CompletionItemKind.Variable,
+    signature: 'locals',
+    documentation: 'The object of locals passed to the template.'
+  },
+  {
+    name: '__append',
+    kind: vscode.CompletionItemKind.Function,
+    signature: '__append(text)',
+    documentation: 'Appends text to the template output without escaping it.'
+  },
+  {
+    name: 'escapeFn',
+    kind: vscode.CompletionItemKind.Function,
+    signature: 'escapeFn(value)',
+    documentation: 'Escapes a value for HTML, as `<%= %>` does.'
+  }
+];
+
+/**
+ * Completion item kinds of the TypeScript element kinds offered as members
+ */
+const TYPESCRIPT_COMPLETION_KINDS: Record<string, vscode.CompletionItemKind> = {
+  method: vscode.CompletionItemKind.Method,
+  property: vscode.CompletionItemKind.Property,
+  getter: vscode.CompletionItemKind.Property,
+  setter: vscode.CompletionItemKind.Property,
+  function: vscode.CompletionItemKind.Function,
+  'local function': vscode.CompletionItemKind.Function,
+  class: vscode.CompletionItemKind.Class,
+  const: vscode.CompletionItemKind.Constant,
+  keyword: vscode.CompletionItemKind.Keyword
+};
+
+/**
+ * Provides completion of template variables, EJS built-ins, the locals
+ * declared in `@param` comments and the locals parent templates pass to a
+ * partial, inside EJS tags
+ *
+ * Inside `include()` calls it completes the paths of templates and the keys
+ * of the locals the included partial reads. After a `.` it completes the
+ * members the TypeScript service finds for the type of the object.
+ */
+export class EJSCompletionProvider implements vscode.CompletionItemProvider {
+  /**
+   * Characters triggering completion: quotes start an include path, `/` a path segment, `.` a member
+   */
+  static readonly triggerCharacters = ["'", '"', '`', '/', '.'];
+
+  constructor(
+    private parser: IEJSParser,
+    private symbolAnalyzer: ISymbolAnalyzer,
+    private cache: IDocumentCache,
+    private includeResolver?: IncludeResolver,
+    private workspaceIndex?: IWorkspaceIndex,
+    private typeScriptService?: ITypeScriptService
+  ) {}
+
+  /**
+   * Provide completion items for the position of the cursor
+   * @param document The document in which the command was invoked
+   * @param position The position at which the command was invoked
+   * @param token A cancellation token
+   * @param context How the completion was triggered
+   * @returns Completion items, or null outside JavaScript blocks and, without a TypeScript service, after a `.`
+   */
+  provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken,
+    context: vscode.CompletionContext
+  ): vscode.ProviderResult<vscode.CompletionItem[]> {
+    try {
+      if (token.isCancellationRequested) {
+        return null;
+      }
+
+      // Try to get cached parsed document
+      let parsedDocument = this.cache.getParsedDocument(document.uri.toString(), document.version);
+      if (!parsedDocument) {
+        parsedDocument = this.parser.parseDocument(document);
+        this.cache.setParsedDocument(document.uri.toString(), document.version, parsedDocument);
+      }
+
+      const offset = document.offsetAt(position);
+      const tag = this.findTagAtOffset(parsedDocument.nodes ?? [], offset);
+      if (!tag) {
+        return null;
+      }
+
+      const codeBeforeCursor = document.getText().slice(tag.contentStart, offset);
+      const includePath = INCLUDE_PATH_PATTERN.exec(codeBeforeCursor);
+      if (includePath) {
+        return this.provideIncludePathItems(document, position, includePath[2]);
+      }
+
+      const includeLocals = INCLUDE_LOCALS_PATTERN.exec(codeBeforeCursor);
+      const localItems = includeLocals ? this.provideIncludeLocalKeyItems(document, includeLocals[2], includeLocals[3]) : null;
+      if (localItems) {
+        return localItems;
+      }
+
+      if (this.isMemberAccess(document, position)) {
+        return this.typeScriptService ? this.provideMemberItems(document, position) : null;
+      }
+
+      // Other trigger characters only start include paths
+      if (context.triggerKind === vscode.CompletionTriggerKind.TriggerCharacter) {
+        return null;
+      }
+
+      this.symbolAnalyzer.analyzeSymbols(parsedDocument.jsBlocks);
+      const symbols = this.symbolAnalyzer.findVisibleSymbols(this.getScopePosition(parsedDocument.jsBlocks, tag, position));
+
+      const items = symbols.map(symbol => this.createSymbolItem(symbol));
+      const names = new Set(symbols.map(symbol => symbol.name));
+
+      for (const local of parsedDocument.localDeclarations ?? []) {
+        if (!names.has(local.name)) {
+          items.push(this.createDeclaredLocalItem(local));
+          names.add(local.name);
+        }
+      }
+
+      for (const runtime of EJS_RUNTIME_COMPLETIONS) {
+        if (!names.has(runtime.name)) {
+          items.push(this.createRuntimeItem(runtime));
+        }
+      }
+
+      if (!this.workspaceIndex || document.uri.scheme !== 'file') {
+        return items;
+      }
+      return this.addIncludedLocalItems(items, names, document.uri.fsPath);
+    } catch (error) {
+      // Log error but don't throw - VS Code expects graceful handling
+      console.error('Error in EJS Completion Provider:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Complete the path of an included template, one path segment at a time
+   * @param typedPath Path typed so far between the quote and the cursor
+   */
+  private provideIncludePathItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    typedPath: string
+  ): vscode.CompletionItem[] | null {
+    if (!this.includeResolver || !this.workspaceIndex || document.uri.scheme !== 'file') {
+      return null;
+    }
+
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath;
+    const directories = this.includeResolver.getSearchDirectories(typedPath, document.uri.fsPath, workspaceFolder);
+    // Only the segment after the last `/` is replaced
+    const typedSegment = typedPath.substring(typedPath.lastIndexOf('/') + 1);
+    const range = new vscode.Range(new vscode.Position(position.line, position.character - typedSegment.length), position);
+
+    const items = new Map<string, vscode.CompletionItem>();
+    for (const template of this.workspaceIndex.getTemplates()) {
+      if (template.file === document.uri.fsPath) {
+        continue;
+      }
+
+      for (const directory of directories) {
+        const relativePath = path.relative(directory, template.file);
+        if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+          continue;
+        }
+
+        const [name, ...rest] = relativePath.split(path.sep);
+        const key = rest.length > 0 ? `${name}/` : name;
+        if (items.has(key)) {
+          continue;
+        }
+
+        const item = new vscode.CompletionItem(name, rest.length > 0 ? vscode.CompletionItemKind.Folder : vscode.CompletionItemKind.File);
+        item.range = range;
+        if (rest.length > 0) {
+          item.insertText = key;
+          // Continue with the templates of the folder
+          item.command = { command: 'editor.action.triggerSuggest', title: 'Complete include path' };
+        } else {
+          item.detail = vscode.workspace.asRelativePath(template.file);
+        }
+        items.set(key, item);
+      }
+    }
+
+    return [...items.values()];
+  }
+
+  /**
+   * Complete the keys of the locals object passed to a partial with the names the partial reads
+   * @param includePath Path of the included template
+   * @param writtenLocals Code of the object literal between its `{` and the cursor
+   * @returns Completion items, or null when the cursor is not on a key or the partial is not indexed
+   */
+  private provideIncludeLocalKeyItems(
+    document: vscode.TextDocument,
+    includePath: string,
+    writtenLocals: string
+  ): vscode.CompletionItem[] | null {
+    const entries = writtenLocals.split(',');
+    if (!/^\s*[\w$]*$/.test(entries[entries.length - 1]) || !this.includeResolver || !this.workspaceIndex) {
+      return null;
+    }
+
+    const target = this.includeResolver.resolveFromDocument(includePath, document);
+    const template = target ? this.workspaceIndex.getTemplate(target) : undefined;
+    if (!template) {
+      return null;
+    }
+
+    const writtenKeys = new Set(entries.slice(0, -1).map(entry => /^\s*([\w$]+)/.exec(entry)?.[1]));
+    return template.freeVariables
+      .filter(variable => !writtenKeys.has(variable.name))
+      .map(variable => this.createIncludeLocalKeyItem(variable, template.file));
+  }
+
+  /**
+   * Create the completion item of a local a partial reads
+   */
+  private createIncludeLocalKeyItem(variable: FreeVariable, file: string): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(variable.name, vscode.CompletionItemKind.Property);
+    item.detail = `local of ${vscode.workspace.asRelativePath(file)}`;
+    if (variable.usages && variable.usages.length > 0) {
+      const documentation = new vscode.MarkdownString('**Used by the partial:**\n\n');
+      documentation.appendCodeblock(variable.usages.join('\n'), 'ejs');
+      item.documentation = documentation;
+    }
+    return item;
+  }
+
+  /**
+   * Add the locals parent templates pass to a partial to completion items
+   */
+  private async addIncludedLocalItems(
+    items: vscode.CompletionItem[],
+    declaredNames: Set<string>,
+    file: string
+  ): Promise<vscode.CompletionItem[]> {
+    const valuesByName = new Map<string, string[]>();
+    for (const callSite of await this.workspaceIndex!.findCallSites(file)) {
+      for (const local of callSite.call.locals) {
+        if (declaredNames.has(local.name)) {
+          continue;
+        }
+        if (!valuesByName.has(local.name)) {
+          valuesByName.set(local.name, []);
+        }
+        valuesByName.get(local.name)!.push(`${vscode.workspace.asRelativePath(callSite.file)}: ${local.value.replace(/\s+/g, ' ')}`);
+      }
+    }
+
+    for (const [name, values] of valuesByName) {
+      const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Field);
+      item.detail = 'local passed by include()';
+      const documentation = new vscode.MarkdownString();
+      documentation.appendCodeblock(values.join('\n'), 'javascript');
+      item.documentation = documentation;
+      item.sortText = `1_${name}`;
+      items.push(item);
+    }
+
+    return items;
+  }
+
+  /**
+   * Create the completion item of a template symbol
+   */
+  private createSymbolItem(symbol: SymbolInfo): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(symbol.name, this.getCompletionKind(symbol.kind));
+    item.detail = symbol.kind;
+    if (symbol.value !== undefined) {
+      const documentation = new vscode.MarkdownString();
+      documentation.appendCodeblock(symbol.value, 'javascript');
+      item.documentation = documentation;
+    }
+    // Template variables come first, innermost scope first
+    item.sortText = `0_${symbol.name}`;
+    return item;
+  }
+
+  /**
+   * Create the completion item of a local declared in a comment of the template
+   */
+  private createDeclaredLocalItem(local: LocalDeclaration): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(local.name, vscode.CompletionItemKind.Field);
+    item.detail = local.type;
+    if (local.description) {
+      item.documentation = new vscode.MarkdownString(local.description);
+    }
+    item.sortText = `1_${local.name}`;
+    return item;
+  }
+
+  /**
+   * Complete the members of the object before the `.` at the cursor
+   */
+  private provideMemberItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
+    const completions = this.typeScriptService!.getCompletions(document, document.offsetAt(position));
+    return completions.map(completion => this.createTypeScriptItem(completion));
+  }
+
+  /**
+   * Create the completion item of a member found by the TypeScript service
+   */
+  private createTypeScriptItem(completion: TypeScriptCompletion): vscode.CompletionItem {
+    const kind = TYPESCRIPT_COMPLETION_KINDS[completion.kind] ?? vscode.CompletionItemKind.Variable;
+    const item = new vscode.CompletionItem(completion.name, kind);
+    item.sortText = completion.sortText;
+    return item;
+  }
+
+  /**
+   * Create the completion item of an EJS runtime name
+   */
+  private createRuntimeItem(runtime: typeof EJS_RUNTIME_COMPLETIONS[number]): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(runtime.name, runtime.kind);
+    item.detail = `(EJS) ${runtime.signature}`;
+    item.documentation = new vscode.MarkdownString(runtime.documentation);
+    item.sortText = `2_${runtime.name}`;
+    return item;
+  }
+
+  /**
+   * Get the completion item kind for a symbol kind
+   */
+  private getCompletionKind(kind: SymbolKind): vscode.CompletionItemKind {
+    switch (kind) {
+      case SymbolKind.Constant:
+        return vscode.CompletionItemKind.Constant;
+      case SymbolKind.Function:
+        return vscode.CompletionItemKind.Function;
+      case SymbolKind.Class:
+        return vscode.CompletionItemKind.Class;
+      case SymbolKind.Property:
+        return vscode.CompletionItemKind.Property;
+      default:
+        return vscode.CompletionItemKind.Variable;
+    }
+  }
+
+  /**
+   * Check whether the word at the cursor follows a `.`, where only properties make sense
+   */
+  private isMemberAccess(document: vscode.TextDocument, position: vscode.Position): boolean {
+    const linePrefix = document.lineAt(position.line).text.substring(0, position.character);
+    return /\.\s*[\w$]*$/.test(linePrefix);
+  }
+
+  /**
+   * Get the position whose scope a tag sees; an empty tag has no JavaScript
+   * block, so it sees the scope at the end of the block before it
+   */
+  private getScopePosition(blocks: JavaScriptBlock[], tag: TemplateNode, position: vscode.Position): vscode.Position {
+    if (tag.content.trim() !== '') {
+      return position;
+    }
+    const previous = blocks.filter(block => block.endOffset !== undefined && block.endOffset <= tag.start).pop();
+    return previous ? new vscode.Position(previous.endLine, previous.endCharacter) : position;
+  }
+
+  /**
+   * Find the closed JavaScript tag whose content contains an offset, which
+   * may still be empty, as right after typing `<%=` when `%>` is auto-closed
+   */
+  private findTagAtOffset(nodes: TemplateNode[], offset: number): TemplateNode | null {
+    return nodes.find(node =>
+      node.closed &&
+      (node.type === 'scriptlet' || node.type === 'output' || node.type === 'unescaped') &&
+      node.contentStart <= offset && offset <= node.contentEnd
+    ) ?? null;
+  }
+}
@@ -65,8 +65,7 @@ describe('EJSDefinitionProvider', () => {
       (mockDocument.getText as any).mockReturnValue(content);
       
       vi.spyOn(mockParser, 'parseDocument').mockReturnValue({
-        jsBlocks: [],
-        symbols: []
+        jsBlocks: []
       });
 
       const position = new vscode.Position(0, 5);
@@ -91,8 +90,7 @@ describe('EJSDefinitionProvider', () => {
       }];
 
       vi.spyOn(mockParser, 'parseDocument').mockReturnValue({
-        jsBlocks,
-        symbols: []
+        jsBlocks
       });
 
       const position = new vscode.Position(0, 10);
@@ -124,8 +122,7 @@ describe('EJSDefinitionProvider', () => {
       }];
 
       vi.spyOn(mockParser, 'parseDocument').mockReturnValue({
-        jsBlocks,
-        symbols: []
+        jsBlocks
       });
 
       const position = new vscode.Position(0, 5);
@@ -176,8 +173,7 @@ describe('EJSDefinitionProvider', () => {
       }];
 
       vi.spyOn(mockParser, 'parseDocument').mockReturnValue({
-        jsBlocks,
-        symbols
+        jsBlocks
       });
 
       vi.spyOn(mockSymbolAnalyzer, 'analyzeSymbols').mockReturnValue(symbols);
@@ -213,8 +209,7 @@ describe('EJSDefinitionProvider', () => {
       }];
 
       vi.spyOn(mockParser, 'parseDocument').mockReturnValue({
-        jsBlocks,
-        symbols: []
+        jsBlocks
       });
 
       vi.spyOn(mockSymbolAnalyzer, 'analyzeSymbols').mockReturnValue([]);
@@ -285,8 +280,7 @@ describe('EJSDefinitionProvider', () => {
       ];
 
       vi.spyOn(mockParser, 'parseDocument').mockReturnValue({
-        jsBlocks,
-        symbols
+        jsBlocks
       });
 
       vi.spyOn(mockSymbolAnalyzer, 'analyzeSymbols').mockReturnValue(symbols);
@@ -368,8 +362,7 @@ describe('EJSDefinitionProvider', () => {
       }];
 
       vi.spyOn(mockParser, 'parseDocument').mockReturnValue({
-        jsBlocks,
-        symbols
+        jsBlocks
       });
 
       vi.spyOn(mockSymbolAnalyzer, 'analyzeSymbols').mockReturnValue(symbols);
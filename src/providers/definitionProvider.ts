@@ -3,7 +3,9 @@
  */
 
 import * as vscode from 'vscode';
-import { IEJSParser, ISymbolAnalyzer, IDocumentCache } from '../interfaces';
+import { IEJSParser, ISymbolAnalyzer, IDocumentCache, IWorkspaceIndex } from '../interfaces';
+import { IncludeCall } from '../types';
+import { IncludeResolver } from '../includes/includeResolver';
 import { EJSVisualFeedbackProvider } from './visualFeedbackProvider';
 
 /**
@@ -13,7 +15,9 @@ export class EJSDefinitionProvider implements vscode.DefinitionProvider {
   constructor(
     private parser: IEJSParser,
     private symbolAnalyzer: ISymbolAnalyzer,
-    private cache: IDocumentCache
+    private cache: IDocumentCache,
+    private includeResolver?: IncludeResolver,
+    private workspaceIndex?: IWorkspaceIndex
   ) {}
 
   /**
@@ -86,6 +90,17 @@ export class EJSDefinitionProvider implements vscode.DefinitionProvider {
       return null; // Not inside a JavaScript block
     }
 
+    // An include path leads to the included template
+    if (this.includeResolver) {
+      const include = this.findIncludeAtPosition(this.symbolAnalyzer.findIncludes(parsedDocument.jsBlocks), position);
+      if (include) {
+        const target = include.path !== null ? this.includeResolver.resolveFromDocument(include.path, document) : null;
+        if (target) {
+          return new vscode.Location(vscode.Uri.file(target), new vscode.Position(0, 0));
+        }
+      }
+    }
+
     // Get the word at the current position
     const wordRange = document.getWordRangeAtPosition(position);
     if (!wordRange) {
@@ -102,24 +117,18 @@ export class EJSDefinitionProvider implements vscode.DefinitionProvider {
       return null;
     }
 
-    // Try to get cached symbols
-    let symbolIndex = this.cache.getSymbols(document.uri.toString(), document.version);
+    // Analyze symbols in all JavaScript blocks (reused while the cached blocks are unchanged)
+    this.symbolAnalyzer.analyzeSymbols(parsedDocument.jsBlocks);
     
-    if (!symbolIndex) {
-      // Analyze symbols in all JavaScript blocks
-      const symbols = this.symbolAnalyzer.analyzeSymbols(parsedDocument.jsBlocks);
-      
-      // Create optimized symbol index
-      symbolIndex = this.cache.createSymbolIndex(symbols);
-      
-      // Cache the symbol index
-      this.cache.setSymbols(document.uri.toString(), document.version, symbolIndex);
-    }
-    
-    // Find the definition for this symbol using optimized lookup
-    const definition = this.findSymbolDefinitionOptimized(symbolIndex, symbolName);
+    // Resolve the declaration visible at the cursor
+    const definition = this.symbolAnalyzer.findDefinition(symbolName, wordRange.start);
     if (!definition) {
-      return null; // Definition not found
+      // A local of a partial is defined where a parent passes it to include()
+      const isFreeVariable = this.symbolAnalyzer.findFreeVariables(parsedDocument.jsBlocks).some(variable =>
+        variable.name === symbolName &&
+        variable.references.some(reference => reference.line === wordRange.start.line && reference.character === wordRange.start.character)
+      );
+      return isFreeVariable ? this.findIncludedLocalDefinitions(document, symbolName) : null;
     }
 
     // Convert our Location to VS Code Location
@@ -178,20 +187,54 @@ export class EJSDefinitionProvider implements vscode.DefinitionProvider {
   }
 
   /**
-   * Find the definition of a symbol by name using optimized lookup
-   * @param symbolIndex Optimized symbol index map
-   * @param symbolName Name of the symbol to find
-   * @returns Symbol information if found, null otherwise
+   * Find the include() calls across the workspace that pass a local to a template
+   * @param document The included template
+   * @param name Name of the local
+   * @returns Locations of the property keys passing the local, or null if no call passes it
    */
-  private findSymbolDefinitionOptimized(symbolIndex: Map<string, any[]>, symbolName: string): any | null {
-    const matchingSymbols = symbolIndex.get(symbolName);
-    
-    if (!matchingSymbols || matchingSymbols.length === 0) {
+  private async findIncludedLocalDefinitions(document: vscode.TextDocument, name: string): Promise<vscode.Location[] | null> {
+    if (!this.workspaceIndex) {
       return null;
     }
 
-    // Return the first definition found (symbols are already sorted in the index)
-    return matchingSymbols[0];
+    const locations: vscode.Location[] = [];
+    for (const callSite of await this.workspaceIndex.findCallSites(document.uri.fsPath)) {
+      const local = callSite.call.locals.find(candidate => candidate.name === name);
+      if (local) {
+        locations.push(new vscode.Location(
+          vscode.Uri.file(callSite.file),
+          new vscode.Range(
+            new vscode.Position(local.range.startLine, local.range.startCharacter),
+            new vscode.Position(local.range.endLine, local.range.endCharacter)
+          )
+        ));
+      }
+    }
+
+    return locations.length > 0 ? locations : null;
+  }
+
+  /**
+   * Find the include call whose path contains the given position
+   * @param includes Include calls of the document
+   * @param position Position to check
+   * @returns The include call, or null if the position is not on an include path
+   */
+  private findIncludeAtPosition(includes: IncludeCall[], position: vscode.Position): IncludeCall | null {
+    for (const include of includes) {
+      const { startLine, startCharacter, endLine, endCharacter } = include.range;
+      if (position.line < startLine || position.line > endLine) {
+        continue;
+      }
+      if (position.line === startLine && position.character < startCharacter) {
+        continue;
+      }
+      if (position.line === endLine && position.character > endCharacter) {
+        continue;
+      }
+      return include;
+    }
+    return null;
   }
 
   /**
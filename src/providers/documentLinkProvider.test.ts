@@ -0,0 +1,74 @@
+/**
+ * Tests for EJS Document Link Provider
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { EJSDocumentLinkProvider } from './documentLinkProvider';
+import { EJSParser } from '../parser/ejsParser';
+import { SymbolAnalyzer } from '../analyzer/symbolAnalyzer';
+import { DocumentCacheManager } from '../cache/documentCache';
+import { IncludeResolver } from '../includes/includeResolver';
+import { MockTextDocument } from '../../test/mocks/textDocument';
+
+describe('EJSDocumentLinkProvider', () => {
+  const files = new Set([
+    '/project/views/components/ui/forms/input.ejs',
+    '/project/views/channels/partials/actions.ejs',
+    '/project/views/partials/header.ejs'
+  ]);
+  const token = { isCancellationRequested: false } as vscode.CancellationToken;
+  let provider: EJSDocumentLinkProvider;
+  let cache: DocumentCacheManager;
+
+  beforeEach(() => {
+    cache = new DocumentCacheManager();
+    provider = new EJSDocumentLinkProvider(
+      new EJSParser(),
+      new SymbolAnalyzer(),
+      cache,
+      new IncludeResolver(filePath => files.has(filePath))
+    );
+    vi.spyOn(vscode.workspace, 'getWorkspaceFolder').mockReturnValue({
+      uri: vscode.Uri.file('/project'),
+      name: 'project',
+      index: 0
+    });
+  });
+
+  afterEach(() => {
+    cache.dispose();
+    vi.restoreAllMocks();
+  });
+
+  const provideLinks = (content: string) =>
+    provider.provideDocumentLinks(new MockTextDocument(content, { file: '/project/views/channels/form-modal.ejs' }) as any, token) as vscode.DocumentLink[];
+
+  it('should link include paths built from constant prefixes', () => {
+    const content = [
+      "<% const _viewsPath = '..'; %>",
+      "<%- include(`${_viewsPath}/components/ui/forms/input.ejs`, { label: 'Name' }) %>"
+    ].join('\n');
+
+    const [link] = provideLinks(content);
+
+    expect(link.target!.fsPath).toBe('/project/views/components/ui/forms/input.ejs');
+    expect(link.range.start).toEqual({ line: 1, character: 13 });
+    expect(link.range.end).toEqual({ line: 1, character: 56 });
+  });
+
+  it('should link relative and views-root paths', () => {
+    const links = provideLinks("<%- include('partials/actions') %><%- include('/partials/header') %>");
+
+    expect(links.map(link => link.target!.fsPath)).toEqual([
+      '/project/views/channels/partials/actions.ejs',
+      '/project/views/partials/header.ejs'
+    ]);
+  });
+
+  it('should skip unresolvable and dynamic include paths', () => {
+    const links = provideLinks("<%- include('partials/missing') %><%- include(partialName) %>");
+
+    expect(links).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * VS Code Document Link Provider for EJS templates
+ */
+
+import * as vscode from 'vscode';
+import { IEJSParser, ISymbolAnalyzer, IDocumentCache } from '../interfaces';
+import { IncludeResolver } from '../includes/includeResolver';
+
+/**
+ * Makes the paths of `include()` calls clickable links to the included templates
+ */
+export class EJSDocumentLinkProvider implements vscode.DocumentLinkProvider {
+  constructor(
+    private parser: IEJSParser,
+    private symbolAnalyzer: ISymbolAnalyzer,
+    private cache: IDocumentCache,
+    private includeResolver: IncludeResolver
+  ) {}
+
+  /**
+   * Provide links for the include paths of a document
+   * @param document The document in which the command was invoked
+   * @param token A cancellation token
+   * @returns One link per include whose path resolves to an existing template
+   */
+  provideDocumentLinks(
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.DocumentLink[]> {
+    try {
+      // Try to get cached parsed document
+      let parsedDocument = this.cache.getParsedDocument(document.uri.toString(), document.version);
+      if (!parsedDocument) {
+        parsedDocument = this.parser.parseDocument(document);
+        this.cache.setParsedDocument(document.uri.toString(), document.version, parsedDocument);
+      }
+
+      if (token.isCancellationRequested) {
+        return [];
+      }
+
+      const links: vscode.DocumentLink[] = [];
+      for (const include of this.symbolAnalyzer.findIncludes(parsedDocument.jsBlocks)) {
+        if (include.path === null) {
+          continue; // Only known at render time
+        }
+
+        const target = this.includeResolver.resolveFromDocument(include.path, document);
+        if (!target) {
+          continue; // Reported by the unresolved include diagnostic
+        }
+
+        const range = new vscode.Range(
+          new vscode.Position(include.range.startLine, include.range.startCharacter),
+          new vscode.Position(include.range.endLine, include.range.endCharacter)
+        );
+        const link = new vscode.DocumentLink(range, vscode.Uri.file(target));
+        link.tooltip = `Open ${vscode.workspace.asRelativePath(target)}`;
+        links.push(link);
+      }
+
+      return links;
+    } catch (error) {
+      // Log error but don't throw - VS Code expects graceful handling
+      console.error('Error in EJS Document Link Provider:', error);
+      return [];
+    }
+  }
+}
@@ -54,12 +54,21 @@ describe("EJSHoverProvider", () => {
     mockParser = {
       parseDocument: vi.fn(),
       extractJavaScriptBlocks: vi.fn(),
+      tokenize: vi.fn(),
+      getDelimiters: vi.fn(),
     };
 
     // Create mock symbol analyzer
     mockSymbolAnalyzer = {
       analyzeSymbols: vi.fn(),
       findDefinition: vi.fn(),
+      findVisibleSymbols: vi.fn(),
+      isNameAvailable: vi.fn(),
+      findIncludes: vi.fn().mockReturnValue([]),
+      findFreeVariables: vi.fn(),
+      findUnusedDeclarations: vi.fn(),
+      findTaintFlows: vi.fn(),
+      findSyntaxError: vi.fn()
     };
 
     // Create mock document
@@ -107,7 +116,6 @@ describe("EJSHoverProvider", () => {
             tagType: "scriptlet",
           },
         ],
-        symbols: [],
       };
 
       vi.mocked(mockParser.parseDocument).mockReturnValue(parsedDocument);
@@ -134,7 +142,6 @@ describe("EJSHoverProvider", () => {
             tagType: "scriptlet",
           },
         ],
-        symbols: [],
       };
 
       vi.mocked(mockParser.parseDocument).mockReturnValue(parsedDocument);
@@ -166,7 +173,6 @@ describe("EJSHoverProvider", () => {
             tagType: "scriptlet",
           },
         ],
-        symbols: [],
       };
 
       vi.mocked(mockParser.parseDocument).mockReturnValue(parsedDocument);
@@ -199,7 +205,6 @@ describe("EJSHoverProvider", () => {
             tagType: "scriptlet",
           },
         ],
-        symbols: [],
       };
 
       vi.mocked(mockParser.parseDocument).mockReturnValue(parsedDocument);
@@ -233,7 +238,6 @@ describe("EJSHoverProvider", () => {
             tagType: "scriptlet",
           },
         ],
-        symbols: [],
       };
 
       const symbolInfo: SymbolInfo = {
@@ -3,17 +3,36 @@
  */
 
 import * as vscode from "vscode";
-import { IEJSParser, ISymbolAnalyzer, IDocumentCache } from "../interfaces";
-import { SymbolInfo, JavaScriptBlock } from "../types";
+import {
+  IEJSParser,
+  ISymbolAnalyzer,
+  IDocumentCache,
+  IWorkspaceIndex,
+  ITypeScriptService,
+} from "../interfaces";
+import {
+  SymbolInfo,
+  JavaScriptBlock,
+  IncludeCall,
+  IncludeCallSite,
+  FreeVariable,
+  LocalDeclaration,
+  TypeScriptQuickInfo,
+} from "../types";
 
 /**
  * Provides hover information for variables in EJS templates
+ *
+ * With a TypeScript service, hovers also show the type TypeScript infers,
+ * including for properties and globals the template does not declare.
  */
 export class EJSHoverProvider implements vscode.HoverProvider {
   constructor(
     private parser: IEJSParser,
     private symbolAnalyzer: ISymbolAnalyzer,
-    private cache: IDocumentCache
+    private cache: IDocumentCache,
+    private workspaceIndex?: IWorkspaceIndex,
+    private typeScriptService?: ITypeScriptService
   ) {}
 
   /**
@@ -112,41 +131,94 @@ export class EJSHoverProvider implements vscode.HoverProvider {
         return null;
       }
 
-      // Try to get cached symbols
-      let symbolIndex = this.cache.getSymbols(
-        document.uri.toString(),
-        document.version
-      );
-
-      if (!symbolIndex) {
-        // Analyze symbols in all JavaScript blocks
-        const symbols = this.symbolAnalyzer.analyzeSymbols(
-          parsedDocument.jsBlocks
-        );
-
-        // Create optimized symbol index
-        symbolIndex = this.cache.createSymbolIndex(symbols);
+      // Analyze symbols in all JavaScript blocks (reused while the cached blocks are unchanged)
+      this.symbolAnalyzer.analyzeSymbols(parsedDocument.jsBlocks);
 
-        // Cache the symbol index
-        this.cache.setSymbols(
-          document.uri.toString(),
-          document.version,
-          symbolIndex
+      // A key of the locals passed to include() shows how the partial uses it
+      const include = this.findIncludeWithLocalAt(
+        this.symbolAnalyzer.findIncludes(parsedDocument.jsBlocks),
+        wordRange.start
+      );
+      if (include && this.workspaceIndex) {
+        const callSite = (
+          await this.workspaceIndex.findIncludedTemplates(document.uri.fsPath)
+        ).find(
+          (candidate) =>
+            candidate.call.callRange.startLine === include.callRange.startLine &&
+            candidate.call.callRange.startCharacter ===
+              include.callRange.startCharacter
         );
+        const variable = callSite
+          ? this.workspaceIndex
+              .getTemplate(callSite.target)
+              ?.freeVariables.find((candidate) => candidate.name === symbolName)
+          : undefined;
+        return callSite && variable
+          ? new vscode.Hover(
+              this.createPartialLocalHoverContent(variable, callSite.target),
+              wordRange
+            )
+          : null;
       }
 
-      // Find the definition for this symbol using optimized lookup
-      // symbolIndex is guaranteed to be non-null at this point
-      const definition = this.findSymbolDefinitionOptimized(
-        symbolIndex!,
-        symbolName
+      // Resolve the declaration visible at the cursor
+      const definition = this.symbolAnalyzer.findDefinition(
+        symbolName,
+        wordRange.start
       );
       if (!definition) {
-        return null; // Definition not found
+        // A local of a partial shows the values its parents pass to include()
+        const isFreeVariable = this.symbolAnalyzer
+          .findFreeVariables(parsedDocument.jsBlocks)
+          .some(
+            (variable) =>
+              variable.name === symbolName &&
+              variable.references.some(
+                (reference) =>
+                  reference.line === wordRange.start.line &&
+                  reference.character === wordRange.start.character
+              )
+          );
+        if (!isFreeVariable) {
+          // Properties and globals only have the type TypeScript infers
+          return this.createTypeScriptHover(document, wordRange);
+        }
+
+        // A declared local shows its declared type
+        const declaration = parsedDocument.localDeclarations?.find(
+          (local) => local.name === symbolName
+        );
+        if (declaration) {
+          return new vscode.Hover(
+            this.createDeclaredLocalHoverContent(declaration, document),
+            wordRange
+          );
+        }
+        if (!this.workspaceIndex) {
+          return null; // Definition not found
+        }
+
+        const callSites = await this.workspaceIndex.findCallSites(
+          document.uri.fsPath
+        );
+        const localContent = this.createIncludedLocalHoverContent(
+          symbolName,
+          callSites
+        );
+        return localContent ? new vscode.Hover(localContent, wordRange) : null;
       }
 
-      // Create hover content
-      const hoverContent = this.createHoverContent(definition, document);
+      // Create hover content, with the type TypeScript infers when available
+      const typeInfo =
+        this.typeScriptService?.getQuickInfo(
+          document,
+          document.offsetAt(wordRange.start)
+        ) ?? null;
+      const hoverContent = this.createHoverContent(
+        definition,
+        document,
+        typeInfo
+      );
 
       return new vscode.Hover(hoverContent, wordRange);
     } catch (error) {
@@ -199,26 +271,6 @@ export class EJSHoverProvider implements vscode.HoverProvider {
     return null;
   }
 
-  /**
-   * Find the definition of a symbol by name using optimized lookup
-   * @param symbolIndex Optimized symbol index map
-   * @param symbolName Name of the symbol to find
-   * @returns Symbol information if found, null otherwise
-   */
-  private findSymbolDefinitionOptimized(
-    symbolIndex: Map<string, any[]>,
-    symbolName: string
-  ): any | null {
-    const matchingSymbols = symbolIndex.get(symbolName);
-
-    if (!matchingSymbols || matchingSymbols.length === 0) {
-      return null;
-    }
-
-    // Return the first definition found (symbols are already sorted in the index)
-    return matchingSymbols[0];
-  }
-
   /**
    * Find the definition of a symbol by name (legacy method for compatibility)
    * @param symbols Array of all symbols found in the document
@@ -312,25 +364,31 @@ export class EJSHoverProvider implements vscode.HoverProvider {
    * Create formatted hover content for a symbol definition
    * @param definition The symbol definition
    * @param document The document containing the symbol
+   * @param typeInfo Type information of the TypeScript service, shown instead of the kind and value
    * @returns Formatted hover content
    */
   private createHoverContent(
     definition: any,
-    document: vscode.TextDocument
+    document: vscode.TextDocument,
+    typeInfo: TypeScriptQuickInfo | null = null
   ): vscode.MarkdownString {
     const content = new vscode.MarkdownString();
     content.isTrusted = true;
 
     // Add symbol name and type
-    const symbolType = this.getSymbolTypeDisplay(definition.kind);
-    content.appendCodeblock(`${symbolType} ${definition.name}`, "javascript");
+    if (typeInfo) {
+      content.appendCodeblock(typeInfo.display, "typescript");
+    } else {
+      const symbolType = this.getSymbolTypeDisplay(definition.kind);
+      content.appendCodeblock(`${symbolType} ${definition.name}`, "javascript");
+    }
 
     // Add definition location
     const definitionLine = definition.definition.line + 1; // Convert to 1-based line numbers
     content.appendMarkdown(`\n**Definition:** Line ${definitionLine}`);
 
-    // Add value if available
-    if (definition.value !== undefined && definition.value !== null) {
+    // Add value if available and not already described by its type
+    if (!typeInfo && definition.value !== undefined && definition.value !== null) {
       content.appendMarkdown(`\n\n**Value:** \`${definition.value}\``);
     }
 
@@ -350,6 +408,145 @@ export class EJSHoverProvider implements vscode.HoverProvider {
     return content;
   }
 
+  /**
+   * Create hover content for a local declared in a comment of the template or in its schema file
+   * @param declaration The declaration of the local
+   * @param document The document containing the declaration
+   * @returns Formatted hover content
+   */
+  private createDeclaredLocalHoverContent(
+    declaration: LocalDeclaration,
+    document: vscode.TextDocument
+  ): vscode.MarkdownString {
+    // Descriptions come from the workspace, so they are shown as text in untrusted markdown
+    const content = new vscode.MarkdownString();
+    content.appendCodeblock(
+      `(local) ${declaration.name}: ${declaration.type}`,
+      "typescript"
+    );
+    if (declaration.description) {
+      content.appendText(`\n${declaration.description}\n`);
+    }
+
+    if (declaration.file) {
+      const file = vscode.workspace.asRelativePath(declaration.file);
+      content.appendMarkdown(`\n**Declared in:** ${file}`);
+    } else {
+      const declarationLine = document.positionAt(declaration.start).line + 1; // Convert to 1-based line numbers
+      content.appendMarkdown(`\n**Declared:** Line ${declarationLine}`);
+    }
+
+    return content;
+  }
+
+  /**
+   * Create a hover showing only what TypeScript knows about the word at a range
+   * @param document The document containing the word
+   * @param wordRange Range of the word
+   * @returns The hover, or null without a TypeScript service or type information
+   */
+  private createTypeScriptHover(
+    document: vscode.TextDocument,
+    wordRange: vscode.Range
+  ): vscode.Hover | null {
+    const info = this.typeScriptService?.getQuickInfo(
+      document,
+      document.offsetAt(wordRange.start)
+    );
+    if (!info) {
+      return null;
+    }
+
+    const content = new vscode.MarkdownString();
+    content.appendCodeblock(info.display, "typescript");
+    if (info.documentation) {
+      content.appendMarkdown(`\n${info.documentation}`);
+    }
+    return new vscode.Hover(content, wordRange);
+  }
+
+  /**
+   * Create hover content listing the include() calls that pass a local to a partial
+   * @param name Name of the local
+   * @param callSites Include calls rendering the partial
+   * @returns Formatted hover content, or null if no call passes the local
+   */
+  private createIncludedLocalHoverContent(
+    name: string,
+    callSites: IncludeCallSite[]
+  ): vscode.MarkdownString | null {
+    const passedValues: string[] = [];
+    for (const callSite of callSites) {
+      const local = callSite.call.locals.find(
+        (candidate) => candidate.name === name
+      );
+      if (local) {
+        const file = vscode.workspace.asRelativePath(callSite.file);
+        const line = local.range.startLine + 1; // Convert to 1-based line numbers
+        const value = local.value.replace(/\s+/g, " ");
+        passedValues.push(`- ${file}:${line} — \`${value}\``);
+      }
+    }
+
+    if (passedValues.length === 0) {
+      return null;
+    }
+
+    // The values are code of other templates, so the markdown is left untrusted
+    const content = new vscode.MarkdownString();
+    content.appendCodeblock(`local ${name}`, "javascript");
+    content.appendMarkdown(
+      `\n**Passed by include():**\n\n${passedValues.join("\n")}`
+    );
+
+    return content;
+  }
+
+  /**
+   * Find the include call passing a local whose key contains the given position
+   * @param includes The include calls of the document
+   * @param position Position to check
+   * @returns The include call, or null if the position is not on a key
+   */
+  private findIncludeWithLocalAt(
+    includes: IncludeCall[],
+    position: vscode.Position
+  ): IncludeCall | null {
+    for (const include of includes) {
+      const onKey = include.locals.some(
+        (local) =>
+          local.range.startLine === position.line &&
+          local.range.startCharacter <= position.character &&
+          position.character <= local.range.endCharacter
+      );
+      if (onKey) {
+        return include;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Create hover content for a local passed to a partial, showing how the partial uses it
+   * @param variable The name the partial reads without declaring it
+   * @param file Absolute path of the partial
+   * @returns Formatted hover content
+   */
+  private createPartialLocalHoverContent(
+    variable: FreeVariable,
+    file: string
+  ): vscode.MarkdownString {
+    const content = new vscode.MarkdownString();
+    content.isTrusted = true;
+    content.appendCodeblock(`local ${variable.name}`, "javascript");
+    content.appendMarkdown(
+      `\n**Used by** ${vscode.workspace.asRelativePath(file)}**:**\n\n`
+    );
+    content.appendCodeblock((variable.usages ?? []).join("\n"), "ejs");
+
+    return content;
+  }
+
   /**
    * Get display text for symbol type
    * @param kind The symbol kind
@@ -365,6 +562,10 @@ export class EJSHoverProvider implements vscode.HoverProvider {
         return "parameter";
       case "property":
         return "property";
+      case "function":
+        return "function";
+      case "class":
+        return "class";
       default:
         return "variable";
     }
@@ -387,6 +588,12 @@ export class EJSHoverProvider implements vscode.HoverProvider {
         return "Function parameter";
       case "destructured":
         return "Destructured assignment";
+      case "function":
+        return "Function declaration";
+      case "class":
+        return "Class declaration";
+      case "catch":
+        return "Caught exception";
       default:
         return "Variable declaration";
     }
@@ -0,0 +1,140 @@
+/**
+ * Tests for EJS Reference Provider
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { EJSReferenceProvider } from './referenceProvider';
+import { EJSParser } from '../parser/ejsParser';
+import { SymbolAnalyzer } from '../analyzer/symbolAnalyzer';
+import { DocumentCacheManager } from '../cache/documentCache';
+import { IncludeResolver } from '../includes/includeResolver';
+import { IWorkspaceIndex } from '../interfaces';
+import { MockTextDocument } from '../../test/mocks/textDocument';
+
+describe('EJSReferenceProvider', () => {
+  let provider: EJSReferenceProvider;
+  let cache: DocumentCacheManager;
+  const token = { isCancellationRequested: false } as vscode.CancellationToken;
+
+  beforeEach(() => {
+    cache = new DocumentCacheManager();
+    provider = new EJSReferenceProvider(new EJSParser(), new SymbolAnalyzer(), cache);
+  });
+
+  afterEach(() => {
+    cache.dispose();
+  });
+
+  const findReferences = (content: string, line: number, character: number, includeDeclaration = true) => {
+    const result = provider.provideReferences(
+      new MockTextDocument(content) as any,
+      new vscode.Position(line, character),
+      { includeDeclaration },
+      token
+    ) as vscode.Location[] | null;
+    return result?.map(location => [location.range.start.line, location.range.start.character]) ?? null;
+  };
+
+  const template = [
+    '<% let count = 0; %>',
+    '<p><%= count %></p>',
+    '<% count += 1; %>',
+    '<%- count %>'
+  ].join('\n');
+
+  it('should list the declaration and every usage across tags', () => {
+    expect(findReferences(template, 1, 8)).toEqual([
+      [0, 7],
+      [1, 7],
+      [2, 3],
+      [3, 4]
+    ]);
+  });
+
+  it('should leave out the declaration when requested', () => {
+    expect(findReferences(template, 0, 8, false)).toEqual([
+      [1, 7],
+      [2, 3],
+      [3, 4]
+    ]);
+  });
+
+  it('should keep shadowed variables apart', () => {
+    const content = [
+      '<% const item = featured; %>',
+      '<% items.forEach((item) => { %>',
+      '  <%= item %>',
+      '<% }) %>',
+      '<%= item %>'
+    ].join('\n');
+
+    expect(findReferences(content, 2, 7)).toEqual([[1, 18], [2, 6]]);
+    expect(findReferences(content, 4, 5)).toEqual([[0, 9], [4, 4]]);
+  });
+
+  it('should return null outside JavaScript blocks', () => {
+    expect(findReferences('<p>count</p><% let count = 0; %>', 0, 4)).toBeNull();
+  });
+
+  it('should return null for names not declared in the template', () => {
+    expect(findReferences('<%= title %>', 0, 5)).toBeNull();
+  });
+
+  describe('across templates', () => {
+    const parent = '/project/views/pages/home.ejs';
+    const partial = '/project/views/components/input.ejs';
+    const parentContent = [
+      "<%- include('../components/input', { label: 'Name' }) %>",
+      "<%- include('../components/input', { label: title, required: true }) %>"
+    ].join('\n');
+
+    beforeEach(() => {
+      const parser = new EJSParser();
+      const callSites = new SymbolAnalyzer()
+        .findIncludes(parser.extractJavaScriptBlocks(parentContent))
+        .map(call => ({ file: parent, target: partial, call }));
+      const workspaceIndex = {
+        findCallSites: vi.fn(async (file: string) => file === partial ? callSites : [])
+      } as unknown as IWorkspaceIndex;
+      const includeResolver = new IncludeResolver(file => file === partial);
+
+      provider = new EJSReferenceProvider(parser, new SymbolAnalyzer(), cache, includeResolver, workspaceIndex);
+    });
+
+    const findLocations = async (content: string, file: string, line: number, character: number, includeDeclaration = true) => {
+      const result = await provider.provideReferences(
+        new MockTextDocument(content, { file }) as any,
+        new vscode.Position(line, character),
+        { includeDeclaration },
+        token
+      );
+      return result?.map(location => [location.uri.fsPath, location.range.start.line, location.range.start.character]) ?? null;
+    };
+
+    it('should list the include calls rendering a partial outside JavaScript blocks', async () => {
+      expect(await findLocations('<label><%= label %></label>', partial, 0, 2)).toEqual([
+        [parent, 0, 4],
+        [parent, 1, 4]
+      ]);
+    });
+
+    it('should list the include calls rendering the partial of an include path', async () => {
+      expect(await findLocations(parentContent, parent, 0, 16)).toEqual([
+        [parent, 0, 4],
+        [parent, 1, 4]
+      ]);
+    });
+
+    it('should list the keys passing a local and its uses in the partial', async () => {
+      const content = '<label><%= label %><% if (required) { %>*<% } %></label>';
+
+      expect(await findLocations(content, partial, 0, 12)).toEqual([
+        [parent, 0, 37],
+        [parent, 1, 37],
+        [partial, 0, 11]
+      ]);
+      expect(await findLocations(content, partial, 0, 12, false)).toEqual([[partial, 0, 11]]);
+    });
+  });
+});
\ No newline at end of file
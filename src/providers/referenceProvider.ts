@@ -0,0 +1,210 @@
+/**
+ * VS Code Reference Provider for EJS templates
+ */
+
+import * as vscode from 'vscode';
+import { IEJSParser, ISymbolAnalyzer, IDocumentCache, IWorkspaceIndex } from '../interfaces';
+import { IncludeCall, JavaScriptBlock, Location, TextRange } from '../types';
+import { IncludeResolver } from '../includes/includeResolver';
+
+/**
+ * Provides "Find All References" functionality for EJS templates
+ *
+ * With a workspace index, references also cross templates: a partial, or an
+ * include path leading to it, is referenced by every include() call
+ * rendering it, and a partial's local by every call passing it.
+ */
+export class EJSReferenceProvider implements vscode.ReferenceProvider {
+  constructor(
+    private parser: IEJSParser,
+    private symbolAnalyzer: ISymbolAnalyzer,
+    private cache: IDocumentCache,
+    private includeResolver?: IncludeResolver,
+    private workspaceIndex?: IWorkspaceIndex
+  ) {}
+
+  /**
+   * Provide every usage of the symbol at the given position
+   * @param document The document in which the command was invoked
+   * @param position The position at which the command was invoked
+   * @param context Whether to include the declaration
+   * @param token A cancellation token
+   * @returns Locations of the declaration and every read and write, or null if not found
+   */
+  provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext,
+    token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.Location[]> {
+    try {
+      if (token.isCancellationRequested) {
+        return null;
+      }
+
+      // Try to get cached parsed document
+      let parsedDocument = this.cache.getParsedDocument(document.uri.toString(), document.version);
+      if (!parsedDocument) {
+        parsedDocument = this.parser.parseDocument(document);
+        this.cache.setParsedDocument(document.uri.toString(), document.version, parsedDocument);
+      }
+
+      // Outside JavaScript blocks the template itself is referenced, by the includes rendering it
+      if (!this.findBlockAtPosition(parsedDocument.jsBlocks, position)) {
+        return this.workspaceIndex ? this.findIncludeReferences(document.uri.fsPath) : null;
+      }
+
+      // An include path references the included template
+      const include = this.findIncludeAtPosition(this.symbolAnalyzer.findIncludes(parsedDocument.jsBlocks), position);
+      const target = include && include.path !== null && this.includeResolver
+        ? this.includeResolver.resolveFromDocument(include.path, document)
+        : null;
+      if (target && this.workspaceIndex) {
+        return this.findIncludeReferences(target);
+      }
+
+      const wordRange = document.getWordRangeAtPosition(position);
+      if (!wordRange) {
+        return null;
+      }
+
+      const symbolName = document.getText(wordRange);
+      this.symbolAnalyzer.analyzeSymbols(parsedDocument.jsBlocks);
+
+      const definition = this.symbolAnalyzer.findDefinition(symbolName, wordRange.start);
+      if (!definition) {
+        return this.workspaceIndex
+          ? this.findLocalReferences(document, parsedDocument.jsBlocks, symbolName, wordRange, context)
+          : null;
+      }
+
+      return definition.references
+        .filter(reference => context.includeDeclaration || !this.isSameLocation(reference, definition.definition))
+        .map(reference => new vscode.Location(
+          document.uri,
+          new vscode.Range(
+            new vscode.Position(reference.line, reference.character),
+            new vscode.Position(reference.line, reference.character + reference.length)
+          )
+        ));
+    } catch (error) {
+      // Log error but don't throw - VS Code expects graceful handling
+      console.error('Error in EJS Reference Provider:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find the include() calls across the workspace that render a template
+   * @param file Absolute path of the included template
+   * @returns Locations of the whole calls, so the peek view shows the locals each one passes
+   */
+  async findIncludeReferences(file: string): Promise<vscode.Location[]> {
+    if (!this.workspaceIndex) {
+      return [];
+    }
+
+    const callSites = await this.workspaceIndex.findCallSites(file);
+    return callSites.map(callSite => new vscode.Location(vscode.Uri.file(callSite.file), this.toRange(callSite.call.callRange)));
+  }
+
+  /**
+   * Find the uses of a partial's local and the include() calls passing it
+   * @returns Locations of the uses and of the passing property keys, or null if the name is not a local
+   */
+  private async findLocalReferences(
+    document: vscode.TextDocument,
+    jsBlocks: JavaScriptBlock[],
+    symbolName: string,
+    wordRange: vscode.Range,
+    context: vscode.ReferenceContext
+  ): Promise<vscode.Location[] | null> {
+    const variable = this.symbolAnalyzer.findFreeVariables(jsBlocks).find(candidate =>
+      candidate.name === symbolName &&
+      candidate.references.some(reference => reference.line === wordRange.start.line && reference.character === wordRange.start.character)
+    );
+    if (!variable || !this.workspaceIndex) {
+      return null;
+    }
+
+    const locations: vscode.Location[] = [];
+
+    // The keys passing the local play the part of its declaration
+    if (context.includeDeclaration) {
+      for (const callSite of await this.workspaceIndex.findCallSites(document.uri.fsPath)) {
+        const local = callSite.call.locals.find(candidate => candidate.name === symbolName);
+        if (local) {
+          locations.push(new vscode.Location(vscode.Uri.file(callSite.file), this.toRange(local.range)));
+        }
+      }
+    }
+
+    for (const reference of variable.references) {
+      locations.push(new vscode.Location(
+        document.uri,
+        new vscode.Range(
+          new vscode.Position(reference.line, reference.character),
+          new vscode.Position(reference.line, reference.character + reference.length)
+        )
+      ));
+    }
+
+    return locations;
+  }
+
+  /**
+   * Find the include call whose path contains the given position
+   */
+  private findIncludeAtPosition(includes: IncludeCall[], position: vscode.Position): IncludeCall | null {
+    for (const include of includes) {
+      const { startLine, startCharacter, endLine, endCharacter } = include.range;
+      if (position.line < startLine || position.line > endLine) {
+        continue;
+      }
+      if (position.line === startLine && position.character < startCharacter) {
+        continue;
+      }
+      if (position.line === endLine && position.character > endCharacter) {
+        continue;
+      }
+      return include;
+    }
+    return null;
+  }
+
+  /**
+   * Convert a template range to a VS Code range
+   */
+  private toRange(range: TextRange): vscode.Range {
+    return new vscode.Range(
+      new vscode.Position(range.startLine, range.startCharacter),
+      new vscode.Position(range.endLine, range.endCharacter)
+    );
+  }
+
+  /**
+   * Find the JavaScript block that contains the given position
+   */
+  private findBlockAtPosition(blocks: JavaScriptBlock[], position: vscode.Position): JavaScriptBlock | null {
+    for (const block of blocks) {
+      if (position.line < block.startLine || position.line > block.endLine) {
+        continue;
+      }
+      if (position.line === block.startLine && position.character < block.startCharacter) {
+        continue;
+      }
+      if (position.line === block.endLine && position.character > block.endCharacter) {
+        continue;
+      }
+      return block;
+    }
+    return null;
+  }
+
+  /**
+   * Check whether two locations point at the same place
+   */
+  private isSameLocation(a: Location, b: Location): boolean {
+    return a.line === b.line && a.character === b.character;
+  }
+}
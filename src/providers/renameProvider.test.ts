@@ -0,0 +1,153 @@
+/**
+ * Tests for EJS Rename Provider
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as vscode from 'vscode';
+import { EJSRenameProvider } from './renameProvider';
+import { EJSParser } from '../parser/ejsParser';
+import { SymbolAnalyzer } from '../analyzer/symbolAnalyzer';
+import { DocumentCacheManager } from '../cache/documentCache';
+import { MockTextDocument } from '../../test/mocks/textDocument';
+
+// Apply edits to a template, for checking the renamed template
+const applyEdit = (content: string, edit: vscode.WorkspaceEdit): string => {
+  const lines = content.split('\n');
+  const edits = [...(edit as any).edits].sort((a, b) =>
+    b.range.start.line - a.range.start.line || b.range.start.character - a.range.start.character
+  );
+  for (const { range, newText } of edits) {
+    const line = lines[range.start.line];
+    lines[range.start.line] = line.substring(0, range.start.character) + newText + line.substring(range.end.character);
+  }
+  return lines.join('\n');
+};
+
+describe('EJSRenameProvider', () => {
+  let provider: EJSRenameProvider;
+  let cache: DocumentCacheManager;
+  const token = { isCancellationRequested: false } as vscode.CancellationToken;
+
+  beforeEach(() => {
+    cache = new DocumentCacheManager();
+    provider = new EJSRenameProvider(new EJSParser(), new SymbolAnalyzer(), cache);
+  });
+
+  afterEach(() => {
+    cache.dispose();
+  });
+
+  const rename = (content: string, line: number, character: number, newName: string): string => {
+    const document = new MockTextDocument(content);
+    const edit = provider.provideRenameEdits(document as any, new vscode.Position(line, character), newName, token);
+    return applyEdit(content, edit as vscode.WorkspaceEdit);
+  };
+
+  describe('prepareRename', () => {
+    it('should return the range and name of a declared variable', () => {
+      const document = new MockTextDocument('<% const title = "Home"; %><h1><%= title %></h1>');
+      const result = provider.prepareRename(document as any, new vscode.Position(0, 38), token) as any;
+
+      expect(result.placeholder).toBe('title');
+      expect(result.range.start).toEqual({ line: 0, character: 35 });
+    });
+
+    it('should reject positions outside JavaScript blocks', () => {
+      const document = new MockTextDocument('<p>title</p><% const title = 1; %>');
+
+      expect(() => provider.prepareRename(document as any, new vscode.Position(0, 4), token))
+        .toThrow('Only variables inside EJS tags can be renamed.');
+    });
+
+    it('should reject positions after the last line of a multi-line tag', () => {
+      const document = new MockTextDocument('<% const item = 1;\n   const b = item; %><p>item</p>');
+
+      expect(() => provider.prepareRename(document as any, new vscode.Position(1, 25), token))
+        .toThrow('Only variables inside EJS tags can be renamed.');
+    });
+
+    it('should reject names not declared in the template', () => {
+      const document = new MockTextDocument('<%= user.name %>');
+
+      expect(() => provider.prepareRename(document as any, new vscode.Position(0, 5), token))
+        .toThrow(`'user' is not declared in this template.`);
+    });
+  });
+
+  describe('provideRenameEdits', () => {
+    it('should rename the declaration and every usage in output tags', () => {
+      const content = [
+        '<% let count = items.length; %>',
+        '<p><%= count %> items</p>',
+        '<%- count > 0 ? list : "" %>'
+      ].join('\n');
+
+      expect(rename(content, 1, 8, 'total')).toBe([
+        '<% let total = items.length; %>',
+        '<p><%= total %> items</p>',
+        '<%- total > 0 ? list : "" %>'
+      ].join('\n'));
+    });
+
+    it('should respect shadowing', () => {
+      const content = [
+        '<% const item = featured; %>',
+        '<% items.forEach((item) => { %><%= item %><% }) %>',
+        '<%= item %>'
+      ].join('\n');
+
+      expect(rename(content, 1, 19, 'entry')).toBe([
+        '<% const item = featured; %>',
+        '<% items.forEach((entry) => { %><%= entry %><% }) %>',
+        '<%= item %>'
+      ].join('\n'));
+    });
+
+    it('should keep property keys of shorthand properties', () => {
+      const content = '<% const { name } = user; const data = { name }; %>';
+
+      expect(rename(content, 0, 11, 'userName')).toBe(
+        '<% const { name: userName } = user; const data = { name: userName }; %>'
+      );
+    });
+
+    it('should refuse keywords and invalid identifiers', () => {
+      const document = new MockTextDocument('<% const a = 1; %>');
+      const position = new vscode.Position(0, 9);
+
+      expect(() => provider.provideRenameEdits(document as any, position, 'class', token)).toThrow('not a valid variable name');
+      expect(() => provider.provideRenameEdits(document as any, position, '1a', token)).toThrow('not a valid variable name');
+    });
+
+    it('should accept non-ASCII identifiers', () => {
+      expect(rename('<% const a = 1; %><%= a %>', 0, 9, 'größe')).toBe('<% const größe = 1; %><%= größe %>');
+    });
+
+    it('should refuse names declared in the same scope', () => {
+      const document = new MockTextDocument('<% const a = 1; const b = 2; %>');
+
+      expect(() => provider.provideRenameEdits(document as any, new vscode.Position(0, 9), 'b', token))
+        .toThrow(`'b' is already used in this scope.`);
+    });
+
+    it('should refuse names that would shadow or capture other variables', () => {
+      const content = [
+        '<% const a = 1; %>',
+        '<% [1].forEach((b) => { %><%= a + b %><% }) %>',
+        '<%= user %>'
+      ].join('\n');
+      const document = new MockTextDocument(content);
+      const position = new vscode.Position(0, 9);
+
+      // `b` would shadow `a` inside the callback; `user` is a template local used in scope
+      expect(() => provider.provideRenameEdits(document as any, position, 'b', token)).toThrow('already used');
+      expect(() => provider.provideRenameEdits(document as any, position, 'user', token)).toThrow('already used');
+    });
+
+    it('should allow names only declared in unrelated inner scopes', () => {
+      const content = '<% const a = 1; if (x) { let b = 2; } %><%= a %>';
+
+      expect(rename(content, 0, 9, 'b')).toBe('<% const b = 1; if (x) { let b = 2; } %><%= b %>');
+    });
+  });
+});
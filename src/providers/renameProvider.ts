@@ -0,0 +1,121 @@
+/**
+ * VS Code Rename Provider for EJS templates
+ */
+
+import * as vscode from 'vscode';
+import { IEJSParser, ISymbolAnalyzer, IDocumentCache } from '../interfaces';
+import { JavaScriptBlock, SymbolInfo } from '../types';
+import { isVariableName } from '../analyzer/globals';
+
+/**
+ * Provides "Rename Symbol" functionality for variables declared in EJS templates
+ */
+export class EJSRenameProvider implements vscode.RenameProvider {
+  constructor(
+    private parser: IEJSParser,
+    private symbolAnalyzer: ISymbolAnalyzer,
+    private cache: IDocumentCache
+  ) {}
+
+  /**
+   * Check that the symbol at the given position can be renamed
+   * @param document The document in which rename was invoked
+   * @param position The position at which rename was invoked
+   * @param token A cancellation token
+   * @returns The range and current name of the symbol
+   * @throws Error with a user-facing message when the position cannot be renamed
+   */
+  prepareRename(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): vscode.ProviderResult<{ range: vscode.Range; placeholder: string }> {
+    const { wordRange, definition } = this.resolveSymbol(document, position);
+    return { range: wordRange, placeholder: definition.name };
+  }
+
+  /**
+   * Compute the edits renaming the symbol at the given position
+   * @param document The document in which rename was invoked
+   * @param position The position at which rename was invoked
+   * @param newName The new name of the symbol
+   * @param token A cancellation token
+   * @returns Edits replacing the declaration and every reference
+   * @throws Error with a user-facing message when the new name is invalid or collides
+   */
+  provideRenameEdits(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    newName: string,
+    token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.WorkspaceEdit> {
+    const { definition } = this.resolveSymbol(document, position);
+
+    if (!isVariableName(newName)) {
+      throw new Error(`'${newName}' is not a valid variable name.`);
+    }
+    if (newName === definition.name) {
+      return new vscode.WorkspaceEdit();
+    }
+    if (!this.symbolAnalyzer.isNameAvailable(definition, newName)) {
+      throw new Error(`'${newName}' is already used in this scope.`);
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const reference of definition.references) {
+      const range = new vscode.Range(
+        new vscode.Position(reference.line, reference.character),
+        new vscode.Position(reference.line, reference.character + reference.length)
+      );
+      // `{ name }` must keep its property key: `{ name: newName }`
+      const text = reference.shorthand ? `${definition.name}: ${newName}` : newName;
+      edit.replace(document.uri, range, text);
+    }
+
+    return edit;
+  }
+
+  /**
+   * Find the template-local symbol at a position
+   * @throws Error with a user-facing message when there is no renameable symbol
+   */
+  private resolveSymbol(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): { wordRange: vscode.Range; definition: SymbolInfo } {
+    // Try to get cached parsed document
+    let parsedDocument = this.cache.getParsedDocument(document.uri.toString(), document.version);
+    if (!parsedDocument) {
+      parsedDocument = this.parser.parseDocument(document);
+      this.cache.setParsedDocument(document.uri.toString(), document.version, parsedDocument);
+    }
+
+    if (!this.findBlockAt(parsedDocument.jsBlocks, document.offsetAt(position))) {
+      throw new Error('Only variables inside EJS tags can be renamed.');
+    }
+
+    const wordRange = document.getWordRangeAtPosition(position);
+    const symbolName = wordRange ? document.getText(wordRange) : '';
+    if (!wordRange || !isVariableName(symbolName)) {
+      throw new Error('The element cannot be renamed.');
+    }
+
+    this.symbolAnalyzer.analyzeSymbols(parsedDocument.jsBlocks);
+    const definition = this.symbolAnalyzer.findDefinition(symbolName, wordRange.start);
+    if (!definition) {
+      throw new Error(`'${symbolName}' is not declared in this template.`);
+    }
+
+    return { wordRange, definition };
+  }
+
+  /**
+   * Find the JavaScript block that contains the given position
+   */
+  private findBlockAt(blocks: JavaScriptBlock[], offset: number): JavaScriptBlock | null {
+    return blocks.find(block =>
+      block.startOffset !== undefined && block.endOffset !== undefined &&
+      block.startOffset <= offset && offset <= block.endOffset
+    ) ?? null;
+  }
+}
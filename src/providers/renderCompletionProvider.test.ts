@@ -0,0 +1,66 @@
+/**
+ * Tests for the res.render() view name completion of controllers
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { EJSRenderCompletionProvider } from './renderCompletionProvider';
+import { IncludeResolver } from '../includes/includeResolver';
+import { IWorkspaceIndex } from '../interfaces';
+import { MockTextDocument } from '../../test/mocks/textDocument';
+
+describe('EJSRenderCompletionProvider', () => {
+  const token = { isCancellationRequested: false } as vscode.CancellationToken;
+  const templates = [
+    '/project/views/home.ejs',
+    '/project/views/channels/form-modal.ejs',
+    '/project/views/channels/list.ejs',
+    '/project/views/channels/partials/row.ejs'
+  ];
+  let provider: EJSRenderCompletionProvider;
+
+  beforeEach(() => {
+    const workspaceIndex = { getTemplates: () => templates.map(file => ({ file })) } as unknown as IWorkspaceIndex;
+    provider = new EJSRenderCompletionProvider(new IncludeResolver(), workspaceIndex);
+    vi.spyOn(vscode.workspace, 'getWorkspaceFolder').mockReturnValue({
+      uri: vscode.Uri.file('/project'),
+      name: 'project',
+      index: 0
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const complete = (line: string) =>
+    provider.provideCompletionItems(
+      new MockTextDocument(line, { file: '/project/routes/channels.js', languageId: 'javascript' }) as any,
+      new vscode.Position(0, line.length),
+      token
+    ) as vscode.CompletionItem[] | null;
+
+  it('should complete view names from the views root without their extension', () => {
+    const items = complete("  res.render('")!;
+
+    expect(items.map(item => [item.label, item.kind])).toEqual([
+      ['home', vscode.CompletionItemKind.File],
+      ['channels', vscode.CompletionItemKind.Folder]
+    ]);
+    expect(items[1].insertText).toBe('channels/');
+    expect(items[1].command!.command).toBe('editor.action.triggerSuggest');
+  });
+
+  it('should complete the views of a folder, replacing the typed segment', () => {
+    const items = complete("  res.render('channels/fo")!;
+
+    expect(items.map(item => item.label)).toEqual(['form-modal', 'list', 'partials']);
+    expect(items[0].detail).toBe('/project/views/channels/form-modal.ejs');
+    expect((items[0].range as vscode.Range).start).toEqual({ line: 0, character: 23 });
+  });
+
+  it('should not complete outside the view name of a render call', () => {
+    expect(complete("  res.render('home', { title: '")).toBeNull();
+    expect(complete("  res.json('")).toBeNull();
+  });
+});
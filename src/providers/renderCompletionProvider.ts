@@ -0,0 +1,104 @@
+/**
+ * VS Code Completion Provider for the view names of res.render() calls in JavaScript and TypeScript files
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { IWorkspaceIndex } from '../interfaces';
+import { IncludeResolver } from '../includes/includeResolver';
+
+/**
+ * Matches code ending inside the view name string of a `res.render()` call
+ */
+const RENDER_VIEW_PATTERN = /\.render\s*\(\s*(['"`])([^'"`]*)$/;
+
+/**
+ * Extension left out of the completed view names, as Express appends it
+ */
+const TEMPLATE_EXTENSION = '.ejs';
+
+/**
+ * Completes the view names of `res.render()` calls in controllers with the
+ * templates of the views root, one folder at a time
+ */
+export class EJSRenderCompletionProvider implements vscode.CompletionItemProvider {
+  /**
+   * Characters triggering completion: quotes start a view name, `/` a path segment
+   */
+  static readonly triggerCharacters = ["'", '"', '`', '/'];
+
+  constructor(
+    private includeResolver: IncludeResolver,
+    private workspaceIndex: IWorkspaceIndex
+  ) {}
+
+  /**
+   * Provide completion items for the position of the cursor
+   * @param document The document in which the command was invoked
+   * @param position The position at which the command was invoked
+   * @param token A cancellation token
+   * @returns Templates and folders of the views root, or null outside the view name of a render call
+   */
+  provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.CompletionItem[]> {
+    try {
+      if (token.isCancellationRequested || document.uri.scheme !== 'file') {
+        return null;
+      }
+
+      const lineBeforeCursor = document.getText(new vscode.Range(new vscode.Position(position.line, 0), position));
+      const view = RENDER_VIEW_PATTERN.exec(lineBeforeCursor);
+      if (!view) {
+        return null;
+      }
+
+      const typedView = view[2];
+      const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath;
+      const directory = this.includeResolver.getViewSearchDirectory(typedView, workspaceFolder);
+      if (!directory) {
+        return null;
+      }
+
+      // Only the segment after the last `/` is replaced
+      const typedSegment = typedView.substring(typedView.lastIndexOf('/') + 1);
+      const range = new vscode.Range(new vscode.Position(position.line, position.character - typedSegment.length), position);
+
+      const items = new Map<string, vscode.CompletionItem>();
+      for (const template of this.workspaceIndex.getTemplates()) {
+        const relativePath = path.relative(directory, template.file);
+        if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+          continue;
+        }
+
+        const [name, ...rest] = relativePath.split(path.sep);
+        const key = rest.length > 0 ? `${name}/` : path.basename(name, TEMPLATE_EXTENSION);
+        if (items.has(key)) {
+          continue;
+        }
+
+        const item = new vscode.CompletionItem(
+          rest.length > 0 ? name : key,
+          rest.length > 0 ? vscode.CompletionItemKind.Folder : vscode.CompletionItemKind.File
+        );
+        item.range = range;
+        if (rest.length > 0) {
+          item.insertText = key;
+          // Continue with the templates of the folder
+          item.command = { command: 'editor.action.triggerSuggest', title: 'Complete view name' };
+        } else {
+          item.detail = vscode.workspace.asRelativePath(template.file);
+        }
+        items.set(key, item);
+      }
+
+      return [...items.values()];
+    } catch (error) {
+      // Log error but don't throw - VS Code expects graceful handling
+      console.error('Error in EJS Render Completion Provider:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Tests for the res.render() view name links of controllers
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { EJSRenderLinkProvider } from './renderLinkProvider';
+import { RenderCallIndex } from '../workspace/renderCallIndex';
+import { IncludeResolver } from '../includes/includeResolver';
+
+describe('EJSRenderLinkProvider', () => {
+  const files = new Set(['/project/views/channels/form-modal.ejs', '/project/views/home/index.ejs']);
+  const token = { isCancellationRequested: false } as vscode.CancellationToken;
+  let provider: EJSRenderLinkProvider;
+
+  beforeEach(() => {
+    provider = new EJSRenderLinkProvider(new RenderCallIndex(new IncludeResolver(filePath => files.has(filePath))));
+    vi.spyOn(vscode.workspace, 'getWorkspaceFolder').mockReturnValue({
+      uri: vscode.Uri.file('/project'),
+      name: 'project',
+      index: 0
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should link the view names of render calls to their templates', () => {
+    const content = [
+      "router.get('/channels/new', (req, res) => {",
+      "  res.render('channels/form-modal', { editing: false, BASE_URL });",
+      '});',
+      "router.get('/', (req, res) => res.render('home'));",
+      "router.get('/missing', (req, res) => res.render('missing'));"
+    ].join('\n');
+    const document = { uri: vscode.Uri.file('/project/routes/channels.js'), getText: () => content };
+
+    const links = provider.provideDocumentLinks(document as any, token) as vscode.DocumentLink[];
+
+    expect(links.map(link => link.target!.fsPath)).toEqual(['/project/views/channels/form-modal.ejs', '/project/views/home/index.ejs']);
+    expect(links[0].range.start).toEqual({ line: 1, character: 14 });
+    expect(links[0].range.end).toEqual({ line: 1, character: 33 });
+    expect(links[0].tooltip).toBe('Open /project/views/channels/form-modal.ejs');
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * VS Code Document Link Provider for the res.render() calls of JavaScript and TypeScript files
+ */
+
+import * as vscode from 'vscode';
+import { RenderCallIndex } from '../workspace/renderCallIndex';
+
+/**
+ * Makes the view names of `res.render()` calls in controllers clickable
+ * links to the rendered templates
+ */
+export class EJSRenderLinkProvider implements vscode.DocumentLinkProvider {
+  constructor(private renderCallIndex: RenderCallIndex) {}
+
+  /**
+   * Provide links for the view names of a document
+   * @param document The document in which the command was invoked
+   * @param token A cancellation token
+   * @returns One link per render call whose view resolves to an existing template
+   */
+  provideDocumentLinks(
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.DocumentLink[]> {
+    try {
+      const links: vscode.DocumentLink[] = [];
+      for (const call of this.renderCallIndex.getRenderCalls(document)) {
+        if (token.isCancellationRequested) {
+          return [];
+        }
+
+        const target = this.renderCallIndex.resolveView(call, document);
+        if (!target) {
+          continue;
+        }
+
+        const range = new vscode.Range(
+          new vscode.Position(call.range.startLine, call.range.startCharacter),
+          new vscode.Position(call.range.endLine, call.range.endCharacter)
+        );
+        const link = new vscode.DocumentLink(range, vscode.Uri.file(target));
+        link.tooltip = `Open ${vscode.workspace.asRelativePath(target)}`;
+        links.push(link);
+      }
+
+      return links;
+    } catch (error) {
+      // Log error but don't throw - VS Code expects graceful handling
+      console.error('Error in EJS Render Link Provider:', error);
+      return [];
+    }
+  }
+}
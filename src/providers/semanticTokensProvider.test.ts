@@ -0,0 +1,63 @@
+/**
+ * Tests for EJS Semantic Tokens Provider
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as vscode from 'vscode';
+import { EJSSemanticTokensProvider } from './semanticTokensProvider';
+import { EJSParser } from '../parser/ejsParser';
+import { MockTextDocument } from '../../test/mocks/textDocument';
+
+describe('EJSSemanticTokensProvider', () => {
+  let parser: EJSParser;
+  let provider: EJSSemanticTokensProvider;
+  const token = { isCancellationRequested: false } as vscode.CancellationToken;
+
+  beforeEach(() => {
+    parser = new EJSParser();
+    provider = new EJSSemanticTokensProvider(parser);
+  });
+
+  const provide = (content: string): number[] => {
+    const result = provider.provideDocumentSemanticTokens(new MockTextDocument(content) as any, token) as vscode.SemanticTokens;
+    return Array.from(result.data);
+  };
+
+  it('should expose a legend with the delimiter and comment token types', () => {
+    expect(EJSSemanticTokensProvider.legend.tokenTypes).toEqual(['ejsDelimiter', 'comment']);
+  });
+
+  it('should return no tokens for templates using the default delimiters', () => {
+    expect(provide('<% const a = 1; %><%= a %>')).toEqual([]);
+  });
+
+  it('should highlight custom delimiters configured for all templates', () => {
+    parser.setDelimiters({ delimiter: '?', openDelimiter: '[', closeDelimiter: ']' });
+
+    // [?= name ?] -> opening "[?=" (3 chars) and closing "?]" (2 chars)
+    expect(provide('<p>[?= name ?]</p>')).toEqual([
+      0, 3, 3, 0, 0,
+      0, 9, 2, 0, 0
+    ]);
+  });
+
+  it('should highlight delimiters declared by a file directive', () => {
+    const content = '<!-- ejs-delimiters: {% %} -->\n{%# note %}';
+
+    // The example tags in the directive form an empty tag of their own
+    expect(provide(content)).toEqual([
+      0, 21, 2, 0, 0,
+      0, 3, 2, 0, 0,
+      1, 0, 11, 1, 0
+    ]);
+  });
+
+  it('should split multi-line comments into one token per line', () => {
+    parser.setDelimiters({ delimiter: '?' });
+
+    expect(provide('<?# one\ntwo ?>')).toEqual([
+      0, 0, 7, 1, 0,
+      1, 0, 6, 1, 0
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * VS Code Semantic Tokens Provider for EJS templates
+ * Highlights tags written with custom delimiters, which the TextMate grammar cannot know about
+ */
+
+import * as vscode from 'vscode';
+import { IEJSParser } from '../interfaces';
+import { EJSDelimiters, TemplateNode } from '../types';
+import { DEFAULT_DELIMITERS } from '../parser/ejsTokenizer';
+
+/**
+ * Provides semantic highlighting for EJS tag delimiters and comments
+ */
+export class EJSSemanticTokensProvider implements vscode.DocumentSemanticTokensProvider {
+  private static _legend: vscode.SemanticTokensLegend | undefined;
+
+  /**
+   * Token types contributed by the extension; `ejsDelimiter` is mapped to the
+   * grammar's embedded punctuation scope in package.json
+   */
+  static get legend(): vscode.SemanticTokensLegend {
+    if (!this._legend) {
+      this._legend = new vscode.SemanticTokensLegend(['ejsDelimiter', 'comment']);
+    }
+    return this._legend;
+  }
+
+  constructor(private parser: IEJSParser) {}
+
+  /**
+   * Provide semantic tokens for the tags of a document
+   * @param document The document to highlight
+   * @param token A cancellation token
+   * @returns Semantic tokens, empty for templates using the default `<% %>` delimiters
+   */
+  provideDocumentSemanticTokens(
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.SemanticTokens> {
+    const builder = new vscode.SemanticTokensBuilder(EJSSemanticTokensProvider.legend);
+
+    try {
+      const content = document.getText();
+      const delimiters = this.parser.getDelimiters(content);
+
+      // The TextMate grammar already highlights the default delimiters
+      if (this.isDefaultDelimiters(delimiters) || token.isCancellationRequested) {
+        return builder.build();
+      }
+
+      for (const node of this.parser.tokenize(content)) {
+        this.pushNode(builder, document, content, node);
+      }
+    } catch (error) {
+      console.error('Error in EJS Semantic Tokens Provider:', error);
+    }
+
+    return builder.build();
+  }
+
+  /**
+   * Push the tokens of a single template node
+   */
+  private pushNode(
+    builder: vscode.SemanticTokensBuilder,
+    document: vscode.TextDocument,
+    content: string,
+    node: TemplateNode
+  ): void {
+    switch (node.type) {
+      case 'text':
+        return;
+      case 'literal':
+        this.pushRange(builder, document, content, node.start, node.end, 'ejsDelimiter');
+        return;
+      case 'comment':
+        this.pushRange(builder, document, content, node.start, node.end, 'comment');
+        return;
+      default:
+        this.pushRange(builder, document, content, node.start, node.contentStart, 'ejsDelimiter');
+        if (node.closed) {
+          this.pushRange(builder, document, content, node.contentEnd, node.end, 'ejsDelimiter');
+        }
+    }
+  }
+
+  /**
+   * Push a token for an offset range, split into one token per line
+   */
+  private pushRange(
+    builder: vscode.SemanticTokensBuilder,
+    document: vscode.TextDocument,
+    content: string,
+    start: number,
+    end: number,
+    tokenType: string
+  ): void {
+    const typeIndex = EJSSemanticTokensProvider.legend.tokenTypes.indexOf(tokenType);
+    let lineStart = start;
+
+    while (lineStart < end) {
+      const newline = content.indexOf('\n', lineStart);
+      const lineEnd = newline === -1 || newline >= end ? end : newline;
+
+      if (lineEnd > lineStart) {
+        const position = document.positionAt(lineStart);
+        builder.push(position.line, position.character, lineEnd - lineStart, typeIndex, 0);
+      }
+
+      lineStart = lineEnd + 1;
+    }
+  }
+
+  /**
+   * Check whether delimiters are the EJS defaults
+   */
+  private isDefaultDelimiters(delimiters: EJSDelimiters): boolean {
+    return delimiters.delimiter === DEFAULT_DELIMITERS.delimiter &&
+      delimiters.openDelimiter === DEFAULT_DELIMITERS.openDelimiter &&
+      delimiters.closeDelimiter === DEFAULT_DELIMITERS.closeDelimiter;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Tests for EJS Signature Help Provider
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { EJSSignatureHelpProvider } from './signatureHelpProvider';
+import { ITypeScriptService } from '../interfaces';
+
+describe('EJSSignatureHelpProvider', () => {
+  const token = { isCancellationRequested: false } as vscode.CancellationToken;
+  const document = { offsetAt: () => 42 } as unknown as vscode.TextDocument;
+
+  it('should convert the signatures of the TypeScript service', () => {
+    const typeScriptService = {
+      getSignatureHelp: vi.fn().mockReturnValue({
+        signatures: [{
+          label: 'format(price: any, currency: any): string',
+          documentation: 'Formats a price.',
+          parameters: [{ label: 'price: any', documentation: '' }, { label: 'currency: any', documentation: '' }]
+        }],
+        activeSignature: 0,
+        activeParameter: 1
+      })
+    } as unknown as ITypeScriptService;
+
+    const help = new EJSSignatureHelpProvider(typeScriptService)
+      .provideSignatureHelp(document, new vscode.Position(0, 0), token) as vscode.SignatureHelp;
+
+    expect(typeScriptService.getSignatureHelp).toHaveBeenCalledWith(document, 42);
+    expect(help.signatures[0].label).toBe('format(price: any, currency: any): string');
+    expect(help.signatures[0].documentation).toBe('Formats a price.');
+    expect(help.signatures[0].parameters.map(parameter => parameter.label)).toEqual(['price: any', 'currency: any']);
+    expect(help.signatures[0].parameters[0].documentation).toBeUndefined();
+    expect(help.activeParameter).toBe(1);
+  });
+
+  it('should provide nothing outside the arguments of a call', () => {
+    const typeScriptService = { getSignatureHelp: vi.fn().mockReturnValue(null) } as unknown as ITypeScriptService;
+
+    expect(new EJSSignatureHelpProvider(typeScriptService).provideSignatureHelp(document, new vscode.Position(0, 0), token)).toBeNull();
+  });
+});
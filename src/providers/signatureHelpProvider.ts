@@ -0,0 +1,59 @@
+/**
+ * VS Code Signature Help Provider for EJS templates
+ */
+
+import * as vscode from 'vscode';
+import { ITypeScriptService } from '../interfaces';
+
+/**
+ * Shows the parameters of the function being called inside EJS tags, as the
+ * TypeScript service finds them for the JavaScript of the template
+ */
+export class EJSSignatureHelpProvider implements vscode.SignatureHelpProvider {
+  /**
+   * Characters triggering signature help: `(` starts the arguments, `,` the next one
+   */
+  static readonly triggerCharacters = ['(', ','];
+
+  constructor(private typeScriptService: ITypeScriptService) {}
+
+  /**
+   * Provide the signatures of the call surrounding the cursor
+   * @param document The document in which the command was invoked
+   * @param position The position at which the command was invoked
+   * @param token A cancellation token
+   * @returns The signatures with the active parameter, or null outside the arguments of a call
+   */
+  provideSignatureHelp(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): vscode.ProviderResult<vscode.SignatureHelp> {
+    try {
+      if (token.isCancellationRequested) {
+        return null;
+      }
+
+      const help = this.typeScriptService.getSignatureHelp(document, document.offsetAt(position));
+      if (!help) {
+        return null;
+      }
+
+      const signatureHelp = new vscode.SignatureHelp();
+      signatureHelp.signatures = help.signatures.map(signature => {
+        const information = new vscode.SignatureInformation(signature.label, signature.documentation || undefined);
+        information.parameters = signature.parameters.map(parameter =>
+          new vscode.ParameterInformation(parameter.label, parameter.documentation || undefined)
+        );
+        return information;
+      });
+      signatureHelp.activeSignature = help.activeSignature;
+      signatureHelp.activeParameter = help.activeParameter;
+      return signatureHelp;
+    } catch (error) {
+      // Log error but don't throw - VS Code expects graceful handling
+      console.error('Error in EJS Signature Help Provider:', error);
+      return null;
+    }
+  }
+}
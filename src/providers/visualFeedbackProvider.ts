@@ -74,10 +74,10 @@ export class EJSVisualFeedbackProvider implements vscode.DocumentHighlightProvid
       }
 
       // Analyze symbols in all JavaScript blocks
-      const symbols = this.symbolAnalyzer.analyzeSymbols(parsedDocument.jsBlocks);
+      this.symbolAnalyzer.analyzeSymbols(parsedDocument.jsBlocks);
       
-      // Find the definition for this symbol
-      const definition = this.findSymbolDefinition(symbols, symbolName);
+      // Resolve the declaration visible at the cursor
+      const definition = this.symbolAnalyzer.findDefinition(symbolName, wordRange.start);
       if (!definition) {
         return null;
       }
@@ -85,26 +85,18 @@ export class EJSVisualFeedbackProvider implements vscode.DocumentHighlightProvid
       // Create highlights for the symbol
       const highlights: vscode.DocumentHighlight[] = [];
 
-      // Highlight the definition
-      const definitionRange = new vscode.Range(
-        definition.definition.line,
-        definition.definition.character,
-        definition.definition.line,
-        definition.definition.character + definition.name.length
-      );
-      highlights.push(new vscode.DocumentHighlight(definitionRange, vscode.DocumentHighlightKind.Write));
-
-      // Highlight all references
-      if (definition.references) {
-        for (const reference of definition.references) {
-          const referenceRange = new vscode.Range(
-            reference.line,
-            reference.character,
-            reference.line,
-            reference.character + definition.name.length
-          );
-          highlights.push(new vscode.DocumentHighlight(referenceRange, vscode.DocumentHighlightKind.Read));
-        }
+      // Highlight the definition and every reference; the definition is the first reference
+      for (const reference of definition.references) {
+        const referenceRange = new vscode.Range(
+          reference.line,
+          reference.character,
+          reference.line,
+          reference.character + definition.name.length
+        );
+        const kind = reference.access === 'write'
+          ? vscode.DocumentHighlightKind.Write
+          : vscode.DocumentHighlightKind.Read;
+        highlights.push(new vscode.DocumentHighlight(referenceRange, kind));
       }
 
       return highlights;
@@ -161,10 +153,10 @@ export class EJSVisualFeedbackProvider implements vscode.DocumentHighlightProvid
       }
 
       // Analyze symbols in all JavaScript blocks
-      const symbols = this.symbolAnalyzer.analyzeSymbols(parsedDocument.jsBlocks);
+      this.symbolAnalyzer.analyzeSymbols(parsedDocument.jsBlocks);
       
-      // Check if this symbol has a definition
-      const definition = this.findSymbolDefinition(symbols, symbolName);
+      // Check if this symbol has a definition visible at the cursor
+      const definition = this.symbolAnalyzer.findDefinition(symbolName, wordRange.start);
       return definition !== null;
     } catch (error) {
       console.error('Error checking if over defined variable:', error);
@@ -201,26 +193,6 @@ export class EJSVisualFeedbackProvider implements vscode.DocumentHighlightProvid
     return null;
   }
 
-  /**
-   * Find the definition of a symbol by name
-   */
-  private findSymbolDefinition(symbols: any[], symbolName: string): any | null {
-    const matchingSymbols = symbols.filter(symbol => symbol.name === symbolName);
-    
-    if (matchingSymbols.length === 0) {
-      return null;
-    }
-
-    matchingSymbols.sort((a, b) => {
-      if (a.definition.line !== b.definition.line) {
-        return a.definition.line - b.definition.line;
-      }
-      return a.definition.character - b.definition.character;
-    });
-
-    return matchingSymbols[0];
-  }
-
   /**
    * Check if a string is a valid JavaScript identifier
    */
@@ -9,6 +9,32 @@ import * as vscode from 'vscode';
  */
 export type EJSTagType = 'scriptlet' | 'output' | 'unescaped';
 
+/**
+ * Represents the different kinds of nodes in a tokenized EJS template
+ */
+export type TemplateNodeType = 'text' | EJSTagType | 'comment' | 'literal';
+
+/**
+ * Represents EJS delimiter modifiers
+ * - slurp: `<%_` / `_%>` strip all whitespace before / after the tag
+ * - trim-newline: `-%>` strips the newline following the tag
+ * - literal: `<%%` / `%%>` render the delimiter itself
+ */
+export type EJSTagModifier = 'slurp' | 'trim-newline' | 'literal';
+
+/**
+ * Represents the characters EJS tags are built from, mirroring the EJS
+ * `delimiter`, `openDelimiter` and `closeDelimiter` options
+ */
+export interface EJSDelimiters {
+  /** Inner delimiter, `%` in `<% %>` */
+  delimiter: string;
+  /** Character opening a tag, `<` in `<% %>` */
+  openDelimiter: string;
+  /** Character closing a tag, `>` in `<% %>` */
+  closeDelimiter: string;
+}
+
 /**
  * Represents different kinds of symbols that can be defined
  */
@@ -16,19 +42,27 @@ export enum SymbolKind {
   Variable = 'variable',
   Constant = 'constant',
   Parameter = 'parameter',
-  Property = 'property'
+  Property = 'property',
+  Function = 'function',
+  Class = 'class'
 }
 
 /**
  * Represents different types of variable declarations
  */
-export type DeclarationType = 'const' | 'let' | 'var' | 'parameter' | 'destructured';
+export type DeclarationType = 'const' | 'let' | 'var' | 'parameter' | 'destructured' | 'function' | 'class' | 'catch';
 
 /**
  * Represents different scopes where variables can be defined
+ * - global: the top level of the template, i.e. the function EJS compiles it into
  */
 export type SymbolScope = 'global' | 'block' | 'function';
 
+/**
+ * Represents whether a reference reads or writes a variable
+ */
+export type ReferenceAccess = 'read' | 'write';
+
 /**
  * Represents a location within a document
  */
@@ -36,6 +70,12 @@ export interface Location {
   line: number;
   character: number;
   length: number;
+  /** Whether the symbol is read or written at this location, for references */
+  access?: ReferenceAccess;
+  /** True when the identifier is also the key of a shorthand property such as `{ name }` */
+  shorthand?: boolean;
+  /** True when the use of a free variable is guarded by a `typeof name !== 'undefined'` check */
+  guarded?: boolean;
 }
 
 /**
@@ -48,6 +88,295 @@ export interface JavaScriptBlock {
   startCharacter: number;
   endCharacter: number;
   tagType: EJSTagType;
+  /** Modifier of the opening delimiter, e.g. slurp for `<%_` */
+  openModifier?: EJSTagModifier;
+  /** Modifier of the closing delimiter, e.g. trim-newline for `-%>` */
+  closeModifier?: EJSTagModifier;
+  /** Offset of the first character of the content within the template */
+  startOffset?: number;
+  /** Offset just past the last character of the content within the template */
+  endOffset?: number;
+}
+
+/**
+ * Represents a range of template text
+ */
+export interface TextRange {
+  startLine: number;
+  startCharacter: number;
+  endLine: number;
+  endCharacter: number;
+}
+
+/**
+ * Represents a template variable that is declared but never read
+ */
+export interface UnusedDeclaration {
+  name: string;
+  /** Range of the declaring identifier */
+  range: TextRange;
+  /** Range of the declaration statement when removing it removes only the variable, without effects of its initializer, otherwise null */
+  statementRange: TextRange | null;
+}
+
+/**
+ * Represents a completion the TypeScript language service offers in a template
+ */
+export interface TypeScriptCompletion {
+  name: string;
+  /** TypeScript element kind, such as `method` or `property` */
+  kind: string;
+  sortText: string;
+}
+
+/**
+ * Represents the type information of the TypeScript language service at a
+ * template position; offsets are within the template
+ */
+export interface TypeScriptQuickInfo {
+  /** Declaration with its type, such as `const title: string` */
+  display: string;
+  documentation: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Represents the signatures of the call surrounding a template position
+ */
+export interface TypeScriptSignatureHelp {
+  signatures: {
+    label: string;
+    documentation: string;
+    parameters: { label: string; documentation: string }[];
+  }[];
+  activeSignature: number;
+  activeParameter: number;
+}
+
+/**
+ * Represents an error the TypeScript language service finds in a template;
+ * offsets are within the template
+ */
+export interface TypeScriptDiagnostic {
+  message: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Represents a problem with the blocks and HTML elements of a template
+ * nesting across tags; ranges are offsets within the template
+ */
+export interface BlockStructureIssue {
+  /** `bracket` for unbalanced brackets, `element` for HTML elements crossing a block */
+  kind: 'bracket' | 'element';
+  message: string;
+  start: number;
+  end: number;
+  /** The other end of the problem, such as the opening bracket of a mismatched pair */
+  related: { message: string; start: number; end: number }[];
+}
+
+/**
+ * Represents a local a template declares in a JSDoc comment, such as
+ * `<%# @param {string} title Page title %>`; offsets are within the template
+ */
+export interface LocalDeclaration {
+  name: string;
+  /** TypeScript type as written, such as `import('../types').User` */
+  type: string;
+  description: string;
+  /** Offsets of the name in the comment, or in the declaring file */
+  start: number;
+  end: number;
+  /** Absolute path of the file declaring the local, when it is not the template */
+  file?: string;
+  /** Type the virtual TypeScript document declares the local with, when it is not the written type */
+  typeReference?: string;
+}
+
+/**
+ * Represents the locals a template declares in a `.ejs.d.ts` or `.locals.json`
+ * file next to it
+ */
+export interface LocalsSchema {
+  /** Absolute path of the schema file */
+  file: string;
+  locals: LocalDeclaration[];
+  /** Names of the locals every include() of the template must provide */
+  required: string[];
+  /** Whether locals the schema does not declare may be passed */
+  allowsOtherLocals: boolean;
+}
+
+/**
+ * Represents a syntax error in the JavaScript of a template
+ */
+export interface TemplateSyntaxError {
+  message: string;
+  range: TextRange;
+  /** True when the template ended before the code was complete, as it does after a bracket left open */
+  atEnd: boolean;
+}
+
+/**
+ * Represents a step of the flow of untrusted data through a template
+ */
+export interface TaintStep {
+  /** `source` for the tainted value itself, `assignment` for a constant it is assigned to */
+  kind: 'source' | 'assignment';
+  /** Source text of the tainted value, or the name of the constant */
+  name: string;
+  range: TextRange;
+}
+
+/**
+ * Represents untrusted data reaching an output tag
+ */
+export interface TaintFlow {
+  /** Output tag the data is written by */
+  block: JavaScriptBlock;
+  /** Range of the output expression */
+  range: TextRange;
+  /** Steps from the source to the output, in order */
+  steps: TaintStep[];
+}
+
+/**
+ * Kinds of HTML context an output tag can write into
+ */
+export type HtmlContextKind = 'text' | 'attribute' | 'url' | 'script' | 'style';
+
+/**
+ * Represents the HTML context an output tag writes into
+ */
+export interface HtmlContext {
+  kind: HtmlContextKind;
+  /** Lower-case name of the attribute whose value the tag writes, if any */
+  attribute?: string;
+  /** Whether the attribute value is quoted */
+  quoted: boolean;
+  /** Whether nothing precedes the tag in the attribute value */
+  atValueStart: boolean;
+}
+
+/**
+ * Represents an `include()` call in a template
+ */
+export interface IncludeCall {
+  /** Include path with constants folded in, or null when it depends on runtime values */
+  path: string | null;
+  /** Source text of the path argument */
+  expression: string;
+  /** Range of the path argument, without the quotes of a string or template literal */
+  range: TextRange;
+  /** Range of the whole call, from `include` to the closing parenthesis */
+  callRange: TextRange;
+  /** Properties of the locals object literal passed to the partial */
+  locals: IncludeLocal[];
+  /** True when the locals are not an object literal, or it spreads or computes some of its keys */
+  dynamicLocals?: boolean;
+}
+
+/**
+ * Represents a property of the locals object passed to `include()`
+ */
+export interface IncludeLocal {
+  name: string;
+  /** Source text of the property value */
+  value: string;
+  /** Range of the property key */
+  range: TextRange;
+}
+
+/**
+ * Represents an `include()` call found in a template of the workspace
+ */
+export interface IncludeCallSite {
+  /** Absolute path of the including template */
+  file: string;
+  /** Absolute path of the template the call renders */
+  target: string;
+  call: IncludeCall;
+}
+
+/**
+ * Represents a `res.render()` call in a JavaScript or TypeScript file
+ */
+export interface RenderCall {
+  /** View name as written, such as `channels/form-modal` */
+  view: string;
+  /** Range of the view name, without its quotes */
+  range: TextRange;
+  /** Range of the whole call, from the receiver to the closing parenthesis */
+  callRange: TextRange;
+  /** Properties of the locals object literal passed to the view */
+  locals: IncludeLocal[];
+  /** Source text of the locals argument, or null when the call passes none */
+  localsText: string | null;
+}
+
+/**
+ * Represents a `res.render()` call found in a source file of the workspace
+ */
+export interface RenderCallSite {
+  /** Absolute path of the file making the call */
+  file: string;
+  /** Absolute path of the template the call renders */
+  target: string;
+  call: RenderCall;
+}
+
+/**
+ * Represents what the workspace index records about a template
+ */
+export interface TemplateIndexEntry {
+  /** Absolute path of the template */
+  file: string;
+  /** The template's include() calls */
+  includes: IncludeCall[];
+  /** Names declared at the top level of the template */
+  declarations: string[];
+  /** Names the template uses without declaring them */
+  freeVariables: FreeVariable[];
+}
+
+/**
+ * Represents a name a template uses without declaring it, such as a local
+ * passed by `include()` or `res.render()`
+ */
+export interface FreeVariable {
+  name: string;
+  /** Every use of the name, in document order */
+  references: Location[];
+  /** Trimmed template lines of the uses, recorded by the workspace index */
+  usages?: string[];
+}
+
+/**
+ * Represents a single node of the template AST produced by the EJS tokenizer
+ */
+export interface TemplateNode {
+  type: TemplateNodeType;
+  /** Offset of the first character of the node, including the opening delimiter */
+  start: number;
+  /** Offset just past the last character of the node, including the closing delimiter */
+  end: number;
+  /** Offset of the first character of the inner content */
+  contentStart: number;
+  /** Offset just past the last character of the inner content */
+  contentEnd: number;
+  /** Inner content without delimiters; for literal nodes, the text rendered in place of the escape */
+  content: string;
+  /** False when a tag runs to the end of the template without a closing delimiter */
+  closed: boolean;
+  /** Modifier of the opening delimiter; literal for a `<%%` node */
+  openModifier?: EJSTagModifier;
+  /** Modifier of the closing delimiter; literal for a `%%>` node */
+  closeModifier?: EJSTagModifier;
+  /** HTML context the output of an output or unescaped tag lands in */
+  htmlContext?: HtmlContext;
 }
 
 /**
@@ -60,6 +389,10 @@ export interface SymbolInfo {
   definition: Location;
   references: Location[];
   value?: string;
+  /** How the symbol was declared */
+  declarationType?: DeclarationType;
+  /** Kind of scope the symbol is declared in */
+  scope?: SymbolScope;
 }
 
 /**
@@ -75,11 +408,18 @@ export interface SymbolDefinition {
 }
 
 /**
- * Represents a parsed EJS document with extracted JavaScript blocks and symbols
+ * Represents a parsed EJS document with extracted JavaScript blocks
  */
 export interface ParsedEJSDocument {
   jsBlocks: JavaScriptBlock[];
-  symbols: SymbolInfo[];
+  /** Template AST the JavaScript blocks were extracted from */
+  nodes?: TemplateNode[];
+  /** Delimiters the template was parsed with */
+  delimiters?: EJSDelimiters;
+  /** Problems with blocks opened in one tag and closed in another */
+  blockIssues?: BlockStructureIssue[];
+  /** Locals declared with `@param` or `@locals` in the comments of the template, then in its schema file */
+  localDeclarations?: LocalDeclaration[];
 }
 
 /**
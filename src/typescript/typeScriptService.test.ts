@@ -0,0 +1,155 @@
+/**
+ * Tests for the TypeScript language service of EJS templates
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EJSTypeScriptService } from './typeScriptService';
+import { EJSParser } from '../parser/ejsParser';
+import { SymbolAnalyzer } from '../analyzer/symbolAnalyzer';
+import { DocumentCacheManager } from '../cache/documentCache';
+import { LocalsSchemaLoader } from '../includes/localsSchemaLoader';
+import { MockTextDocument } from '../../test/mocks/textDocument';
+
+describe('EJSTypeScriptService', () => {
+  let service: EJSTypeScriptService;
+
+  beforeEach(() => {
+    service = new EJSTypeScriptService(new EJSParser(), new SymbolAnalyzer(), new DocumentCacheManager());
+  });
+
+  it('should complete the members of a value declared in the template', () => {
+    const content = '<% const user = { name: "Ada", greet() { return "hi"; } }; %>\n<%= user. %>';
+    const completions = service.getCompletions(new MockTextDocument(content) as any, content.indexOf('user. ') + 5);
+
+    expect(completions.map(completion => completion.name)).toEqual(['greet', 'name']);
+    expect(completions.find(completion => completion.name === 'greet')!.kind).toBe('method');
+  });
+
+  it('should complete the methods of built-in types', () => {
+    const content = '<%= "title".toU %>';
+    const completions = service.getCompletions(new MockTextDocument(content) as any, content.indexOf('toU'));
+
+    expect(completions.map(completion => completion.name)).toContain('toUpperCase');
+  });
+
+  it('should provide the inferred type at a template offset', () => {
+    const content = '<% const items = [1, 2, 3]; %>\n<p><%= items.length %></p>';
+    const info = service.getQuickInfo(new MockTextDocument(content) as any, content.lastIndexOf('items'));
+
+    expect(info).toMatchObject({
+      display: 'const items: number[]',
+      start: content.lastIndexOf('items'),
+      end: content.lastIndexOf('items') + 5
+    });
+  });
+
+  it('should provide the signature of the call surrounding the cursor', () => {
+    const content = '<% function format(price, currency) { return price.toFixed(2) + currency; } %>\n<%= format(10, ) %>';
+    const help = service.getSignatureHelp(new MockTextDocument(content) as any, content.indexOf('10, ') + 4);
+
+    expect(help).toMatchObject({
+      signatures: [{
+        label: 'format(price: any, currency: any): any',
+        parameters: [{ label: 'price: any' }, { label: 'currency: any' }]
+      }],
+      activeSignature: 0,
+      activeParameter: 1
+    });
+  });
+
+  it('should not provide signatures for the generated output call', () => {
+    const content = '<%= title %>';
+
+    expect(service.getSignatureHelp(new MockTextDocument(content) as any, content.indexOf('title'))).toBeNull();
+  });
+
+  it('should map type errors back to the template', () => {
+    const content = '<% let count = 3; %>\n<p><%= count.toUpperCase() %></p>';
+    const diagnostics = service.getDiagnostics(new MockTextDocument(content) as any);
+
+    expect(diagnostics).toEqual([{
+      message: "Property 'toUpperCase' does not exist on type 'number'.",
+      start: content.indexOf('toUpperCase'),
+      end: content.indexOf('toUpperCase') + 11
+    }]);
+  });
+
+  it('should leave names the template does not declare to the undefined variable rule', () => {
+    const content = '<%= user.name %> <%= missing %>';
+
+    expect(service.getDiagnostics(new MockTextDocument(content) as any)).toEqual([]);
+  });
+
+  it('should type locals declared in JSDoc comments', () => {
+    const content = '<%# @param {{ name: string, tags: string[] }} user %>\n<%= user.tags.join(", ") %> <%= user.name.push() %>';
+    const document = new MockTextDocument(content) as any;
+
+    expect(service.getQuickInfo(document, content.indexOf('user.tags'))!.display).toBe('var user: {\n    name: string;\n    tags: string[];\n}');
+    expect(service.getDiagnostics(document).map(diagnostic => diagnostic.message)).toEqual([
+      "Property 'push' does not exist on type 'string'."
+    ]);
+  });
+
+  it('should not type locals named like browser globals', () => {
+    const content = '<%= status.code %> <%= name.first %>';
+    const document = new MockTextDocument(content) as any;
+
+    expect(service.getDiagnostics(document)).toEqual([]);
+    expect(service.getQuickInfo(document, content.indexOf('status'))!.display).toBe('var status: any');
+  });
+
+  it('should keep the locals of each template to itself', () => {
+    const first = new MockTextDocument('<%# @param {number} count %><%= count.toFixed() %>', { file: '/project/views/a.ejs' });
+    const second = new MockTextDocument('<%# @param {string} count %><%= count.toUpperCase() %>', { file: '/project/views/b.ejs' });
+
+    expect(service.getDiagnostics(first as any)).toEqual([]);
+    expect(service.getDiagnostics(second as any)).toEqual([]);
+    expect(service.getQuickInfo(second as any, second.content.lastIndexOf('count'))!.display).toBe('var count: string');
+  });
+
+  it('should resolve types imported relative to the template', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ejs-types-'));
+    try {
+      fs.writeFileSync(path.join(directory, 'types.ts'), 'export interface User { name: string; admin: boolean; }\n');
+      const content = "<%# @param {import('./types').User} user %>\n<%= user. %>";
+      const document = new MockTextDocument(content, { file: path.join(directory, 'page.ejs') });
+
+      const completions = service.getCompletions(document as any, content.indexOf('user. ') + 5);
+
+      expect(completions.map(completion => completion.name)).toEqual(['admin', 'name']);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should type locals declared in a .ejs.d.ts file next to the template', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ejs-types-'));
+    try {
+      fs.writeFileSync(path.join(directory, 'card.ejs.d.ts'), 'export interface Locals { user: { name: string; admin: boolean }; }\n');
+      const parser = new EJSParser();
+      parser.setLocalsSchemaLoader(new LocalsSchemaLoader());
+      service = new EJSTypeScriptService(parser, new SymbolAnalyzer(), new DocumentCacheManager());
+      const content = '<%= user. %>';
+      const document = new MockTextDocument(content, { file: path.join(directory, 'card.ejs') });
+
+      const completions = service.getCompletions(document as any, content.indexOf('user. ') + 5);
+
+      expect(completions.map(completion => completion.name)).toEqual(['admin', 'name']);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should rebuild the virtual document when the template changes', () => {
+    const document = new MockTextDocument('<% const title = "a"; %><%= title %>');
+    expect(service.getDiagnostics(document as any)).toEqual([]);
+
+    const changed = new MockTextDocument('<% let title = 1; %><%= title.trim() %>', { version: 2 });
+    expect(service.getDiagnostics(changed as any).map(diagnostic => diagnostic.message)).toEqual([
+      "Property 'trim' does not exist on type 'number'."
+    ]);
+  });
+});
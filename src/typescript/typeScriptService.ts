@@ -0,0 +1,250 @@
+/**
+ * TypeScript language service for the JavaScript of EJS templates
+ */
+
+import * as ts from 'typescript';
+import * as vscode from 'vscode';
+import { IDocumentCache, IEJSParser, ISymbolAnalyzer, ITypeScriptService } from '../interfaces';
+import { ParsedEJSDocument, TypeScriptCompletion, TypeScriptDiagnostic, TypeScriptQuickInfo, TypeScriptSignatureHelp } from '../types';
+import { GENERATED_NAMES, VirtualTypeScriptDocument } from './virtualDocument';
+
+/**
+ * Compiler options of the virtual documents; templates are plain JavaScript,
+ * so nothing stricter than TypeScript's defaults is checked. Declared locals
+ * may import their types from the TypeScript and JavaScript modules of the project.
+ * Templates render in Node, so the DOM library is left out: its globals, such
+ * as `status` and `name`, would take the place of locals with the same names.
+ */
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  lib: ['lib.es2020.d.ts'],
+  types: [],
+  moduleResolution: ts.ModuleResolutionKind.NodeJs,
+  allowJs: true,
+  noEmit: true,
+  noImplicitAny: false,
+  strict: false
+};
+
+/**
+ * Codes of the errors for names that are not declared, which the undefined
+ * variable rule reports for templates
+ */
+const UNDECLARED_NAME_CODES = new Set([2304, 2552, 2580, 2582, 2583, 2584, 2591, 2592, 2593]);
+
+/**
+ * A virtual document and the parsed template it was built from
+ */
+interface VirtualFile {
+  /** Script version reported to the language service, increased on every rebuild */
+  version: number;
+  parsedDocument: ParsedEJSDocument;
+  document: VirtualTypeScriptDocument;
+}
+
+/**
+ * Runs the TypeScript language service on a virtual TypeScript document per
+ * template, and maps its results back to template offsets
+ */
+export class EJSTypeScriptService implements ITypeScriptService {
+  private files: Map<string, VirtualFile> = new Map();
+  private service: ts.LanguageService;
+
+  constructor(
+    private parser: IEJSParser,
+    private symbolAnalyzer: ISymbolAnalyzer,
+    private cache: IDocumentCache
+  ) {
+    const host: ts.LanguageServiceHost = {
+      getCompilationSettings: () => COMPILER_OPTIONS,
+      getScriptFileNames: () => [...this.files.keys()],
+      // Files on disk, such as the types templates import, change with their modification time
+      getScriptVersion: fileName => String(this.files.get(fileName)?.version ?? ts.sys.getModifiedTime?.(fileName)?.getTime() ?? 0),
+      getScriptSnapshot: fileName => {
+        const file = this.files.get(fileName);
+        if (file) {
+          return ts.ScriptSnapshot.fromString(file.document.code);
+        }
+        const text = ts.sys.readFile(fileName);
+        return text !== undefined ? ts.ScriptSnapshot.fromString(text) : undefined;
+      },
+      getCurrentDirectory: () => '/',
+      getDefaultLibFileName: options => ts.getDefaultLibFilePath(options),
+      fileExists: fileName => this.files.has(fileName) || ts.sys.fileExists(fileName),
+      readFile: fileName => this.files.get(fileName)?.document.code ?? ts.sys.readFile(fileName)
+    };
+    this.service = ts.createLanguageService(host, ts.createDocumentRegistry());
+  }
+
+  /**
+   * Get the completions at a template offset
+   * @param document The template
+   * @param offset Offset within the template
+   * @returns Completions, empty outside JavaScript blocks
+   */
+  getCompletions(document: vscode.TextDocument, offset: number): TypeScriptCompletion[] {
+    const { fileName, generatedOffset } = this.resolve(document, offset);
+    if (generatedOffset === null) {
+      return [];
+    }
+
+    const completions = this.service.getCompletionsAtPosition(fileName, generatedOffset, {});
+    return (completions?.entries ?? [])
+      .filter(entry => !GENERATED_NAMES.has(entry.name))
+      .map(entry => ({ name: entry.name, kind: entry.kind, sortText: entry.sortText }));
+  }
+
+  /**
+   * Get the type information at a template offset
+   * @param document The template
+   * @param offset Offset within the template
+   * @returns The declaration and type of the name at the offset, or null
+   */
+  getQuickInfo(document: vscode.TextDocument, offset: number): TypeScriptQuickInfo | null {
+    const { fileName, virtual, generatedOffset } = this.resolve(document, offset);
+    if (generatedOffset === null) {
+      return null;
+    }
+
+    const info = this.service.getQuickInfoAtPosition(fileName, generatedOffset);
+    const start = info ? virtual.toTemplateOffset(info.textSpan.start) : null;
+    const end = info ? virtual.toTemplateOffset(info.textSpan.start + info.textSpan.length) : null;
+    if (!info || start === null || end === null) {
+      return null;
+    }
+
+    return {
+      display: ts.displayPartsToString(info.displayParts),
+      documentation: ts.displayPartsToString(info.documentation),
+      start,
+      end
+    };
+  }
+
+  /**
+   * Get the signatures of the call surrounding a template offset
+   * @param document The template
+   * @param offset Offset within the template
+   * @returns The signatures, or null outside the arguments of a call written in the template
+   */
+  getSignatureHelp(document: vscode.TextDocument, offset: number): TypeScriptSignatureHelp | null {
+    const { fileName, virtual, generatedOffset } = this.resolve(document, offset);
+    if (generatedOffset === null) {
+      return null;
+    }
+
+    // The `(` of the `__out(` wrapping an output expression is generated
+    const items = this.service.getSignatureHelpItems(fileName, generatedOffset, undefined);
+    if (!items || virtual.toTemplateOffset(items.applicableSpan.start - 1) === null) {
+      return null;
+    }
+
+    return {
+      signatures: items.items.map(item => ({
+        label: [
+          ...item.prefixDisplayParts,
+          ...item.parameters.flatMap((parameter, index) => [
+            ...(index > 0 ? item.separatorDisplayParts : []),
+            ...parameter.displayParts
+          ]),
+          ...item.suffixDisplayParts
+        ].map(part => part.text).join(''),
+        documentation: ts.displayPartsToString(item.documentation),
+        parameters: item.parameters.map(parameter => ({
+          label: ts.displayPartsToString(parameter.displayParts),
+          documentation: ts.displayPartsToString(parameter.documentation)
+        }))
+      })),
+      activeSignature: items.selectedItemIndex,
+      activeParameter: items.argumentIndex
+    };
+  }
+
+  /**
+   * Get the type errors of a template
+   *
+   * Syntax errors and names that are not declared are left to the rules
+   * reporting them for the template.
+   * @param document The template
+   * @returns Errors in code copied from the template, mapped to template offsets
+   */
+  getDiagnostics(document: vscode.TextDocument): TypeScriptDiagnostic[] {
+    const { fileName, virtual } = this.resolve(document, 0);
+
+    const diagnostics: TypeScriptDiagnostic[] = [];
+    for (const diagnostic of this.service.getSemanticDiagnostics(fileName)) {
+      if (diagnostic.start === undefined || diagnostic.category !== ts.DiagnosticCategory.Error || UNDECLARED_NAME_CODES.has(diagnostic.code)) {
+        continue;
+      }
+
+      const start = virtual.toTemplateOffset(diagnostic.start);
+      const end = virtual.toTemplateOffset(diagnostic.start + (diagnostic.length ?? 0));
+      if (start === null || end === null) {
+        continue;
+      }
+
+      diagnostics.push({
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+        start,
+        end
+      });
+    }
+    return diagnostics;
+  }
+
+  /**
+   * Forget the virtual document of a closed template
+   * @param uri URI of the template
+   */
+  closeDocument(uri: vscode.Uri): void {
+    this.files.delete(this.getFileName(uri));
+  }
+
+  /**
+   * Get the virtual document of a template, rebuilding it when the template
+   * was parsed again, after it changed or the schema of its locals changed
+   */
+  private resolve(document: vscode.TextDocument, offset: number): {
+    fileName: string;
+    virtual: VirtualTypeScriptDocument;
+    generatedOffset: number | null;
+  } {
+    let parsedDocument = this.cache.getParsedDocument(document.uri.toString(), document.version);
+    if (!parsedDocument) {
+      parsedDocument = this.parser.parseDocument(document);
+      this.cache.setParsedDocument(document.uri.toString(), document.version, parsedDocument);
+    }
+
+    const fileName = this.getFileName(document.uri);
+    let file = this.files.get(fileName);
+    if (!file || file.parsedDocument !== parsedDocument) {
+      // Declared locals have their declared type, other locals are `any`
+      const locals = new Map<string, string>();
+      for (const local of parsedDocument.localDeclarations ?? []) {
+        locals.set(local.name, local.typeReference ?? local.type);
+      }
+      for (const variable of this.symbolAnalyzer.findFreeVariables(parsedDocument.jsBlocks)) {
+        if (!locals.has(variable.name)) {
+          locals.set(variable.name, 'any');
+        }
+      }
+      file = {
+        version: (file?.version ?? 0) + 1,
+        parsedDocument,
+        document: VirtualTypeScriptDocument.fromBlocks(parsedDocument.jsBlocks, locals)
+      };
+      this.files.set(fileName, file);
+    }
+
+    return { fileName, virtual: file.document, generatedOffset: file.document.toGeneratedOffset(offset) };
+  }
+
+  /**
+   * Get the name of the virtual document of a template, next to the template
+   * on disk so that types imported with relative paths resolve. It is not
+   * `card.ejs.ts`, which would hide the `card.ejs.d.ts` declaring its locals.
+   */
+  private getFileName(uri: vscode.Uri): string {
+    return uri.scheme === 'file' ? `${uri.fsPath}.virtual.ts` : `/${uri.scheme}${uri.path}.virtual.ts`;
+  }
+}
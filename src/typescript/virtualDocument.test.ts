@@ -0,0 +1,55 @@
+/**
+ * Tests for the virtual TypeScript document of a template
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as vscode from 'vscode';
+import { VirtualTypeScriptDocument } from './virtualDocument';
+import { EJSParser } from '../parser/ejsParser';
+
+describe('VirtualTypeScriptDocument', () => {
+  const build = (content: string, locals = new Map<string, string>()) => {
+    const document = {
+      uri: vscode.Uri.file('/project/views/page.ejs'),
+      version: 1,
+      languageId: 'ejs',
+      getText: () => content
+    } as any;
+    return VirtualTypeScriptDocument.fromBlocks(new EJSParser().parseDocument(document).jsBlocks, locals);
+  };
+
+  it('should inline scriptlets and wrap output expressions in a template function', () => {
+    const virtual = build('<% if (user) { %><h1><%= user.name; %></h1><%- body %><% } %>', new Map([['user', 'any']]));
+
+    expect(virtual.code).toContain('declare var user: any;\nasync function __template(): Promise<void> {\n');
+    expect(virtual.code).toContain('if (user) {\n__out(user.name);\n__out(body);\n}\n}\nexport {};\n');
+  });
+
+  it('should leave out locals whose names cannot be variables', () => {
+    const virtual = build('<%= title %>', new Map([['title', 'string'], ['data-id', 'number'], ['class', 'string']]));
+
+    expect(virtual.code).toContain('declare var title: string;\nasync function');
+    expect(virtual.code).not.toContain('data-id');
+    expect(virtual.code).not.toContain('var class');
+  });
+
+  it('should map offsets between the template and the virtual document', () => {
+    const content = '<p><%= title.toUpperCase() %></p>\n<% const count = 1; %>';
+    const virtual = build(content);
+
+    const titleOffset = content.indexOf('title');
+    const generatedTitle = virtual.toGeneratedOffset(titleOffset)!;
+    expect(virtual.code.slice(generatedTitle, generatedTitle + 5)).toBe('title');
+    expect(virtual.toTemplateOffset(generatedTitle)).toBe(titleOffset);
+
+    const countOffset = content.indexOf('count');
+    expect(virtual.toTemplateOffset(virtual.toGeneratedOffset(countOffset)!)).toBe(countOffset);
+  });
+
+  it('should not map text outside blocks or generated code', () => {
+    const virtual = build('<p><%= title %></p>');
+
+    expect(virtual.toGeneratedOffset(1)).toBeNull();
+    expect(virtual.toTemplateOffset(virtual.code.indexOf('__out('))).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Projection of an EJS template into a TypeScript document
+ */
+
+import { JavaScriptBlock } from '../types';
+import { isVariableName } from '../analyzer/globals';
+
+/**
+ * Declarations of the names EJS defines in the function a template compiles into
+ */
+const PRELUDE = [
+  'declare function __out(value: unknown): void;',
+  'declare function __append(text: unknown): void;',
+  'declare function escapeFn(value: unknown): string;',
+  'declare function include(path: string, data?: Record<string, any>): string;',
+  'declare function rethrow(error: Error, lines: string[], filename: string, lineno: number): never;',
+  'declare const locals: Record<string, any>;',
+  'declare const __output: string;',
+  'declare const __line: number;',
+  'declare const __lines: string;',
+  'declare const __filename: string | undefined;',
+  'declare const console: Record<string, (...data: any[]) => void>;'
+].join('\n');
+
+/**
+ * Names the virtual document adds to the JavaScript of a template
+ */
+export const GENERATED_NAMES: ReadonlySet<string> = new Set(['__out', '__template']);
+
+/**
+ * A range of the virtual document copied verbatim from a JavaScript block
+ */
+interface VirtualSegment {
+  /** Offset of the block content within the virtual document */
+  generatedStart: number;
+  /** Offset of the block content within the template */
+  templateStart: number;
+  length: number;
+}
+
+/**
+ * A TypeScript document holding the JavaScript of a template, with a map
+ * between its offsets and the offsets of the template
+ *
+ * Scriptlets are inlined and output tags become `__out(expr);` statements,
+ * inside an async function like the one EJS compiles. The locals of the
+ * template are declared with the types given for them, or as `any`.
+ *
+ * The document is a module, so the locals of one template do not clash with
+ * those of the other templates sharing the language service.
+ */
+export class VirtualTypeScriptDocument {
+  /** The TypeScript source */
+  readonly code: string;
+
+  private constructor(code: string, private segments: VirtualSegment[]) {
+    this.code = code;
+  }
+
+  /**
+   * Build the virtual document of a template
+   * @param blocks JavaScript blocks in document order, with their template offsets
+   * @param locals Names the template uses without declaring them, with their types
+   * @returns The virtual document
+   */
+  static fromBlocks(blocks: JavaScriptBlock[], locals: Map<string, string>): VirtualTypeScriptDocument {
+    let code = `${PRELUDE}\n`;
+    for (const [name, type] of locals) {
+      // Schema keys such as `data-id` or `class` cannot be variables, and the template cannot use them as such
+      if (isVariableName(name)) {
+        code += `declare var ${name}: ${type};\n`;
+      }
+    }
+    code += 'async function __template(): Promise<void> {\n';
+
+    const segments: VirtualSegment[] = [];
+    for (const block of blocks) {
+      if (block.startOffset === undefined) {
+        continue;
+      }
+
+      const isOutput = block.tagType !== 'scriptlet';
+      // EJS strips a trailing semicolon from output expressions
+      const content = isOutput ? block.content.replace(/;(\s*)$/, '$1') : block.content;
+      if (isOutput) {
+        code += '__out(';
+      }
+      segments.push({ generatedStart: code.length, templateStart: block.startOffset, length: content.length });
+      code += content;
+      code += isOutput ? ');\n' : '\n';
+    }
+
+    code += '}\nexport {};\n';
+    return new VirtualTypeScriptDocument(code, segments);
+  }
+
+  /**
+   * Map an offset of the virtual document to the template
+   * @param offset Offset within the virtual document
+   * @returns Template offset, or null for code that was generated rather than copied from a block
+   */
+  toTemplateOffset(offset: number): number | null {
+    const segment = this.segments.find(candidate =>
+      candidate.generatedStart <= offset && offset <= candidate.generatedStart + candidate.length
+    );
+    return segment ? segment.templateStart + offset - segment.generatedStart : null;
+  }
+
+  /**
+   * Map a template offset to the virtual document
+   * @param offset Offset within the template
+   * @returns Offset within the virtual document, or null outside every block
+   */
+  toGeneratedOffset(offset: number): number | null {
+    const segment = this.segments.find(candidate =>
+      candidate.templateStart <= offset && offset <= candidate.templateStart + candidate.length
+    );
+    return segment ? segment.generatedStart + offset - segment.templateStart : null;
+  }
+}
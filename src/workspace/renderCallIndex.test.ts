@@ -0,0 +1,109 @@
+/**
+ * Tests for the workspace index of res.render() calls
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { RenderCallIndex } from './renderCallIndex';
+import { IncludeResolver } from '../includes/includeResolver';
+
+describe('RenderCallIndex', () => {
+  let files: Record<string, string>;
+  let watcherCallbacks: Record<'create' | 'change' | 'delete', (uri: vscode.Uri) => void>;
+  let index: RenderCallIndex;
+
+  const formModal = '/project/views/channels/form-modal.ejs';
+  const channels = '/project/routes/channels.js';
+
+  beforeEach(() => {
+    files = {
+      [formModal]: '<%= editing %>',
+      '/project/views/home/index.ejs': '<h1>Home</h1>',
+      [channels]: [
+        "router.get('/channels/new', (req, res) => res.render('channels/form-modal', { editing: false, BASE_URL }));",
+        "router.get('/channels/:id', (req, res) => res.render('channels/form-modal', { editing: true, BASE_URL }));",
+        "router.get('/', (req, res) => res.render('home'));"
+      ].join('\n'),
+      '/project/routes/health.ts': "export const health = (req: Request, res: Response) => res.json({ ok: true });"
+    };
+    watcherCallbacks = {} as any;
+
+    vi.spyOn(vscode.workspace, 'findFiles').mockImplementation(() =>
+      Promise.resolve(Object.keys(files).filter(file => !file.endsWith('.ejs')).map(file => vscode.Uri.file(file)) as any)
+    );
+    vi.spyOn(vscode.workspace.fs, 'readFile').mockImplementation((uri: any) =>
+      uri.fsPath in files
+        ? Promise.resolve(new TextEncoder().encode(files[uri.fsPath]))
+        : Promise.reject(new Error('File not found'))
+    );
+    vi.spyOn(vscode.workspace, 'getWorkspaceFolder').mockReturnValue({
+      uri: vscode.Uri.file('/project'),
+      name: 'project',
+      index: 0
+    });
+    vi.spyOn(vscode.workspace, 'createFileSystemWatcher').mockImplementation(() => ({
+      onDidCreate: (callback: any) => { watcherCallbacks.create = callback; return { dispose: () => {} }; },
+      onDidChange: (callback: any) => { watcherCallbacks.change = callback; return { dispose: () => {} }; },
+      onDidDelete: (callback: any) => { watcherCallbacks.delete = callback; return { dispose: () => {} }; },
+      dispose: () => {}
+    }) as any);
+
+    index = new RenderCallIndex(new IncludeResolver(file => file in files));
+  });
+
+  afterEach(() => {
+    index.dispose();
+    vi.restoreAllMocks();
+  });
+
+  it('should find every render call resolving to a template', async () => {
+    const sites = await index.findRenderSites(formModal);
+
+    expect(sites.map(site => [site.file, site.call.range.startLine, site.call.localsText])).toEqual([
+      [channels, 0, '{ editing: false, BASE_URL }'],
+      [channels, 1, '{ editing: true, BASE_URL }']
+    ]);
+    expect((await index.findRenderSites('/project/views/home/index.ejs')).map(site => site.call.view)).toEqual(['home']);
+  });
+
+  it('should skip dependencies and the files excluded by the user settings', async () => {
+    const settings: Record<string, Record<string, unknown>> = {
+      files: { '**/.git': true, '**/*.js': { when: '$(basename).ts' } },
+      search: { '**/{out,dist}': true, '**/coverage': false }
+    };
+    vi.spyOn(vscode.workspace, 'getConfiguration').mockImplementation((section?: string) => ({
+      get: () => settings[section!]
+    }) as any);
+
+    await index.initialize();
+
+    expect(vscode.workspace.findFiles).toHaveBeenCalledWith(
+      '**/*.{js,jsx,mjs,cjs,ts,tsx,mts,cts}',
+      '{**/node_modules/**,**/.git,**/out,**/dist}'
+    );
+  });
+
+  it('should re-index files changed on disk and forget deleted ones', async () => {
+    await index.initialize();
+
+    files['/project/routes/health.ts'] = "export const health = (req: Request, res: Response) => res.render('channels/form-modal');";
+    await watcherCallbacks.change(vscode.Uri.file('/project/routes/health.ts'));
+    expect((await index.findRenderSites(formModal)).map(site => site.file)).toEqual([channels, channels, '/project/routes/health.ts']);
+
+    delete files[channels];
+    watcherCallbacks.delete(vscode.Uri.file(channels));
+    expect((await index.findRenderSites(formModal)).map(site => site.file)).toEqual(['/project/routes/health.ts']);
+  });
+
+  it('should re-index open documents from their unsaved text', async () => {
+    await index.initialize();
+
+    index.updateDocument({
+      uri: vscode.Uri.file(channels),
+      languageId: 'javascript',
+      getText: () => "res.render('home');"
+    } as any);
+
+    expect(await index.findRenderSites(formModal)).toEqual([]);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Index of the `res.render()` calls in the JavaScript and TypeScript files of the workspace
+ */
+
+import * as vscode from 'vscode';
+import { RenderCall, RenderCallSite } from '../types';
+import { IncludeResolver } from '../includes/includeResolver';
+import { RenderCallAnalyzer } from '../analyzer/renderCallAnalyzer';
+
+/**
+ * Source files scanned for render calls
+ */
+const SOURCE_PATTERN = '**/*.{js,jsx,mjs,cjs,ts,tsx,mts,cts}';
+
+/**
+ * Files never scanned for render calls, besides those the user excludes from search
+ */
+const DEPENDENCIES_PATTERN = '**/node_modules/**';
+
+/**
+ * Languages of the open documents whose render calls are indexed
+ */
+const SOURCE_LANGUAGES = ['javascript', 'javascriptreact', 'typescript', 'typescriptreact'];
+
+/**
+ * Records the `res.render()` calls of every controller in the workspace, so
+ * a template can list the code rendering it
+ *
+ * Like the template index, the workspace is scanned once in the background,
+ * then files are re-indexed as open documents are edited and as files change
+ * on disk.
+ */
+export class RenderCallIndex {
+  private analyzer = new RenderCallAnalyzer();
+  /** Render calls by the absolute path of the file making them; files without any are left out */
+  private calls: Map<string, RenderCall[]> = new Map();
+  /** Render calls by the absolute path of the template they render, rebuilt after any change */
+  private callSitesByTarget: Map<string, RenderCallSite[]> | null = null;
+  private ready: Promise<void> | null = null;
+  private watcher: vscode.FileSystemWatcher | null = null;
+  private disposables: vscode.Disposable[] = [];
+
+  /**
+   * @param includeResolver Resolver for the view names
+   */
+  constructor(private includeResolver: IncludeResolver) {}
+
+  /**
+   * Start watching source files and scan the workspace
+   * @returns Promise resolved when the initial scan has finished
+   */
+  initialize(): Promise<void> {
+    if (!this.ready) {
+      this.watcher = vscode.workspace.createFileSystemWatcher(SOURCE_PATTERN);
+      this.disposables.push(
+        this.watcher.onDidCreate(uri => this.refreshFile(uri)),
+        this.watcher.onDidChange(uri => this.refreshFile(uri)),
+        this.watcher.onDidDelete(uri => this.removeFile(uri))
+      );
+      this.ready = this.scanWorkspace();
+    }
+    return this.ready;
+  }
+
+  /**
+   * Find the render calls of an open document from its current text
+   * @param document A JavaScript or TypeScript document
+   * @returns Render calls in document order
+   */
+  getRenderCalls(document: vscode.TextDocument): RenderCall[] {
+    return this.analyzer.findRenderCalls(document.getText(), document.uri.fsPath);
+  }
+
+  /**
+   * Resolve the view of a render call made in an open document
+   * @param call Render call of the document
+   * @param document The calling document
+   * @returns Absolute path of the rendered template, or null if it does not exist
+   */
+  resolveView(call: RenderCall, document: vscode.TextDocument): string | null {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+    return this.includeResolver.resolveView(call.view, workspaceFolder?.uri.fsPath);
+  }
+
+  /**
+   * Find the render calls across the workspace that render a template
+   * @param file Absolute path of the template
+   * @returns Render calls resolving to the template
+   */
+  async findRenderSites(file: string): Promise<RenderCallSite[]> {
+    await (this.ready ?? this.initialize());
+    return this.getCallSitesByTarget().get(file) ?? [];
+  }
+
+  /**
+   * Re-index an open document from its current, possibly unsaved, text
+   * @param document The edited document; documents in other languages are ignored
+   */
+  updateDocument(document: vscode.TextDocument): void {
+    if (SOURCE_LANGUAGES.includes(document.languageId) && document.uri.scheme === 'file') {
+      this.indexFile(document.uri, document.getText());
+    }
+  }
+
+  /**
+   * Re-index a closed document from disk, as its unsaved changes are gone
+   * @param document The closed document; documents in other languages are ignored
+   */
+  closeDocument(document: vscode.TextDocument): void {
+    if (SOURCE_LANGUAGES.includes(document.languageId) && document.uri.scheme === 'file') {
+      this.refreshFile(document.uri);
+    }
+  }
+
+  /**
+   * Re-index a source file from disk, or from its open document if it has one
+   * @param uri URI of the file
+   */
+  async refreshFile(uri: vscode.Uri): Promise<void> {
+    try {
+      this.indexFile(uri, await this.readFile(uri));
+    } catch (error) {
+      // Deleted before it could be read
+      this.removeFile(uri);
+    }
+  }
+
+  /**
+   * Remove a deleted source file from the index
+   * @param uri URI of the file
+   */
+  removeFile(uri: vscode.Uri): void {
+    if (this.calls.delete(uri.fsPath)) {
+      this.callSitesByTarget = null;
+    }
+  }
+
+  /**
+   * Re-resolve every view name, after the settings they depend on changed
+   */
+  refreshViewTargets(): void {
+    this.callSitesByTarget = null;
+  }
+
+  /**
+   * Stop watching source files
+   */
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+    this.watcher?.dispose();
+    this.watcher = null;
+  }
+
+  /**
+   * Index every source file of the workspace
+   */
+  private async scanWorkspace(): Promise<void> {
+    const uris = await vscode.workspace.findFiles(SOURCE_PATTERN, this.getExcludePattern());
+
+    for (const uri of uris) {
+      // Files indexed by an edit or the watcher during the scan are newer
+      if (this.calls.has(uri.fsPath)) {
+        continue;
+      }
+
+      try {
+        this.indexFile(uri, await this.readFile(uri));
+      } catch (error) {
+        console.error(`Error indexing render calls of ${uri.fsPath}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Get the files the scan skips: dependencies and the `files.exclude` and
+   * `search.exclude` settings, which a custom exclude pattern would otherwise replace
+   */
+  private getExcludePattern(): string {
+    const patterns = new Set([DEPENDENCIES_PATTERN]);
+    for (const section of ['files', 'search']) {
+      const excluded = vscode.workspace.getConfiguration(section).get<Record<string, unknown>>('exclude') ?? {};
+      // Patterns excluded only next to a sibling file, `{ when: ... }`, are left out
+      Object.keys(excluded)
+        .filter(pattern => excluded[pattern] === true)
+        .forEach(pattern => this.expandBraces(pattern).forEach(expanded => patterns.add(expanded)));
+    }
+    return `{${[...patterns].join(',')}}`;
+  }
+
+  /**
+   * Expand the brace groups of a glob pattern, which cannot nest in the group combining the patterns
+   */
+  private expandBraces(pattern: string): string[] {
+    const group = /\{([^{}]*)\}/.exec(pattern);
+    if (!group) {
+      return [pattern];
+    }
+    return group[1].split(',').flatMap(choice =>
+      this.expandBraces(pattern.slice(0, group.index) + choice + pattern.slice(group.index + group[0].length))
+    );
+  }
+
+  /**
+   * Record the render calls of a source file
+   */
+  private indexFile(uri: vscode.Uri, content: string): void {
+    const calls = this.analyzer.findRenderCalls(content, uri.fsPath);
+    if (calls.length > 0) {
+      this.calls.set(uri.fsPath, calls);
+      this.callSitesByTarget = null;
+    } else {
+      this.removeFile(uri);
+    }
+  }
+
+  /**
+   * Resolve the render calls of every file to the templates they render
+   */
+  private getCallSitesByTarget(): Map<string, RenderCallSite[]> {
+    if (this.callSitesByTarget) {
+      return this.callSitesByTarget;
+    }
+
+    const callSitesByTarget = new Map<string, RenderCallSite[]>();
+    for (const [file, calls] of this.calls) {
+      const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(file))?.uri.fsPath;
+
+      for (const call of calls) {
+        const target = this.includeResolver.resolveView(call.view, workspaceFolder);
+        if (!target) {
+          continue;
+        }
+
+        if (!callSitesByTarget.has(target)) {
+          callSitesByTarget.set(target, []);
+        }
+        callSitesByTarget.get(target)!.push({ file, target, call });
+      }
+    }
+
+    this.callSitesByTarget = callSitesByTarget;
+    return callSitesByTarget;
+  }
+
+  /**
+   * Read a source file, preferring the unsaved text of an open document
+   */
+  private async readFile(uri: vscode.Uri): Promise<string> {
+    const document = vscode.workspace.textDocuments.find(openDocument =>
+      !openDocument.isClosed && openDocument.uri.toString() === uri.toString()
+    );
+    if (document) {
+      return document.getText();
+    }
+
+    const bytes = await vscode.workspace.fs.readFile(uri);
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Tests for the workspace template index
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { WorkspaceIndex } from './workspaceIndex';
+import { IncludeResolver } from '../includes/includeResolver';
+import { EJSParser } from '../parser/ejsParser';
+import { SymbolAnalyzer } from '../analyzer/symbolAnalyzer';
+
+describe('WorkspaceIndex', () => {
+  let files: Record<string, string>;
+  let watcherCallbacks: Record<'create' | 'change' | 'delete', (uri: vscode.Uri) => void>;
+  let index: WorkspaceIndex;
+
+  const input = '/project/views/components/input.ejs';
+  const formModal = '/project/views/channels/form-modal.ejs';
+
+  beforeEach(() => {
+    files = {
+      [formModal]: [
+        "<% const _viewsPath = '..'; %>",
+        "<%- include(`${_viewsPath}/components/input.ejs`, { label: 'Channel name', required: true }) %>",
+        "<%- include(`${_viewsPath}/components/input.ejs`, {",
+        "  label: 'Slug',",
+        '  iconLeft: icons.link',
+        '}) %>'
+      ].join('\n'),
+      '/project/views/pages/home.ejs': "<%- include('/components/input', { label: title }) %><%- include(partial) %>",
+      [input]: '<% const id = name; %><label for="<%= id %>"><%= label %></label>'
+    };
+    watcherCallbacks = {} as any;
+
+    vi.spyOn(vscode.workspace, 'findFiles').mockImplementation(() =>
+      Promise.resolve(Object.keys(files).map(file => vscode.Uri.file(file)) as any)
+    );
+    vi.spyOn(vscode.workspace.fs, 'readFile').mockImplementation((uri: any) =>
+      uri.fsPath in files
+        ? Promise.resolve(new TextEncoder().encode(files[uri.fsPath]))
+        : Promise.reject(new Error('File not found'))
+    );
+    vi.spyOn(vscode.workspace, 'getWorkspaceFolder').mockReturnValue({
+      uri: vscode.Uri.file('/project'),
+      name: 'project',
+      index: 0
+    });
+    vi.spyOn(vscode.workspace, 'createFileSystemWatcher').mockImplementation(() => ({
+      onDidCreate: (callback: any) => { watcherCallbacks.create = callback; return { dispose: () => {} }; },
+      onDidChange: (callback: any) => { watcherCallbacks.change = callback; return { dispose: () => {} }; },
+      onDidDelete: (callback: any) => { watcherCallbacks.delete = callback; return { dispose: () => {} }; },
+      dispose: () => {}
+    }) as any);
+
+    index = new WorkspaceIndex(new EJSParser(), new SymbolAnalyzer(), new IncludeResolver(file => file in files));
+  });
+
+  afterEach(() => {
+    index.dispose();
+    vi.restoreAllMocks();
+  });
+
+  it('should record the includes, declarations and free variables of every template', async () => {
+    await index.initialize();
+
+    expect(index.getTemplates()).toHaveLength(3);
+    expect(index.getTemplate(input)).toMatchObject({
+      file: input,
+      includes: [],
+      declarations: ['id']
+    });
+    expect(index.getTemplate(input)!.freeVariables.map(variable => variable.name)).toEqual(['name', 'label']);
+    expect(index.getTemplate(input)!.freeVariables[1].usages).toEqual([
+      '<% const id = name; %><label for="<%= id %>"><%= label %></label>'
+    ]);
+    expect(index.getTemplate(formModal)!.includes.map(include => include.path)).toEqual([
+      '../components/input.ejs',
+      '../components/input.ejs'
+    ]);
+  });
+
+  it('should scan the workspace once', async () => {
+    await index.initialize();
+    await index.initialize();
+    await index.findCallSites(input);
+
+    expect(vscode.workspace.findFiles).toHaveBeenCalledTimes(1);
+  });
+
+  it('should find every include call resolving to a template', async () => {
+    index.initialize();
+    const callSites = await index.findCallSites(input);
+
+    expect(callSites.map(callSite => [callSite.file, callSite.call.range.startLine])).toEqual([
+      [formModal, 1],
+      [formModal, 2],
+      ['/project/views/pages/home.ejs', 0]
+    ]);
+    expect(callSites[1].call.locals.map(local => [local.name, local.value])).toEqual([
+      ['label', "'Slug'"],
+      ['iconLeft', 'icons.link']
+    ]);
+  });
+
+  it('should re-index templates changed on disk', async () => {
+    await index.initialize();
+
+    files[formModal] = "<%- include('../components/input', { placeholder }) %>";
+    await watcherCallbacks.change(vscode.Uri.file(formModal));
+
+    const callSites = await index.findCallSites(input);
+    expect(callSites.map(callSite => callSite.call.locals.map(local => local.name))).toEqual([
+      ['placeholder'],
+      ['label']
+    ]);
+  });
+
+  it('should resolve includes of created templates and forget deleted ones', async () => {
+    const card = '/project/views/pages/card.ejs';
+    files['/project/views/pages/list.ejs'] = "<%- include('card', { item }) %>";
+    await index.initialize();
+    expect(await index.findCallSites(card)).toEqual([]);
+
+    files[card] = '<%= item.title %>';
+    await watcherCallbacks.create(vscode.Uri.file(card));
+    expect(index.getTemplate(card)).toBeDefined();
+    expect(await index.findCallSites(card)).toHaveLength(1);
+
+    delete files[formModal];
+    watcherCallbacks.delete(vscode.Uri.file(formModal));
+    expect(index.getTemplate(formModal)).toBeUndefined();
+    expect(await index.findCallSites(input)).toHaveLength(1);
+  });
+
+  it('should only re-resolve the includes of an edited template', async () => {
+    const fileExists = vi.fn((file: string) => file in files);
+    index = new WorkspaceIndex(new EJSParser(), new SymbolAnalyzer(), new IncludeResolver(fileExists));
+    await index.findCallSites(input);
+    fileExists.mockClear();
+
+    index.updateDocument({
+      uri: vscode.Uri.file('/project/views/pages/home.ejs'),
+      languageId: 'ejs',
+      getText: () => "<%- include('/components/input', { label: heading }) %>"
+    } as any);
+    const callSites = index.getCallSites(input);
+
+    expect(fileExists).toHaveBeenCalledTimes(1);
+    expect(callSites.map(callSite => [callSite.file, callSite.call.locals[0].value])).toEqual([
+      [formModal, "'Channel name'"],
+      [formModal, "'Slug'"],
+      ['/project/views/pages/home.ejs', 'heading']
+    ]);
+  });
+
+  it('should drop the templates of a scan superseded by a rebuild', async () => {
+    const scan = index.initialize();
+    const rebuild = index.rebuild();
+    await Promise.all([scan, rebuild]);
+
+    expect(index.getTemplates()).toHaveLength(3);
+    expect(vscode.workspace.fs.readFile).toHaveBeenCalledTimes(3);
+  });
+
+  it('should re-index open documents from their unsaved text', async () => {
+    await index.initialize();
+
+    index.updateDocument({
+      uri: vscode.Uri.file(input),
+      languageId: 'ejs',
+      getText: () => '<%= title %>'
+    } as any);
+
+    expect(index.getTemplate(input)!.freeVariables.map(variable => variable.name)).toEqual(['title']);
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * Index of every EJS template in the workspace
+ */
+
+import * as vscode from 'vscode';
+import { IEJSParser, ISymbolAnalyzer, IWorkspaceIndex } from '../interfaces';
+import { IncludeCallSite, TemplateIndexEntry } from '../types';
+import { IncludeResolver } from '../includes/includeResolver';
+
+/**
+ * Templates indexed in the workspace
+ */
+const TEMPLATE_PATTERN = '**/*.ejs';
+
+/**
+ * Files never scanned for templates
+ */
+const EXCLUDE_PATTERN = '**/node_modules/**';
+
+/**
+ * Include calls resolved to the templates they render
+ */
+interface IncludeGraph {
+  /** Include calls by the absolute path of the template they render, in index order */
+  callSitesByTarget: Map<string, IncludeCallSite[]>;
+  /** Resolved include calls by the absolute path of the template making them */
+  callSitesBySource: Map<string, IncludeCallSite[]>;
+}
+
+/**
+ * Records the includes, declarations and free variables of every template in
+ * the workspace, the shared data source for cross-file features
+ *
+ * The workspace is scanned once in the background. Afterwards templates are
+ * re-indexed one at a time as open documents are edited and as files change
+ * on disk, reported by a file system watcher. Re-indexing a template only
+ * re-resolves its own includes; a template appearing or disappearing can
+ * change where any include resolves, so it re-resolves them all.
+ */
+export class WorkspaceIndex implements IWorkspaceIndex {
+  private templates: Map<string, TemplateIndexEntry> = new Map();
+  /** Position of each template in the index, the order call sites of different templates are listed in */
+  private positions: Map<string, number> = new Map();
+  private nextPosition = 0;
+  /** Resolved include calls, updated as templates are re-indexed */
+  private graph: IncludeGraph | null = null;
+  private ready: Promise<void> | null = null;
+  /** Increased by every scan, so a scan superseded by a rebuild stops */
+  private scanGeneration = 0;
+  private watcher: vscode.FileSystemWatcher | null = null;
+  private disposables: vscode.Disposable[] = [];
+
+  /**
+   * @param parser Parser extracting the JavaScript blocks of each template
+   * @param symbolAnalyzer Analyzer dedicated to the index, so indexing does not replace the analysis providers rely on
+   * @param includeResolver Resolver for the include paths
+   */
+  constructor(
+    private parser: IEJSParser,
+    private symbolAnalyzer: ISymbolAnalyzer,
+    private includeResolver: IncludeResolver
+  ) {}
+
+  /**
+   * Start watching template files and scan the workspace
+   * @returns Promise resolved when the initial scan has finished
+   */
+  initialize(): Promise<void> {
+    if (!this.ready) {
+      this.watcher = vscode.workspace.createFileSystemWatcher(TEMPLATE_PATTERN);
+      this.disposables.push(
+        this.watcher.onDidCreate(uri => this.refreshFile(uri)),
+        this.watcher.onDidChange(uri => this.refreshFile(uri)),
+        this.watcher.onDidDelete(uri => this.removeFile(uri))
+      );
+      this.ready = this.scanWorkspace();
+    }
+    return this.ready;
+  }
+
+  /**
+   * Wait until the initial scan of the workspace has finished
+   */
+  whenReady(): Promise<void> {
+    return this.ready ?? this.initialize();
+  }
+
+  /**
+   * Get what the index records about a template
+   * @param file Absolute path of the template
+   * @returns The index entry, or undefined if the template is not indexed
+   */
+  getTemplate(file: string): TemplateIndexEntry | undefined {
+    return this.templates.get(file);
+  }
+
+  /**
+   * Get every indexed template
+   * @returns Index entries in no particular order
+   */
+  getTemplates(): TemplateIndexEntry[] {
+    return [...this.templates.values()];
+  }
+
+  /**
+   * Find the include() calls across the workspace that render a template
+   * @param file Absolute path of the included template
+   * @returns Include calls resolving to the template
+   */
+  async findCallSites(file: string): Promise<IncludeCallSite[]> {
+    await this.whenReady();
+    return this.getCallSites(file);
+  }
+
+  /**
+   * Get the include() calls rendering a template among the templates indexed so far
+   * @param file Absolute path of the included template
+   * @returns Include calls resolving to the template, without waiting for the initial scan
+   */
+  getCallSites(file: string): IncludeCallSite[] {
+    return this.getGraph().callSitesByTarget.get(file) ?? [];
+  }
+
+  /**
+   * Find the include() calls of a template that resolve to another template
+   * @param file Absolute path of the including template
+   * @returns Resolved include calls in document order
+   */
+  async findIncludedTemplates(file: string): Promise<IncludeCallSite[]> {
+    await this.whenReady();
+    return this.getGraph().callSitesBySource.get(file) ?? [];
+  }
+
+  /**
+   * Re-index an open document from its current, possibly unsaved, text
+   * @param document The edited document; documents in other languages are ignored
+   */
+  updateDocument(document: vscode.TextDocument): void {
+    if (document.languageId === 'ejs' && document.uri.scheme === 'file') {
+      this.indexTemplate(document.uri, document.getText());
+    }
+  }
+
+  /**
+   * Re-index a template from disk, or from its open document if it has one
+   * @param uri URI of the template
+   */
+  async refreshFile(uri: vscode.Uri): Promise<void> {
+    try {
+      this.indexTemplate(uri, await this.readTemplate(uri));
+    } catch (error) {
+      // Deleted before it could be read
+      this.removeFile(uri);
+    }
+  }
+
+  /**
+   * Remove a deleted template from the index
+   * @param uri URI of the template
+   */
+  removeFile(uri: vscode.Uri): void {
+    this.positions.delete(uri.fsPath);
+    if (this.templates.delete(uri.fsPath)) {
+      this.graph = null;
+    }
+  }
+
+  /**
+   * Drop the index and scan the workspace again, after the way templates are parsed changed
+   * @returns Promise resolved when the scan has finished
+   */
+  rebuild(): Promise<void> {
+    this.templates.clear();
+    this.positions.clear();
+    this.graph = null;
+    // Supersedes a scan still running, which would add templates parsed the old way
+    this.ready = this.scanWorkspace();
+    return this.ready;
+  }
+
+  /**
+   * Re-resolve every include path, after the settings they depend on changed
+   */
+  refreshIncludeTargets(): void {
+    this.graph = null;
+  }
+
+  /**
+   * Stop watching template files
+   */
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+    this.watcher?.dispose();
+    this.watcher = null;
+  }
+
+  /**
+   * Index every template of the workspace
+   */
+  private async scanWorkspace(): Promise<void> {
+    const generation = ++this.scanGeneration;
+    const uris = await vscode.workspace.findFiles(TEMPLATE_PATTERN, EXCLUDE_PATTERN);
+
+    for (const uri of uris) {
+      if (generation !== this.scanGeneration) {
+        return;
+      }
+      // Templates indexed by an edit or the watcher during the scan are newer
+      if (this.templates.has(uri.fsPath)) {
+        continue;
+      }
+
+      try {
+        const content = await this.readTemplate(uri);
+        if (generation === this.scanGeneration) {
+          this.indexTemplate(uri, content);
+        }
+      } catch (error) {
+        console.error(`Error indexing EJS template ${uri.fsPath}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Record the includes, declarations and free variables of a template
+   */
+  private indexTemplate(uri: vscode.Uri, content: string): void {
+    const jsBlocks = this.parser.extractJavaScriptBlocks(content);
+    const symbols = this.symbolAnalyzer.analyzeSymbols(jsBlocks);
+    const lines = content.split(/\r?\n/);
+    const isNew = !this.templates.has(uri.fsPath);
+    if (isNew) {
+      this.positions.set(uri.fsPath, this.nextPosition++);
+    }
+
+    const template: TemplateIndexEntry = {
+      file: uri.fsPath,
+      includes: this.symbolAnalyzer.findIncludes(jsBlocks),
+      declarations: [...new Set(symbols.filter(symbol => symbol.scope === 'global').map(symbol => symbol.name))],
+      freeVariables: this.symbolAnalyzer.findFreeVariables(jsBlocks).map(variable => ({
+        ...variable,
+        usages: [...new Set(variable.references.map(reference => lines[reference.line].trim()))]
+      }))
+    };
+    this.templates.set(uri.fsPath, template);
+
+    if (isNew) {
+      this.graph = null;
+    } else if (this.graph) {
+      this.updateCallSites(this.graph, template);
+    }
+  }
+
+  /**
+   * Replace the include calls of one template in the include graph
+   */
+  private updateCallSites(graph: IncludeGraph, template: TemplateIndexEntry): void {
+    const previous = graph.callSitesBySource.get(template.file) ?? [];
+    const callSites = this.resolveCallSites(template);
+    graph.callSitesBySource.set(template.file, callSites);
+
+    const targets = new Set([...previous, ...callSites].map(callSite => callSite.target));
+    for (const target of targets) {
+      const others = (graph.callSitesByTarget.get(target) ?? []).filter(callSite => callSite.file !== template.file);
+      const updated = this.sortCallSites([...others, ...callSites.filter(callSite => callSite.target === target)]);
+      if (updated.length > 0) {
+        graph.callSitesByTarget.set(target, updated);
+      } else {
+        graph.callSitesByTarget.delete(target);
+      }
+    }
+  }
+
+  /**
+   * Resolve the include calls of a template to the templates they render
+   */
+  private resolveCallSites(template: TemplateIndexEntry): IncludeCallSite[] {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(template.file))?.uri.fsPath;
+    const callSites: IncludeCallSite[] = [];
+
+    for (const call of template.includes) {
+      const target = call.path !== null ? this.includeResolver.resolve(call.path, template.file, workspaceFolder) : null;
+      if (target) {
+        callSites.push({ file: template.file, target, call });
+      }
+    }
+    return callSites;
+  }
+
+  /**
+   * Order call sites by the position of the including template in the index, keeping the document order of each template
+   */
+  private sortCallSites(callSites: IncludeCallSite[]): IncludeCallSite[] {
+    return callSites.sort((a, b) => this.positions.get(a.file)! - this.positions.get(b.file)!);
+  }
+
+  /**
+   * Resolve the include calls of every template to the templates they render
+   */
+  private getGraph(): IncludeGraph {
+    if (this.graph) {
+      return this.graph;
+    }
+
+    const graph: IncludeGraph = { callSitesByTarget: new Map(), callSitesBySource: new Map() };
+    for (const template of this.templates.values()) {
+      const callSites = this.resolveCallSites(template);
+      for (const callSite of callSites) {
+        if (!graph.callSitesByTarget.has(callSite.target)) {
+          graph.callSitesByTarget.set(callSite.target, []);
+        }
+        graph.callSitesByTarget.get(callSite.target)!.push(callSite);
+      }
+      graph.callSitesBySource.set(template.file, callSites);
+    }
+
+    this.graph = graph;
+    return graph;
+  }
+
+  /**
+   * Read a template, preferring the unsaved text of an open document
+   */
+  private async readTemplate(uri: vscode.Uri): Promise<string> {
+    const document = vscode.workspace.textDocuments.find(openDocument =>
+      !openDocument.isClosed && openDocument.uri.toString() === uri.toString()
+    );
+    if (document) {
+      return document.getText();
+    }
+
+    const bytes = await vscode.workspace.fs.readFile(uri);
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Mock text documents and rule checking for testing
+ */
+
+import * as vscode from 'vscode';
+import { IDiagnosticRule } from '../../src/interfaces';
+import { EJSParser } from '../../src/parser/ejsParser';
+
+/**
+ * Options of a mock document
+ */
+export interface MockTextDocumentOptions {
+  /** Absolute path of the document, by default a page of the views folder */
+  file?: string;
+  languageId?: string;
+  version?: number;
+}
+
+/**
+ * TextDocument with the members the parser, rules and providers use, backed by a string
+ */
+export class MockTextDocument {
+  uri: vscode.Uri;
+  languageId: string;
+  version: number;
+
+  constructor(public content: string, { file = '/project/views/page.ejs', languageId = 'ejs', version = 1 }: MockTextDocumentOptions = {}) {
+    this.uri = vscode.Uri.file(file);
+    this.languageId = languageId;
+    this.version = version;
+  }
+
+  getText(range?: vscode.Range): string {
+    if (!range) {
+      return this.content;
+    }
+    return this.content.slice(this.offsetAt(range.start), this.offsetAt(range.end));
+  }
+
+  lineAt(line: number): { text: string } {
+    return { text: this.content.split('\n')[line] ?? '' };
+  }
+
+  offsetAt(position: vscode.Position): number {
+    const lines = this.content.split('\n');
+    return lines.slice(0, position.line).reduce((offset, line) => offset + line.length + 1, 0) + position.character;
+  }
+
+  positionAt(offset: number): vscode.Position {
+    const before = this.content.slice(0, offset).split('\n');
+    return new vscode.Position(before.length - 1, before[before.length - 1].length);
+  }
+
+  getWordRangeAtPosition(position: vscode.Position): vscode.Range | undefined {
+    const line = this.content.split('\n')[position.line] ?? '';
+    const wordPattern = /[a-zA-Z_$][a-zA-Z0-9_$]*/g;
+    let match;
+    while ((match = wordPattern.exec(line)) !== null) {
+      if (position.character >= match.index && position.character <= match.index + match[0].length) {
+        return new vscode.Range(
+          new vscode.Position(position.line, match.index),
+          new vscode.Position(position.line, match.index + match[0].length)
+        );
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Check a template with a diagnostic rule
+ * @param rule The rule under test
+ * @param content Text of the template
+ * @param options Options of the template document
+ * @returns The diagnostics the rule reports
+ */
+export function checkTemplate(rule: IDiagnosticRule, content: string, options?: MockTextDocumentOptions): vscode.Diagnostic[] {
+  const document = new MockTextDocument(content, options) as any;
+  return rule.check(document, new EJSParser().parseDocument(document));
+}
@@ -13,6 +13,25 @@ export class Range {
   ) {}
 }
 
+export class Uri {
+  private constructor(
+    public scheme: string,
+    public fsPath: string
+  ) {}
+
+  static file(path: string): Uri {
+    return new Uri('file', path);
+  }
+
+  get path(): string {
+    return this.fsPath;
+  }
+
+  toString(): string {
+    return `${this.scheme}://${this.fsPath}`;
+  }
+}
+
 export class Location {
   constructor(
     public uri: any,
@@ -33,9 +52,148 @@ export enum DocumentHighlightKind {
   Write = 2
 }
 
+export class DocumentLink {
+  public tooltip?: string;
+
+  constructor(
+    public range: Range,
+    public target?: Uri
+  ) {}
+}
+
+export enum DiagnosticSeverity {
+  Error = 0,
+  Warning = 1,
+  Information = 2,
+  Hint = 3
+}
+
+export enum DiagnosticTag {
+  Unnecessary = 1,
+  Deprecated = 2
+}
+
+export class Diagnostic {
+  public source?: string;
+  public code?: string | number;
+  public tags?: DiagnosticTag[];
+  public relatedInformation?: DiagnosticRelatedInformation[];
+
+  constructor(
+    public range: Range,
+    public message: string,
+    public severity: DiagnosticSeverity = DiagnosticSeverity.Error
+  ) {}
+}
+
+export class DiagnosticRelatedInformation {
+  constructor(
+    public location: Location,
+    public message: string
+  ) {}
+}
+
+export enum SymbolKind {
+  File = 0,
+  Module = 1,
+  Namespace = 2,
+  Variable = 12
+}
+
+export class CallHierarchyItem {
+  constructor(
+    public kind: SymbolKind,
+    public name: string,
+    public detail: string,
+    public uri: Uri,
+    public range: Range,
+    public selectionRange: Range
+  ) {}
+}
+
+export class CallHierarchyIncomingCall {
+  constructor(
+    public from: CallHierarchyItem,
+    public fromRanges: Range[]
+  ) {}
+}
+
+export class CallHierarchyOutgoingCall {
+  constructor(
+    public to: CallHierarchyItem,
+    public fromRanges: Range[]
+  ) {}
+}
+
+export enum CompletionItemKind {
+  Method = 1,
+  Function = 2,
+  Field = 4,
+  Variable = 5,
+  Class = 6,
+  Property = 9,
+  Keyword = 13,
+  File = 16,
+  Folder = 18,
+  Constant = 20
+}
+
+export enum CompletionTriggerKind {
+  Invoke = 0,
+  TriggerCharacter = 1,
+  TriggerForIncompleteCompletions = 2
+}
+
+export class CompletionItem {
+  public detail?: string;
+  public documentation?: string | MarkdownString;
+  public sortText?: string;
+  public insertText?: string;
+  public range?: Range;
+  public command?: { command: string; title: string };
+
+  constructor(
+    public label: string,
+    public kind?: CompletionItemKind
+  ) {}
+}
+
+export class WorkspaceEdit {
+  public edits: { uri: any; range: Range; newText: string }[] = [];
+
+  replace(uri: any, range: Range, newText: string): void {
+    this.edits.push({ uri, range, newText });
+  }
+
+  delete(uri: any, range: Range): void {
+    this.edits.push({ uri, range, newText: '' });
+  }
+}
+
+export class CodeActionKind {
+  static readonly QuickFix = new CodeActionKind('quickfix');
+
+  private constructor(public readonly value: string) {}
+}
+
+export class CodeAction {
+  public diagnostics?: Diagnostic[];
+  public isPreferred?: boolean;
+  public edit?: WorkspaceEdit;
+
+  constructor(
+    public title: string,
+    public kind?: CodeActionKind
+  ) {}
+}
+
 export class MarkdownString {
   public isTrusted = false;
-  private content = '';
+  private content: string;
+
+  constructor(value = '') {
+    this.content = value;
+  }
 
   appendCodeblock(code: string, language?: string): void {
     this.content += `\`\`\`${language || ''}\n${code}\n\`\`\`\n`;
@@ -45,6 +203,10 @@ export class MarkdownString {
     this.content += markdown;
   }
 
+  appendText(text: string): void {
+    this.content += text.replace(/[\\`*_{}[\]()#+\-.!<>|]/g, '\\$&');
+  }
+
   toString(): string {
     return this.content;
   }
@@ -57,6 +219,28 @@ export class Hover {
   ) {}
 }
 
+export class ParameterInformation {
+  constructor(
+    public label: string,
+    public documentation?: string | MarkdownString
+  ) {}
+}
+
+export class SignatureInformation {
+  public parameters: ParameterInformation[] = [];
+
+  constructor(
+    public label: string,
+    public documentation?: string | MarkdownString
+  ) {}
+}
+
+export class SignatureHelp {
+  public signatures: SignatureInformation[] = [];
+  public activeSignature = 0;
+  public activeParameter = 0;
+}
+
 export interface TextDocument {
   uri: any;
   languageId: string;
@@ -70,23 +254,75 @@ export interface TextEditor {
   setDecorations(decorationType: any, ranges: any[]): void;
 }
 
+export class SemanticTokensLegend {
+  constructor(
+    public tokenTypes: string[],
+    public tokenModifiers: string[] = []
+  ) {}
+}
+
+export class SemanticTokens {
+  constructor(public data: Uint32Array) {}
+}
+
+export class SemanticTokensBuilder {
+  private tokens: number[][] = [];
+
+  constructor(public legend?: SemanticTokensLegend) {}
+
+  push(line: number, character: number, length: number, tokenType: number, tokenModifiers = 0): void {
+    this.tokens.push([line, character, length, tokenType, tokenModifiers]);
+  }
+
+  build(): SemanticTokens {
+    // Encode relative to the previous token like VS Code does
+    const data: number[] = [];
+    let previousLine = 0;
+    let previousCharacter = 0;
+    for (const [line, character, length, tokenType, tokenModifiers] of this.tokens) {
+      const deltaLine = line - previousLine;
+      const deltaCharacter = deltaLine === 0 ? character - previousCharacter : character;
+      data.push(deltaLine, deltaCharacter, length, tokenType, tokenModifiers);
+      previousLine = line;
+      previousCharacter = character;
+    }
+    return new SemanticTokens(new Uint32Array(data));
+  }
+}
+
 export const window = {
   createTextEditorDecorationType: (options: any) => ({
     key: 'mock-decoration-type',
     options,
     dispose: () => {}
   }),
+  createOutputChannel: (name: string) => ({
+    name,
+    appendLine: (value: string) => {},
+    clear: () => {},
+    show: () => {},
+    dispose: () => {}
+  }),
   activeTextEditor: undefined as TextEditor | undefined,
   onDidChangeActiveTextEditor: (callback: (editor: TextEditor | undefined) => void) => ({
     dispose: () => {}
   }),
   onDidChangeTextEditorSelection: (callback: (event: any) => void) => ({
     dispose: () => {}
-  })
+  }),
+  showInformationMessage: (message: string, ...items: string[]) => Promise.resolve(undefined as string | undefined),
+  showQuickPick: <T>(items: T[] | Thenable<T[]>, options?: any) => Promise.resolve(undefined as T | undefined),
+  showTextDocument: (uri: any, options?: any) => Promise.resolve(undefined as TextEditor | undefined)
 };
 
 export const commands = {
-  executeCommand: (command: string, ...args: any[]) => Promise.resolve()
+  executeCommand: (command: string, ...args: any[]) => Promise.resolve(),
+  registerCommand: (command: string, callback: (...args: any[]) => any) => ({
+    dispose: () => {}
+  }),
+  registerTextEditorCommand: (command: string, callback: (editor: TextEditor, ...args: any[]) => any) => ({
+    dispose: () => {}
+  })
 };
 
 export const languages = {
@@ -98,12 +334,72 @@ export const languages = {
   }),
   registerDocumentHighlightProvider: (selector: any, provider: any) => ({
     dispose: () => {}
-  })
+  }),
+  registerDocumentSemanticTokensProvider: (selector: any, provider: any, legend: any) => ({
+    dispose: () => {}
+  }),
+  registerReferenceProvider: (selector: any, provider: any) => ({
+    dispose: () => {}
+  }),
+  registerRenameProvider: (selector: any, provider: any) => ({
+    dispose: () => {}
+  }),
+  registerDocumentLinkProvider: (selector: any, provider: any) => ({
+    dispose: () => {}
+  }),
+  registerCallHierarchyProvider: (selector: any, provider: any) => ({
+    dispose: () => {}
+  }),
+  registerCompletionItemProvider: (selector: any, provider: any, ...triggerCharacters: string[]) => ({
+    dispose: () => {}
+  }),
+  registerCodeActionsProvider: (selector: any, provider: any, metadata?: any) => ({
+    dispose: () => {}
+  }),
+  registerSignatureHelpProvider: (selector: any, provider: any, ...triggerCharacters: string[]) => ({
+    dispose: () => {}
+  }),
+  createDiagnosticCollection: (name?: string) => {
+    const entries = new Map<string, Diagnostic[]>();
+    return {
+      name,
+      set: (uri: any, diagnostics: Diagnostic[]) => entries.set(uri.toString(), diagnostics),
+      get: (uri: any) => entries.get(uri.toString()),
+      delete: (uri: any) => entries.delete(uri.toString()),
+      clear: () => entries.clear(),
+      dispose: () => entries.clear()
+    };
+  }
 };
 
 export const workspace = {
   onDidChangeTextDocument: (callback: (event: any) => void) => ({
     dispose: () => {}
+  }),
+  onDidOpenTextDocument: (callback: (document: TextDocument) => void) => ({
+    dispose: () => {}
+  }),
+  onDidCloseTextDocument: (callback: (document: TextDocument) => void) => ({
+    dispose: () => {}
+  }),
+  onDidChangeConfiguration: (callback: (event: any) => void) => ({
+    dispose: () => {}
+  }),
+  textDocuments: [] as TextDocument[],
+  findFiles: (include: string, exclude?: string) => Promise.resolve([] as Uri[]),
+  createFileSystemWatcher: (globPattern: any) => ({
+    onDidCreate: (callback: (uri: Uri) => void) => ({ dispose: () => {} }),
+    onDidChange: (callback: (uri: Uri) => void) => ({ dispose: () => {} }),
+    onDidDelete: (callback: (uri: Uri) => void) => ({ dispose: () => {} }),
+    dispose: () => {}
+  }),
+  fs: {
+    readFile: (uri: Uri) => Promise.resolve(new Uint8Array())
+  },
+  getWorkspaceFolder: (uri: any) => undefined as { uri: Uri; name: string; index: number } | undefined,
+  asRelativePath: (pathOrUri: any) => typeof pathOrUri === 'string' ? pathOrUri : pathOrUri.fsPath,
+  getConfiguration: (section?: string) => ({
+    get: <T>(key: string, defaultValue?: T): T | undefined => defaultValue
   })
 };
 
@@ -136,4 +432,38 @@ export interface DocumentHighlightProvider {
     position: Position,
     token: CancellationToken
   ): ProviderResult<DocumentHighlight[]>;
+}
+
+export interface ReferenceContext {
+  includeDeclaration: boolean;
+}
+
+export interface ReferenceProvider {
+  provideReferences(
+    document: TextDocument,
+    position: Position,
+    context: ReferenceContext,
+    token: CancellationToken
+  ): ProviderResult<Location[]>;
+}
+
+export interface RenameProvider {
+  provideRenameEdits(
+    document: TextDocument,
+    position: Position,
+    newName: string,
+    token: CancellationToken
+  ): ProviderResult<WorkspaceEdit>;
+  prepareRename?(
+    document: TextDocument,
+    position: Position,
+    token: CancellationToken
+  ): ProviderResult<Range | { range: Range; placeholder: string }>;
+}
+
+export interface DocumentLinkProvider {
+  provideDocumentLinks(
+    document: TextDocument,
+    token: CancellationToken
+  ): ProviderResult<DocumentLink[]>;
 }
\ No newline at end of file